@@ -0,0 +1,44 @@
+/**
+ * Convert IFC files to GLB headlessly with Babylon's NullEngine
+ *
+ * Usage: npm run ifc2glb -- <input.ifc> [output.glb] [--visible-only] [--instancing]
+ */
+import { readFile, writeFile } from "node:fs/promises";
+import { basename, extname } from "node:path";
+import { NullEngine, Scene } from "@babylonjs/core";
+import { initializeWebIFC, loadAndRenderIfc, disposeIfcModel } from "../src/ifcLoader";
+import { exportIfcSceneToGlb } from "../src/ifcExport";
+
+const args = process.argv.slice(2);
+const visibleOnly = args.includes("--visible-only");
+const instancing = args.includes("--instancing");
+const [inputPath, outputArg] = args.filter((arg) => !arg.startsWith("--"));
+
+if (!inputPath) {
+  console.error("Usage: npm run ifc2glb -- <input.ifc> [output.glb] [--visible-only] [--instancing]");
+  process.exit(1);
+}
+
+const outputPath = outputArg ?? inputPath.slice(0, inputPath.length - extname(inputPath).length) + ".glb";
+const fileName = basename(outputPath, extname(outputPath));
+
+const ifcAPI = await initializeWebIFC();
+const engine = new NullEngine();
+const scene = new Scene(engine);
+
+try {
+  const file = new File([await readFile(inputPath)], basename(inputPath));
+  const model = await loadAndRenderIfc(ifcAPI, file, scene, { instancing });
+
+  const glb = await exportIfcSceneToGlb(ifcAPI, model, { fileName, visibleOnly });
+  await writeFile(outputPath, Buffer.from(await glb.arrayBuffer()));
+  console.log(`✅ Wrote ${outputPath}`);
+
+  disposeIfcModel(ifcAPI, model);
+} catch (error) {
+  console.error("Failed to convert IFC file:", error);
+  process.exitCode = 1;
+} finally {
+  scene.dispose();
+  engine.dispose();
+}
@@ -0,0 +1,247 @@
+import {
+  addBcfComment,
+  createBcfTopic,
+  type BcfProject,
+  type BcfTopic,
+  type BcfVersion,
+  type BcfViewpoint,
+} from "./ifcBcf";
+
+/** Callbacks from the BCF panel to the viewer */
+export interface BcfPanelHandlers {
+  /** Capture the current view (camera, selection, hidden elements, section, snapshot) */
+  onCaptureViewpoint: () => Promise<BcfViewpoint>;
+  onRestoreViewpoint: (viewpoint: BcfViewpoint) => void;
+  /** Replace the topics with the ones of a .bcfzip file */
+  onImport: (file: File) => void;
+  onExport: (version: BcfVersion) => void;
+}
+
+const TOPIC_STATUSES = ["Open", "In Progress", "Resolved", "Closed"];
+
+// Panel state, kept across refreshes
+let activeTopicGuid: string | null = null;
+let author = "";
+let exportVersion: BcfVersion = "2.1";
+let capturing = false;
+
+const formatDate = (date: string) => (date ? new Date(date).toLocaleString() : "");
+
+/**
+ * Create or refresh the BCF issues panel
+ * New topics start with a viewpoint of the current view; clicking a viewpoint restores it.
+ */
+export function updateBcfPanel(project: BcfProject, handlers: BcfPanelHandlers): void {
+  let panel = document.getElementById("bcf-panel");
+  if (!panel) {
+    panel = document.createElement("div");
+    panel.id = "bcf-panel";
+    panel.className = "bcf-panel";
+    document.body.appendChild(panel);
+  }
+
+  panel.innerHTML = "";
+  const rerender = () => updateBcfPanel(project, handlers);
+  const getAuthor = () => author.trim() || "Unknown";
+
+  const createButton = (parent: HTMLElement, text: string, title: string, onClick: () => void, disabled = false) => {
+    const button = document.createElement("button");
+    button.textContent = text;
+    button.title = title;
+    button.disabled = disabled;
+    button.onclick = onClick;
+    parent.appendChild(button);
+    return button;
+  };
+
+  const addViewpoint = async (topic: BcfTopic) => {
+    capturing = true;
+    rerender();
+    try {
+      topic.viewpoints.push(await handlers.onCaptureViewpoint());
+    } catch (error) {
+      console.error("Failed to capture the BCF viewpoint:", error);
+    }
+    capturing = false;
+    rerender();
+  };
+
+  // Header: import and export
+  const header = document.createElement("div");
+  header.className = "bcf-header";
+  panel.appendChild(header);
+
+  const title = document.createElement("span");
+  title.className = "bcf-title";
+  title.textContent = `Issues (${project.topics.length})`;
+  header.appendChild(title);
+
+  const fileInput = document.createElement("input");
+  fileInput.type = "file";
+  fileInput.accept = ".bcfzip,.bcf,.zip";
+  fileInput.style.display = "none";
+  fileInput.onchange = () => {
+    const file = fileInput.files?.[0];
+    if (file) handlers.onImport(file);
+  };
+  header.appendChild(fileInput);
+  createButton(header, "Import", "Open a .bcfzip file; replaces the current topics", () => fileInput.click());
+
+  const versionSelect = document.createElement("select");
+  (["2.1", "3.0"] as BcfVersion[]).forEach((version) => {
+    const option = document.createElement("option");
+    option.value = version;
+    option.textContent = `BCF ${version}`;
+    option.selected = version === exportVersion;
+    versionSelect.appendChild(option);
+  });
+  versionSelect.onchange = () => (exportVersion = versionSelect.value as BcfVersion);
+  header.appendChild(versionSelect);
+  createButton(
+    header,
+    "Export",
+    "Download the topics as a .bcfzip file",
+    () => handlers.onExport(exportVersion),
+    project.topics.length === 0,
+  );
+
+  // Author and new topic
+  const authorInput = document.createElement("input");
+  authorInput.type = "text";
+  authorInput.placeholder = "Author (e-mail)";
+  authorInput.value = author;
+  authorInput.oninput = () => (author = authorInput.value);
+  panel.appendChild(authorInput);
+
+  const newTopic = document.createElement("div");
+  newTopic.className = "bcf-row";
+  panel.appendChild(newTopic);
+
+  const titleInput = document.createElement("input");
+  titleInput.type = "text";
+  titleInput.placeholder = "New topic title";
+  newTopic.appendChild(titleInput);
+
+  const addTopic = () => {
+    const topicTitle = titleInput.value.trim();
+    if (!topicTitle || capturing) return;
+    const topic = createBcfTopic(project, topicTitle, getAuthor());
+    activeTopicGuid = topic.guid;
+    addViewpoint(topic);
+  };
+  titleInput.onkeydown = (e) => {
+    if (e.key === "Enter") addTopic();
+  };
+  createButton(newTopic, "＋", "Add a topic with a viewpoint of the current view", addTopic, capturing);
+
+  // Topics; the active one shows its viewpoints and comments
+  project.topics.forEach((topic) => {
+    const item = document.createElement("div");
+    item.className = "bcf-topic";
+    panel!.appendChild(item);
+
+    const row = document.createElement("div");
+    row.className = "bcf-topic-row";
+    row.onclick = () => {
+      activeTopicGuid = activeTopicGuid === topic.guid ? null : topic.guid;
+      rerender();
+    };
+    item.appendChild(row);
+
+    const name = document.createElement("span");
+    name.className = "bcf-topic-title";
+    name.textContent = topic.title || "(untitled)";
+    name.title = [topic.topicType, topic.creationAuthor, formatDate(topic.creationDate)].filter(Boolean).join(" · ");
+    row.appendChild(name);
+
+    const counts = document.createElement("span");
+    counts.className = "bcf-topic-counts";
+    counts.textContent = `${topic.topicStatus} · 💬${topic.comments.length} 📷${topic.viewpoints.length}`;
+    row.appendChild(counts);
+
+    if (activeTopicGuid !== topic.guid) return;
+    item.classList.add("active");
+
+    if (topic.description) {
+      const description = document.createElement("div");
+      description.className = "bcf-description";
+      description.textContent = topic.description;
+      item.appendChild(description);
+    }
+
+    const statusSelect = document.createElement("select");
+    // Imported topics may use statuses of their own
+    const statuses = TOPIC_STATUSES.includes(topic.topicStatus)
+      ? TOPIC_STATUSES
+      : [topic.topicStatus, ...TOPIC_STATUSES];
+    statuses.forEach((status) => {
+      const option = document.createElement("option");
+      option.value = status;
+      option.textContent = status;
+      option.selected = status === topic.topicStatus;
+      statusSelect.appendChild(option);
+    });
+    statusSelect.onchange = () => {
+      topic.topicStatus = statusSelect.value;
+      rerender();
+    };
+    item.appendChild(statusSelect);
+
+    const viewpoints = document.createElement("div");
+    viewpoints.className = "bcf-viewpoints";
+    item.appendChild(viewpoints);
+    topic.viewpoints.forEach((viewpoint, index) => {
+      const restore = () => handlers.onRestoreViewpoint(viewpoint);
+      if (viewpoint.snapshot) {
+        const image = document.createElement("img");
+        image.src = viewpoint.snapshot;
+        image.title = `Restore viewpoint ${index + 1}`;
+        image.onclick = restore;
+        viewpoints.appendChild(image);
+      } else {
+        createButton(viewpoints, `📷 ${index + 1}`, "Restore this viewpoint", restore);
+      }
+    });
+    createButton(viewpoints, "＋📷", "Add a viewpoint of the current view", () => addViewpoint(topic), capturing);
+
+    topic.comments.forEach((comment) => {
+      const entry = document.createElement("div");
+      entry.className = "bcf-comment";
+      const meta = document.createElement("span");
+      meta.className = "bcf-comment-meta";
+      meta.textContent = `${comment.author} · ${formatDate(comment.date)}`;
+      entry.appendChild(meta);
+      entry.appendChild(document.createTextNode(comment.comment));
+
+      // Comments about a viewpoint restore it on click
+      const viewpoint = topic.viewpoints.find((candidate) => candidate.guid === comment.viewpointGuid);
+      if (viewpoint) {
+        entry.classList.add("has-viewpoint");
+        entry.title = "Restore the viewpoint of this comment";
+        entry.onclick = () => handlers.onRestoreViewpoint(viewpoint);
+      }
+      item.appendChild(entry);
+    });
+
+    const commentRow = document.createElement("div");
+    commentRow.className = "bcf-row";
+    item.appendChild(commentRow);
+
+    const commentInput = document.createElement("input");
+    commentInput.type = "text";
+    commentInput.placeholder = "Add a comment";
+    commentRow.appendChild(commentInput);
+
+    // Comments refer to the latest viewpoint
+    const addComment = () => {
+      const text = commentInput.value.trim();
+      if (!text) return;
+      addBcfComment(topic, getAuthor(), text, topic.viewpoints[topic.viewpoints.length - 1]?.guid);
+      rerender();
+    };
+    commentInput.onkeydown = (e) => {
+      if (e.key === "Enter") addComment();
+    };
+    createButton(commentRow, "💬", "Add the comment", addComment);
+  });
+}
@@ -0,0 +1,203 @@
+import type { IfcColorBy, IfcColorByKey, IfcColorLegend } from "./ifcColorBy";
+
+/** Callbacks from the colour-by panel to the viewer */
+export interface ColorByPanelHandlers {
+  /** Called after the colours were applied or reset */
+  onChange: () => void;
+}
+
+// Key options: kind, caption
+const COLOR_BY_KINDS: [IfcColorByKey["kind"], string][] = [
+  ["type", "IFC type"],
+  ["storey", "Storey"],
+  ["material", "Material"],
+  ["property", "Property"],
+  ["quantity", "Quantity"],
+];
+
+// Chosen key and status, kept across refreshes
+let kind: IfcColorByKey["kind"] = "type";
+let field = "";
+let applying = false;
+let errorText = "";
+
+/**
+ * Build a colour-by key from the panel inputs; properties and quantities take `Name` or `Set.Name`
+ */
+function getKey(): IfcColorByKey {
+  if (kind !== "property" && kind !== "quantity") return { kind };
+
+  const text = field.trim();
+  if (!text) throw new Error(`Enter a ${kind} name, e.g. ${kind === "property" ? "IsExternal" : "NetVolume"}`);
+  const dot = text.lastIndexOf(".");
+  return dot > 0 ? { kind, set: text.slice(0, dot), name: text.slice(dot + 1) } : { kind, name: text };
+}
+
+// Format a gradient bound with up to three decimals
+const formatNumber = (value: number) => Number(value.toFixed(3)).toString();
+
+/**
+ * Render the legend of the active colouring
+ */
+function renderLegend(container: HTMLElement, legend: IfcColorLegend): void {
+  const title = document.createElement("div");
+  title.className = "color-by-legend-title";
+  title.textContent = legend.title;
+  container.appendChild(title);
+
+  if (legend.kind === "categorical") {
+    legend.entries.forEach(({ label, color, count }) => {
+      const row = document.createElement("div");
+      row.className = "color-by-legend-row";
+
+      const swatch = document.createElement("span");
+      swatch.className = "color-by-swatch";
+      swatch.style.background = color.toHexString();
+      row.appendChild(swatch);
+
+      const name = document.createElement("span");
+      name.className = "color-by-label";
+      name.textContent = label;
+      name.title = label;
+      row.appendChild(name);
+
+      const countLabel = document.createElement("span");
+      countLabel.className = "color-by-count";
+      countLabel.textContent = String(count);
+      row.appendChild(countLabel);
+
+      container.appendChild(row);
+    });
+    return;
+  }
+
+  const bar = document.createElement("div");
+  bar.className = "color-by-gradient";
+  bar.style.background = `linear-gradient(to right, ${legend.stops.map((color) => color.toHexString()).join(", ")})`;
+  container.appendChild(bar);
+
+  const range = document.createElement("div");
+  range.className = "color-by-range";
+  const min = document.createElement("span");
+  min.textContent = formatNumber(legend.min);
+  const max = document.createElement("span");
+  max.textContent = formatNumber(legend.max);
+  range.appendChild(min);
+  range.appendChild(max);
+  container.appendChild(range);
+
+  const counts = document.createElement("div");
+  counts.className = "color-by-count";
+  counts.textContent = `${legend.count} elements`;
+  if (legend.missingCount > 0) counts.textContent += `, ${legend.missingCount} without a value`;
+  container.appendChild(counts);
+}
+
+/**
+ * Create or refresh the colour-by panel with its legend
+ */
+export function updateColorByPanel(colorBy: IfcColorBy, handlers: ColorByPanelHandlers): void {
+  let panel = document.getElementById("color-by-panel");
+  if (!panel) {
+    panel = document.createElement("div");
+    panel.id = "color-by-panel";
+    panel.className = "color-by-panel";
+    document.body.appendChild(panel);
+  }
+
+  panel.innerHTML = "";
+  const rerender = () => updateColorByPanel(colorBy, handlers);
+
+  const header = document.createElement("div");
+  header.className = "color-by-header";
+  panel.appendChild(header);
+
+  const title = document.createElement("span");
+  title.className = "color-by-title";
+  title.textContent = "Colour by";
+  header.appendChild(title);
+
+  const select = document.createElement("select");
+  COLOR_BY_KINDS.forEach(([value, caption]) => {
+    const option = document.createElement("option");
+    option.value = value;
+    option.textContent = caption;
+    option.selected = value === kind;
+    select.appendChild(option);
+  });
+  select.onchange = () => {
+    kind = select.value as IfcColorByKey["kind"];
+    rerender();
+  };
+  header.appendChild(select);
+
+  const apply = async () => {
+    if (applying) return;
+    try {
+      const key = getKey();
+      applying = true;
+      errorText = "";
+      rerender();
+      await colorBy.apply(key);
+    } catch (error) {
+      errorText = error instanceof Error ? error.message : String(error);
+    }
+    applying = false;
+    handlers.onChange();
+    rerender();
+  };
+
+  if (kind === "property" || kind === "quantity") {
+    const input = document.createElement("input");
+    input.type = "text";
+    input.value = field;
+    input.placeholder = kind === "property" ? "Pset_WallCommon.IsExternal" : "Qto_WallBaseQuantities.Width";
+    input.title = "Name or Set.Name";
+    input.oninput = () => (field = input.value);
+    input.onkeydown = (e) => {
+      if (e.key === "Enter") apply();
+    };
+    panel.appendChild(input);
+  }
+
+  const actions = document.createElement("div");
+  actions.className = "color-by-actions";
+  panel.appendChild(actions);
+
+  const createButton = (text: string, buttonTitle: string, onClick: () => void, disabled: boolean) => {
+    const button = document.createElement("button");
+    button.textContent = text;
+    button.title = buttonTitle;
+    button.disabled = disabled;
+    button.onclick = onClick;
+    actions.appendChild(button);
+  };
+
+  const legend = colorBy.getLegend();
+  createButton(applying ? "Colouring…" : "Apply", "Colour all elements by the chosen key", apply, applying);
+  createButton(
+    "Reset",
+    "Restore the IFC colours",
+    () => {
+      colorBy.reset();
+      errorText = "";
+      handlers.onChange();
+      rerender();
+    },
+    applying || legend === null,
+  );
+
+  if (errorText) {
+    const error = document.createElement("div");
+    error.className = "color-by-error";
+    error.textContent = errorText;
+    panel.appendChild(error);
+  }
+
+  if (legend) {
+    const container = document.createElement("div");
+    container.className = "color-by-legend";
+    renderLegend(container, legend);
+    panel.appendChild(container);
+  }
+}
@@ -0,0 +1,204 @@
+import type { IfcModel } from "./ifcLoader";
+import {
+  IFC_CHANGE_COLORS,
+  IFC_CHANGE_LABELS,
+  type IfcChangeKind,
+  type IfcElementChange,
+  type IfcModelDiff,
+} from "./ifcDiff";
+
+/** Callbacks from the compare panel to the viewer */
+export interface ComparePanelHandlers {
+  /** Compare two loaded revisions and show the result */
+  onCompare: (before: IfcModel, after: IfcModel) => void;
+  /** Restore the colours and the old revision */
+  onClear: () => void;
+  /** Select and frame a changed element */
+  onShowChange: (change: IfcElementChange) => void;
+  /** Download the change report */
+  onExport: () => void;
+}
+
+// Changed elements listed at most; the CSV report has all of them
+const MAX_ROWS = 200;
+
+// Panel state, kept across refreshes
+let beforeModelID: number | null = null;
+let afterModelID: number | null = null;
+let filterKind: IfcChangeKind | null = null;
+let expandedGlobalId: string | null = null;
+
+/**
+ * Create or refresh the revision compare panel
+ * The two latest loaded models are compared by default, the older one as the old revision.
+ * @param comparing Whether a comparison is running
+ */
+export function updateComparePanel(
+  models: IfcModel[],
+  diff: IfcModelDiff | null,
+  comparing: boolean,
+  handlers: ComparePanelHandlers,
+): void {
+  let panel = document.getElementById("compare-panel");
+  if (!panel) {
+    panel = document.createElement("div");
+    panel.id = "compare-panel";
+    panel.className = "compare-panel";
+    document.body.appendChild(panel);
+  }
+
+  panel.innerHTML = "";
+  const rerender = () => updateComparePanel(models, diff, comparing, handlers);
+
+  // Keep the chosen models while they are loaded
+  const isLoaded = (modelID: number | null) => models.some((model) => model.modelID === modelID);
+  if (!isLoaded(beforeModelID)) beforeModelID = models[models.length - 2]?.modelID ?? null;
+  if (!isLoaded(afterModelID)) afterModelID = models[models.length - 1]?.modelID ?? null;
+
+  const title = document.createElement("div");
+  title.className = "compare-title";
+  title.textContent = "Compare revisions";
+  panel.appendChild(title);
+
+  const createModelSelect = (label: string, value: number | null, onChange: (modelID: number) => void) => {
+    const row = document.createElement("label");
+    row.className = "compare-row";
+    row.textContent = label;
+    const select = document.createElement("select");
+    models.forEach((model) => {
+      const option = document.createElement("option");
+      option.value = String(model.modelID);
+      option.textContent = model.name;
+      option.selected = model.modelID === value;
+      select.appendChild(option);
+    });
+    select.onchange = () => {
+      onChange(Number(select.value));
+      rerender();
+    };
+    row.appendChild(select);
+    panel!.appendChild(row);
+  };
+  createModelSelect("Old", beforeModelID, (modelID) => (beforeModelID = modelID));
+  createModelSelect("New", afterModelID, (modelID) => (afterModelID = modelID));
+
+  const actions = document.createElement("div");
+  actions.className = "compare-actions";
+  panel.appendChild(actions);
+
+  const createButton = (text: string, buttonTitle: string, onClick: () => void, disabled: boolean) => {
+    const button = document.createElement("button");
+    button.textContent = text;
+    button.title = buttonTitle;
+    button.disabled = disabled;
+    button.onclick = onClick;
+    actions.appendChild(button);
+  };
+
+  const before = models.find((model) => model.modelID === beforeModelID);
+  const after = models.find((model) => model.modelID === afterModelID);
+  createButton(
+    comparing ? "Comparing…" : "Compare",
+    "Match elements by GlobalId and colour the new revision by change",
+    () => {
+      filterKind = null;
+      expandedGlobalId = null;
+      handlers.onCompare(before!, after!);
+    },
+    comparing || !before || !after || before === after,
+  );
+  createButton("Clear", "Restore the IFC colours and the old revision", () => handlers.onClear(), comparing || !diff);
+  createButton("CSV", "Download the change report with before and after values", () => handlers.onExport(), !diff);
+
+  if (!diff) return;
+
+  // Counts per change kind; click one to list only those changes
+  const summary = document.createElement("div");
+  summary.className = "compare-summary";
+  panel.appendChild(summary);
+  (["added", "removed", "geometry", "properties"] as IfcChangeKind[]).forEach((kind) => {
+    const chip = document.createElement("span");
+    chip.className = "compare-chip";
+    chip.classList.toggle("active", filterKind === kind);
+    chip.title = `Show only: ${IFC_CHANGE_LABELS[kind]}`;
+    chip.onclick = () => {
+      filterKind = filterKind === kind ? null : kind;
+      rerender();
+    };
+    const swatch = document.createElement("span");
+    swatch.className = "compare-swatch";
+    swatch.style.background = IFC_CHANGE_COLORS[kind].toHexString();
+    chip.appendChild(swatch);
+    chip.appendChild(document.createTextNode(`${IFC_CHANGE_LABELS[kind]} ${diff.counts[kind]}`));
+    summary.appendChild(chip);
+  });
+
+  const unchanged = document.createElement("div");
+  unchanged.className = "compare-note";
+  unchanged.textContent = `${diff.counts.unchanged} unchanged elements`;
+  panel.appendChild(unchanged);
+
+  const changes = diff.changes.filter((change) => filterKind === null || change.kind === filterKind);
+  changes.slice(0, MAX_ROWS).forEach((change) => {
+    const item = document.createElement("div");
+    item.className = "compare-change";
+    panel!.appendChild(item);
+
+    const row = document.createElement("div");
+    row.className = "compare-change-row";
+    row.title = `${change.globalId} · ${IFC_CHANGE_LABELS[change.kind]}`;
+    row.onclick = () => {
+      expandedGlobalId = expandedGlobalId === change.globalId ? null : change.globalId;
+      handlers.onShowChange(change);
+      rerender();
+    };
+    item.appendChild(row);
+
+    const swatch = document.createElement("span");
+    swatch.className = "compare-swatch";
+    swatch.style.background = IFC_CHANGE_COLORS[change.kind].toHexString();
+    row.appendChild(swatch);
+
+    const name = document.createElement("span");
+    name.className = "compare-change-name";
+    name.textContent = change.name || change.globalId;
+    row.appendChild(name);
+
+    const type = document.createElement("span");
+    type.className = "compare-change-type";
+    type.textContent = change.ifcTypeName;
+    row.appendChild(type);
+
+    if (expandedGlobalId !== change.globalId) return;
+    item.classList.add("active");
+
+    if (change.geometryChanged) {
+      const geometry = document.createElement("div");
+      geometry.className = "compare-note";
+      geometry.textContent = "Geometry changed";
+      item.appendChild(geometry);
+    }
+    if (change.propertyChanges.length === 0) return;
+
+    const table = document.createElement("table");
+    table.className = "compare-values";
+    change.propertyChanges.forEach(({ name: property, before: oldValue, after: newValue }) => {
+      const tableRow = table.insertRow();
+      tableRow.insertCell().textContent = property;
+      const oldCell = tableRow.insertCell();
+      oldCell.className = "compare-before";
+      oldCell.textContent = oldValue ?? "—";
+      const newCell = tableRow.insertCell();
+      newCell.className = "compare-after";
+      newCell.textContent = newValue ?? "—";
+    });
+    item.appendChild(table);
+  });
+
+  if (changes.length > MAX_ROWS) {
+    const more = document.createElement("div");
+    more.className = "compare-note";
+    more.textContent = `… ${changes.length - MAX_ROWS} more in the CSV report`;
+    panel.appendChild(more);
+  }
+}
@@ -0,0 +1,58 @@
+import type { IfcHighlighter, IfcHighlightMode } from "./ifcHighlight";
+
+/** Callbacks from the highlight panel to the viewer */
+export interface HighlightPanelHandlers {
+  onHoverChange: (enabled: boolean) => void;
+}
+
+// Mode buttons: mode, caption, tooltip
+const HIGHLIGHT_MODES: [IfcHighlightMode, string, string][] = [
+  ["overlay", "Overlay", "Tint the selection"],
+  ["outline", "Outline", "Glow around the selection"],
+  ["edges", "Edges", "Draw the edges of the selection"],
+  ["ghost", "Ghost", "Make everything else semi-transparent"],
+];
+
+/**
+ * Create or refresh the highlight mode panel
+ * @param hoverEnabled Whether the element under the cursor is highlighted
+ */
+export function updateHighlightPanel(
+  highlighter: IfcHighlighter,
+  hoverEnabled: boolean,
+  handlers: HighlightPanelHandlers,
+): void {
+  let panel = document.getElementById("highlight-panel");
+  if (!panel) {
+    panel = document.createElement("div");
+    panel.id = "highlight-panel";
+    panel.className = "highlight-panel";
+    document.body.appendChild(panel);
+  }
+
+  panel.innerHTML = "";
+
+  const title = document.createElement("span");
+  title.className = "highlight-title";
+  title.textContent = "Highlight";
+  panel.appendChild(title);
+
+  const mode = highlighter.getMode();
+  HIGHLIGHT_MODES.forEach(([buttonMode, caption, tooltip]) => {
+    const button = document.createElement("button");
+    button.textContent = caption;
+    button.title = tooltip;
+    button.classList.toggle("active", mode === buttonMode);
+    button.onclick = () => highlighter.setMode(buttonMode);
+    panel!.appendChild(button);
+  });
+
+  const hoverLabel = document.createElement("label");
+  const hoverInput = document.createElement("input");
+  hoverInput.type = "checkbox";
+  hoverInput.checked = hoverEnabled;
+  hoverInput.onchange = () => handlers.onHoverChange(hoverInput.checked);
+  hoverLabel.appendChild(hoverInput);
+  hoverLabel.appendChild(document.createTextNode("Hover"));
+  panel.appendChild(hoverLabel);
+}
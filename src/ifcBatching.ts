@@ -0,0 +1,443 @@
+import { Mesh, Vector3, VertexBuffer, VertexData, type AbstractMesh, type TransformNode } from "@babylonjs/core";
+import type { IfcMeshMetadata } from "./ifcLoader";
+
+/** Largest number of vertices in one batched mesh; bigger groups are split */
+export const MAX_BATCH_VERTICES = 1 << 21;
+
+/** How element meshes are combined: not at all, per material, or per material and storey */
+export type IfcBatchMode = "none" | "material" | "materialAndStorey";
+
+/** Index and vertex range of one element mesh inside a batched mesh */
+export interface IfcBatchRange extends IfcMeshMetadata {
+  /** First index and number of indices in the index buffer (triangle list) */
+  indexStart: number;
+  indexCount: number;
+  /** First vertex and number of vertices of the range */
+  vertexStart: number;
+  vertexCount: number;
+}
+
+/**
+ * Metadata stored on a batched mesh (`mesh.metadata`)
+ */
+export interface IfcBatchMetadata {
+  modelID: number;
+  /** Storey shared by all ranges ("materialAndStorey" batching) */
+  storeyID?: number;
+  /** Element ranges in index buffer order */
+  batchRanges: IfcBatchRange[];
+}
+
+// Per-element state of a batched mesh, created on the first change
+interface BatchState {
+  /** Index buffer with every element drawn */
+  indices: Uint32Array;
+  rangesByElement: Map<number, IfcBatchRange[]>;
+  hidden: Set<number>;
+  /** Ghosted elements and their alpha; they are drawn by ghost meshes instead of the batch */
+  ghosted: Map<number, number>;
+  /** Ghosted elements that can still be picked through their ghost mesh */
+  pickableGhosts: Set<number>;
+  ghostMeshes: Mesh[];
+  uploadScheduled: boolean;
+}
+
+const batchStates = new WeakMap<Mesh, BatchState>();
+
+/**
+ * Check whether a mesh is a batched mesh with an element range table
+ */
+export function isIfcBatchMesh(mesh: AbstractMesh): mesh is Mesh {
+  return mesh instanceof Mesh && Array.isArray((mesh.metadata as IfcBatchMetadata | null)?.batchRanges);
+}
+
+/**
+ * Get the element ranges of a batched mesh, in index buffer order
+ */
+export function getBatchRanges(mesh: Mesh): IfcBatchRange[] {
+  return (mesh.metadata as IfcBatchMetadata).batchRanges;
+}
+
+/**
+ * Find the element range containing a picked triangle (`pickInfo.faceId`)
+ */
+export function getBatchRangeAtFace(mesh: Mesh, faceId: number): IfcBatchRange | null {
+  return findRangeAtIndex(getBatchRanges(mesh), faceId * 3);
+}
+
+// Binary search for the range containing an index, in index buffer order
+function findRangeAtIndex<T extends { indexStart: number; indexCount: number }>(ranges: T[], index: number): T | null {
+  let low = 0;
+  let high = ranges.length - 1;
+
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    const range = ranges[middle];
+    if (index < range.indexStart) {
+      high = middle - 1;
+    } else if (index >= range.indexStart + range.indexCount) {
+      low = middle + 1;
+    } else {
+      return range;
+    }
+  }
+  return null;
+}
+
+// Local-space bounds of element ranges, computed on first use
+const rangeBounds = new WeakMap<IfcBatchRange, { minimum: Vector3; maximum: Vector3 }>();
+
+/**
+ * Get the local-space bounds of one element range of a batched mesh
+ */
+export function getBatchRangeBounds(mesh: Mesh, range: IfcBatchRange): { minimum: Vector3; maximum: Vector3 } {
+  let bounds = rangeBounds.get(range);
+  if (!bounds) {
+    const positions = mesh.getVerticesData(VertexBuffer.PositionKind) ?? [];
+    const minimum = new Vector3(Infinity, Infinity, Infinity);
+    const maximum = new Vector3(-Infinity, -Infinity, -Infinity);
+    for (let i = range.vertexStart; i < range.vertexStart + range.vertexCount; i++) {
+      minimum.minimizeInPlaceFromFloats(positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2]);
+      maximum.maximizeInPlaceFromFloats(positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2]);
+    }
+    bounds = { minimum, maximum };
+    rangeBounds.set(range, bounds);
+  }
+  return bounds;
+}
+
+/**
+ * Combine element meshes that share a material (and storey) into batched meshes
+ * Placements must already be baked into the vertices (no instances or instance sources).
+ * Source meshes are disposed; a mesh alone in its group is returned unchanged.
+ */
+export function buildIfcBatches(
+  meshes: Mesh[],
+  mode: IfcBatchMode,
+  modelID: number,
+  rootNode: TransformNode,
+): AbstractMesh[] {
+  if (mode === "none") return meshes;
+
+  const groups = new Map<string, Mesh[]>();
+  meshes.forEach((mesh) => {
+    const metadata = mesh.metadata as IfcMeshMetadata;
+    const key =
+      mode === "materialAndStorey" ? `${mesh.material?.uniqueId}-${metadata.storeyID}` : `${mesh.material?.uniqueId}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = [];
+      groups.set(key, group);
+    }
+    group.push(mesh);
+  });
+
+  const result: AbstractMesh[] = [];
+  let batchIndex = 0;
+
+  groups.forEach((group) => {
+    // Keep elements of a type together so type filters touch few index runs
+    group.sort((a, b) => a.metadata.ifcType - b.metadata.ifcType || a.metadata.expressID - b.metadata.expressID);
+
+    // Split into chunks below the vertex limit
+    const chunks: Mesh[][] = [[]];
+    let chunkVertices = 0;
+    group.forEach((mesh) => {
+      const vertexCount = mesh.getTotalVertices();
+      if (chunkVertices > 0 && chunkVertices + vertexCount > MAX_BATCH_VERTICES) {
+        chunks.push([]);
+        chunkVertices = 0;
+      }
+      chunks[chunks.length - 1].push(mesh);
+      chunkVertices += vertexCount;
+    });
+
+    chunks.forEach((chunk) => {
+      if (chunk.length === 1) {
+        result.push(chunk[0]);
+        return;
+      }
+
+      const batch = createBatchMesh(chunk, `ifc-batch-${modelID}-${batchIndex++}`, rootNode);
+      if (mode === "materialAndStorey") {
+        (batch.metadata as IfcBatchMetadata).storeyID = (chunk[0].metadata as IfcMeshMetadata).storeyID;
+      }
+      chunk.forEach((mesh) => mesh.dispose());
+      result.push(batch);
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Concatenate the vertex data of element meshes into one mesh and record their ranges
+ */
+function createBatchMesh(meshes: Mesh[], name: string, rootNode: TransformNode): Mesh {
+  let vertexTotal = 0;
+  let indexTotal = 0;
+  meshes.forEach((mesh) => {
+    vertexTotal += mesh.getTotalVertices();
+    indexTotal += mesh.getTotalIndices();
+  });
+
+  const positions = new Float32Array(vertexTotal * 3);
+  const normals = new Float32Array(vertexTotal * 3);
+  const indices = new Uint32Array(indexTotal);
+  const ranges: IfcBatchRange[] = [];
+  let vertexStart = 0;
+  let indexStart = 0;
+
+  meshes.forEach((mesh) => {
+    const meshPositions = mesh.getVerticesData(VertexBuffer.PositionKind) ?? [];
+    const meshNormals = mesh.getVerticesData(VertexBuffer.NormalKind);
+    const meshIndices = mesh.getIndices() ?? [];
+    const vertexCount = meshPositions.length / 3;
+
+    positions.set(meshPositions, vertexStart * 3);
+    if (meshNormals) normals.set(meshNormals, vertexStart * 3);
+    for (let i = 0; i < meshIndices.length; i++) {
+      indices[indexStart + i] = meshIndices[i] + vertexStart;
+    }
+
+    const metadata = mesh.metadata as IfcMeshMetadata;
+    ranges.push({
+      ...metadata,
+      indexStart,
+      indexCount: meshIndices.length,
+      vertexStart,
+      vertexCount,
+    });
+
+    vertexStart += vertexCount;
+    indexStart += meshIndices.length;
+  });
+
+  const batch = new Mesh(name, rootNode.getScene());
+  batch.parent = rootNode;
+  batch.material = meshes[0].material;
+
+  const vertexData = new VertexData();
+  vertexData.positions = positions;
+  vertexData.normals = normals;
+  vertexData.applyToMesh(batch);
+  // Updatable so hidden elements can be cut out of the index buffer
+  batch.setIndices(indices, vertexTotal, true);
+
+  const metadata: IfcBatchMetadata = { modelID: (meshes[0].metadata as IfcMeshMetadata).modelID, batchRanges: ranges };
+  batch.metadata = metadata;
+  return batch;
+}
+
+/**
+ * Get (or create) the element state of a batched mesh
+ */
+function getBatchState(mesh: Mesh): BatchState {
+  let state = batchStates.get(mesh);
+  if (!state) {
+    const rangesByElement = new Map<number, IfcBatchRange[]>();
+    getBatchRanges(mesh).forEach((range) => {
+      let ranges = rangesByElement.get(range.expressID);
+      if (!ranges) {
+        ranges = [];
+        rangesByElement.set(range.expressID, ranges);
+      }
+      ranges.push(range);
+    });
+
+    state = {
+      indices: Uint32Array.from(mesh.getIndices() ?? []),
+      rangesByElement,
+      hidden: new Set(),
+      ghosted: new Map(),
+      pickableGhosts: new Set(),
+      ghostMeshes: [],
+      uploadScheduled: false,
+    };
+    batchStates.set(mesh, state);
+  }
+  return state;
+}
+
+/**
+ * Write the ranges of the given elements into the live index buffer, drawn or degenerate
+ * Degenerate triangles keep face indices stable, so picking still maps faces to ranges.
+ */
+function updateElementIndices(mesh: Mesh, state: BatchState, expressIDs: Iterable<number>): void {
+  const indices = mesh.getIndices();
+  if (!indices) return;
+
+  for (const expressID of expressIDs) {
+    const drawn = !state.hidden.has(expressID) && !state.ghosted.has(expressID);
+    state.rangesByElement.get(expressID)?.forEach((range) => {
+      const end = range.indexStart + range.indexCount;
+      for (let i = range.indexStart; i < end; i++) {
+        indices[i] = drawn ? state.indices[i] : state.indices[range.indexStart];
+      }
+    });
+  }
+
+  // Upload once per frame, however many elements changed
+  if (!state.uploadScheduled) {
+    state.uploadScheduled = true;
+    mesh.getScene().onBeforeRenderObservable.addOnce(() => {
+      state.uploadScheduled = false;
+      if (mesh.isDisposed()) return;
+      mesh.updateIndices(indices, undefined, true);
+      rebuildGhostMeshes(mesh, state);
+    });
+  }
+}
+
+/**
+ * Show or hide elements of a batched mesh
+ */
+export function setBatchElementsVisible(mesh: Mesh, expressIDs: number[], visible: boolean): void {
+  const state = getBatchState(mesh);
+  expressIDs.forEach((expressID) => (visible ? state.hidden.delete(expressID) : state.hidden.add(expressID)));
+  updateElementIndices(mesh, state, expressIDs);
+}
+
+/**
+ * Check whether an element of a batched mesh is shown (ghosted elements count as shown)
+ */
+export function isBatchElementVisible(mesh: Mesh, expressID: number): boolean {
+  return mesh.isVisible && !batchStates.get(mesh)?.hidden.has(expressID);
+}
+
+/**
+ * Draw elements of a batched mesh semi-transparent, and unpickable unless `pickable`, or restore them (alpha null)
+ */
+export function setBatchElementsGhosted(
+  mesh: Mesh,
+  expressIDs: number[],
+  alpha: number | null,
+  pickable = false,
+): void {
+  const state = getBatchState(mesh);
+  expressIDs.forEach((expressID) => {
+    if (alpha === null || alpha >= 1) {
+      state.ghosted.delete(expressID);
+      state.pickableGhosts.delete(expressID);
+    } else {
+      state.ghosted.set(expressID, alpha);
+      pickable ? state.pickableGhosts.add(expressID) : state.pickableGhosts.delete(expressID);
+    }
+  });
+  updateElementIndices(mesh, state, expressIDs);
+}
+
+/**
+ * Get the ghosting alpha of an element of a batched mesh (1 when not ghosted)
+ */
+export function getBatchElementAlpha(mesh: Mesh, expressID: number): number {
+  return batchStates.get(mesh)?.ghosted.get(expressID) ?? 1;
+}
+
+// An element range copied into a proxy, at its index position in the proxy
+interface ProxyRange {
+  indexStart: number;
+  indexCount: number;
+  range: IfcBatchRange;
+}
+
+// Batch and copied ranges of each proxy, in proxy index buffer order
+const proxyRanges = new WeakMap<Mesh, { mesh: Mesh; ranges: ProxyRange[] }>();
+
+/**
+ * Find the batched mesh and element range of a picked triangle of a proxy (pickable ghost meshes)
+ */
+export function getBatchProxyRangeAtFace(proxy: Mesh, faceId: number): { mesh: Mesh; range: IfcBatchRange } | null {
+  const source = proxyRanges.get(proxy);
+  const found = source ? findRangeAtIndex(source.ranges, faceId * 3) : null;
+  return source && found ? { mesh: source.mesh, range: found.range } : null;
+}
+
+/**
+ * Create a standalone mesh with a copy of the ranges of the given elements, placed on top of the batch
+ * Used for per-element effects (highlight overlays, ghosting). Carries no IFC metadata.
+ */
+export function createBatchProxy(mesh: Mesh, expressIDs: number[], name: string): Mesh | null {
+  const state = batchStates.get(mesh);
+  const wanted = new Set(expressIDs);
+  const ranges = getBatchRanges(mesh).filter((range) => wanted.has(range.expressID));
+  if (ranges.length === 0) return null;
+
+  // Unchanged index buffer, even if the elements are hidden right now
+  const sourceIndices = state?.indices ?? mesh.getIndices() ?? [];
+  const sourcePositions = mesh.getVerticesData(VertexBuffer.PositionKind) ?? [];
+  const sourceNormals = mesh.getVerticesData(VertexBuffer.NormalKind) ?? [];
+  // Vertex colours set by colour-by, if any
+  const sourceColors = mesh.getVerticesData(VertexBuffer.ColorKind);
+
+  const vertexTotal = ranges.reduce((sum, range) => sum + range.vertexCount, 0);
+  const indexTotal = ranges.reduce((sum, range) => sum + range.indexCount, 0);
+  const positions = new Float32Array(vertexTotal * 3);
+  const normals = new Float32Array(vertexTotal * 3);
+  const colors = sourceColors ? new Float32Array(vertexTotal * 4) : null;
+  const indices = new Uint32Array(indexTotal);
+  const copiedRanges: ProxyRange[] = [];
+  let vertexOffset = 0;
+  let indexOffset = 0;
+
+  ranges.forEach((range) => {
+    copiedRanges.push({ indexStart: indexOffset, indexCount: range.indexCount, range });
+    const from = range.vertexStart * 3;
+    const to = (range.vertexStart + range.vertexCount) * 3;
+    positions.set(sourcePositions.slice(from, to), vertexOffset * 3);
+    normals.set(sourceNormals.slice(from, to), vertexOffset * 3);
+    if (colors) {
+      const colorEnd = (range.vertexStart + range.vertexCount) * 4;
+      colors.set(sourceColors!.slice(range.vertexStart * 4, colorEnd), vertexOffset * 4);
+    }
+    for (let i = 0; i < range.indexCount; i++) {
+      indices[indexOffset + i] = sourceIndices[range.indexStart + i] - range.vertexStart + vertexOffset;
+    }
+    vertexOffset += range.vertexCount;
+    indexOffset += range.indexCount;
+  });
+
+  // Child of the batch with an identity transform, so it follows the batch
+  const proxy = new Mesh(name, mesh.getScene());
+  proxy.parent = mesh;
+  proxy.material = mesh.material;
+  proxy.isPickable = false;
+
+  const vertexData = new VertexData();
+  vertexData.positions = positions;
+  vertexData.normals = normals;
+  if (colors) vertexData.colors = colors;
+  vertexData.indices = indices;
+  vertexData.applyToMesh(proxy);
+  proxyRanges.set(proxy, { mesh, ranges: copiedRanges });
+  return proxy;
+}
+
+/**
+ * Recreate the meshes drawing the ghosted (and not hidden) elements of a batch, one per alpha and pickability
+ */
+function rebuildGhostMeshes(mesh: Mesh, state: BatchState): void {
+  state.ghostMeshes.forEach((ghost) => ghost.dispose());
+  state.ghostMeshes = [];
+
+  const groups = new Map<string, { alpha: number; pickable: boolean; expressIDs: number[] }>();
+  state.ghosted.forEach((alpha, expressID) => {
+    if (state.hidden.has(expressID)) return;
+    const pickable = state.pickableGhosts.has(expressID);
+    const key = `${alpha}-${pickable}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = { alpha, pickable, expressIDs: [] };
+      groups.set(key, group);
+    }
+    group.expressIDs.push(expressID);
+  });
+
+  groups.forEach(({ alpha, pickable, expressIDs }) => {
+    const ghost = createBatchProxy(mesh, expressIDs, `${mesh.name}-ghost`);
+    if (!ghost) return;
+    ghost.visibility = alpha;
+    ghost.isPickable = pickable;
+    state.ghostMeshes.push(ghost);
+  });
+}
@@ -0,0 +1,678 @@
+import { ArcRotateCamera, Camera, Matrix, Vector3, CreateScreenshotAsync, type TargetCamera } from "@babylonjs/core";
+import { getModelBounds, isIfcModelVisible, type IfcModel } from "./ifcLoader";
+import { getIfcElementMeshes, isIfcElementVisible, setIfcElementsVisible, type IfcElementMesh } from "./ifcElements";
+import type { IfcSectionState, IfcSectionTool } from "./ifcSection";
+import type { IfcElementRef } from "./ifcSelection";
+import { readZip, writeZip } from "./zipArchive";
+
+type Vec3 = [number, number, number];
+
+/** BCF versions that can be written; both can be read */
+export type BcfVersion = "2.1" | "3.0";
+
+/** BCF camera in IFC coordinates (Z up, metres) */
+export interface BcfCamera {
+  kind: "perspective" | "orthogonal";
+  position: Vec3;
+  direction: Vec3;
+  up: Vec3;
+  /** Vertical field of view in degrees (perspective cameras) */
+  fieldOfView?: number;
+  /** Visible vertical extent in metres (orthogonal cameras) */
+  viewToWorldScale?: number;
+  aspectRatio?: number;
+}
+
+/** Viewpoint of a topic: camera, components by IFC GlobalId, clipping planes and snapshot */
+export interface BcfViewpoint {
+  guid: string;
+  camera: BcfCamera | null;
+  /** Selected components */
+  selection: string[];
+  /** Whether components are visible unless listed in visibilityExceptions */
+  defaultVisibility: boolean;
+  visibilityExceptions: string[];
+  /** Planes in IFC coordinates; the direction points to the cut-away side */
+  clippingPlanes: { location: Vec3; direction: Vec3 }[];
+  /** PNG or JPEG snapshot as a data URL */
+  snapshot: string | null;
+}
+
+export interface BcfComment {
+  guid: string;
+  /** ISO 8601 date */
+  date: string;
+  author: string;
+  comment: string;
+  viewpointGuid?: string;
+}
+
+export interface BcfTopic {
+  guid: string;
+  title: string;
+  description: string;
+  topicType: string;
+  topicStatus: string;
+  priority: string;
+  labels: string[];
+  assignedTo: string;
+  /** ISO 8601 date */
+  creationDate: string;
+  creationAuthor: string;
+  comments: BcfComment[];
+  viewpoints: BcfViewpoint[];
+}
+
+/** Topics of a BCF file */
+export interface BcfProject {
+  projectId: string;
+  name: string;
+  topics: BcfTopic[];
+}
+
+/** What viewpoints are captured from and restored onto */
+export interface BcfViewContext {
+  camera: TargetCamera;
+  /** Loaded models; the first one defines the IFC coordinate system */
+  models: IfcModel[];
+  section?: IfcSectionTool | null;
+}
+
+// web-ifc turns IFC's Z-up coordinates into Y-up ones, (x, y, z) → (x, z, -y), before the coordination matrix
+const Z_UP_TO_Y_UP = Matrix.FromArray([1, 0, 0, 0, 0, 0, -1, 0, 0, 1, 0, 0, 0, 0, 0, 1]);
+
+/**
+ * Get the matrix from IFC coordinates of a model (Z up, metres) to scene coordinates
+ */
+export function getIfcToSceneMatrix(model: IfcModel | undefined): Matrix {
+  if (!model) return Z_UP_TO_Y_UP.clone();
+  const coordination = Matrix.FromArray(model.coordinationMatrix);
+  return Z_UP_TO_Y_UP.multiply(coordination).multiply(model.rootNode.computeWorldMatrix(true));
+}
+
+const toVec3 = (vector: Vector3): Vec3 => [vector.x, vector.y, vector.z];
+
+/**
+ * Create an empty BCF project
+ */
+export function createBcfProject(name = ""): BcfProject {
+  return { projectId: crypto.randomUUID(), name, topics: [] };
+}
+
+/**
+ * Add a topic to a project
+ */
+export function createBcfTopic(
+  project: BcfProject,
+  title: string,
+  author: string,
+  fields: Partial<Omit<BcfTopic, "guid" | "title" | "creationDate" | "creationAuthor">> = {},
+): BcfTopic {
+  const topic: BcfTopic = {
+    guid: crypto.randomUUID(),
+    title,
+    description: "",
+    topicType: "Issue",
+    topicStatus: "Open",
+    priority: "",
+    labels: [],
+    assignedTo: "",
+    creationDate: new Date().toISOString(),
+    creationAuthor: author,
+    comments: [],
+    viewpoints: [],
+    ...fields,
+  };
+  project.topics.push(topic);
+  return topic;
+}
+
+/**
+ * Add a comment to a topic, optionally about one of its viewpoints
+ */
+export function addBcfComment(topic: BcfTopic, author: string, comment: string, viewpointGuid?: string): BcfComment {
+  const entry: BcfComment = {
+    guid: crypto.randomUUID(),
+    date: new Date().toISOString(),
+    author,
+    comment,
+    viewpointGuid,
+  };
+  topic.comments.push(entry);
+  return entry;
+}
+
+/**
+ * Capture the camera, the selected and hidden elements, the section and a snapshot as a BCF viewpoint
+ * @param selection Selected expressIDs per modelID
+ */
+export async function captureBcfViewpoint(
+  context: BcfViewContext,
+  selection: Map<number, number[]>,
+  options: { snapshot?: boolean } = {},
+): Promise<BcfViewpoint> {
+  const { camera, models, section } = context;
+  const sceneToIfc = getIfcToSceneMatrix(models[0]).invert();
+  const toIfcPoint = (point: Vector3) => toVec3(Vector3.TransformCoordinates(point, sceneToIfc));
+  const toIfcDirection = (direction: Vector3) => toVec3(Vector3.TransformNormal(direction, sceneToIfc).normalize());
+
+  // Arc rotate cameras update their position and axes when the view matrix is computed
+  camera.getViewMatrix(true);
+  const engine = camera.getEngine();
+  const aspectRatio = engine.getAspectRatio(camera);
+  const orthogonal = camera.mode === Camera.ORTHOGRAPHIC_CAMERA;
+  const bcfCamera: BcfCamera = {
+    kind: orthogonal ? "orthogonal" : "perspective",
+    position: toIfcPoint(camera.globalPosition),
+    direction: toIfcDirection(camera.getDirection(Vector3.Forward())),
+    up: toIfcDirection(camera.getDirection(Vector3.Up())),
+    aspectRatio,
+  };
+  if (orthogonal) {
+    bcfCamera.viewToWorldScale = (camera.orthoTop ?? 1) - (camera.orthoBottom ?? -1);
+  } else {
+    bcfCamera.fieldOfView = (camera.fov * 180) / Math.PI;
+  }
+
+  // Components by GlobalId; visibility lists whichever of hidden and shown elements is shorter
+  const selected: string[] = [];
+  const hidden: string[] = [];
+  const shown: string[] = [];
+  models.forEach((model) => {
+    selection.get(model.modelID)?.forEach((expressID) => {
+      const globalId = model.globalIds.byExpressID.get(expressID);
+      if (globalId) selected.push(globalId);
+    });
+
+    // Elements spanning several meshes are visible if any of their meshes is
+    const visible = new Map<number, boolean>();
+    getIfcElementMeshes(model.meshes).forEach((element) => {
+      const isVisible = isIfcModelVisible(model) && isIfcElementVisible(element);
+      visible.set(element.metadata.expressID, (visible.get(element.metadata.expressID) ?? false) || isVisible);
+    });
+    visible.forEach((isVisible, expressID) => {
+      const globalId = model.globalIds.byExpressID.get(expressID);
+      if (globalId) (isVisible ? shown : hidden).push(globalId);
+    });
+  });
+  const defaultVisibility = hidden.length <= shown.length;
+
+  // A section box becomes its six faces
+  const clippingPlanes: BcfViewpoint["clippingPlanes"] = [];
+  const state = section?.getState();
+  if (state?.box) {
+    const min = Vector3.FromArray(state.box.min);
+    const max = Vector3.FromArray(state.box.max);
+    [Vector3.Right(), Vector3.Up(), Vector3.Forward()].forEach((axis) => {
+      clippingPlanes.push({ location: toIfcPoint(max), direction: toIfcDirection(axis) });
+      clippingPlanes.push({ location: toIfcPoint(min), direction: toIfcDirection(axis.negate()) });
+    });
+  }
+  state?.planes.forEach((plane) =>
+    clippingPlanes.push({
+      location: toIfcPoint(Vector3.FromArray(plane.point)),
+      direction: toIfcDirection(Vector3.FromArray(plane.normal)),
+    }),
+  );
+
+  let snapshot: string | null = null;
+  if (options.snapshot ?? true) {
+    try {
+      // BCF suggests snapshots of at most 1500 pixels
+      const precision = Math.min(1, 1500 / Math.max(engine.getRenderWidth(), engine.getRenderHeight()));
+      snapshot = await CreateScreenshotAsync(engine, camera, { precision }, "image/png");
+    } catch (error) {
+      console.warn("Could not capture a BCF snapshot:", error);
+    }
+  }
+
+  return {
+    guid: crypto.randomUUID(),
+    camera: bcfCamera,
+    selection: selected,
+    defaultVisibility,
+    visibilityExceptions: defaultVisibility ? hidden : shown,
+    clippingPlanes,
+    snapshot,
+  };
+}
+
+/**
+ * Six axis-aligned planes facing away from each other describe a section box
+ */
+function getSectionBox(planes: { point: Vector3; normal: Vector3 }[]): IfcSectionState["box"] {
+  if (planes.length !== 6) return null;
+  const min = new Vector3(Infinity, Infinity, Infinity);
+  const max = new Vector3(-Infinity, -Infinity, -Infinity);
+  const faces = new Set<string>();
+
+  for (const { point, normal } of planes) {
+    const axis = (["x", "y", "z"] as const).find((name) => Math.abs(normal[name]) > 0.999);
+    if (!axis) return null;
+    const positive = normal[axis] > 0;
+    faces.add(`${axis}${positive ? "+" : "-"}`);
+    if (positive) max[axis] = point[axis];
+    else min[axis] = point[axis];
+  }
+  if (faces.size !== 6 || min.x > max.x || min.y > max.y || min.z > max.z) return null;
+  return { min: toVec3(min), max: toVec3(max) };
+}
+
+/**
+ * Restore a BCF viewpoint: camera, element visibility and section
+ * Components are matched by GlobalId in every model.
+ * @returns The selected elements of the viewpoint found in the models
+ */
+export function restoreBcfViewpoint(context: BcfViewContext, viewpoint: BcfViewpoint): IfcElementRef[] {
+  const { camera, models, section } = context;
+  const ifcToScene = getIfcToSceneMatrix(models[0]);
+  const toScenePoint = (point: Vec3) => Vector3.TransformCoordinates(Vector3.FromArray(point), ifcToScene);
+  const toSceneDirection = (direction: Vec3) =>
+    Vector3.TransformNormal(Vector3.FromArray(direction), ifcToScene).normalize();
+
+  if (viewpoint.camera) {
+    const position = toScenePoint(viewpoint.camera.position);
+    const direction = toSceneDirection(viewpoint.camera.direction);
+
+    // BCF has no target; look at the depth of the models' centre, or keep the current distance
+    const bounds = getModelBounds(models.filter((model) => isIfcModelVisible(model)).flatMap((model) => model.meshes));
+    camera.getViewMatrix(true);
+    const currentDistance = Vector3.Distance(camera.globalPosition, camera.getTarget());
+    const depth = bounds ? Vector3.Dot(bounds.center.subtract(position), direction) : 0;
+    const target = position.add(direction.scale(depth > 1e-3 ? depth : currentDistance || 10));
+
+    if (camera instanceof ArcRotateCamera) {
+      // Arc rotate cameras derive their position from target, alpha, beta and radius
+      camera.setTarget(target);
+      camera.setPosition(position);
+    } else {
+      camera.position.copyFrom(position);
+      camera.setTarget(target);
+    }
+
+    if (viewpoint.camera.kind === "orthogonal") {
+      const halfHeight = (viewpoint.camera.viewToWorldScale ?? Vector3.Distance(position, target)) / 2;
+      const aspect = camera.getEngine().getAspectRatio(camera);
+      camera.mode = Camera.ORTHOGRAPHIC_CAMERA;
+      camera.orthoTop = halfHeight;
+      camera.orthoBottom = -halfHeight;
+      camera.orthoLeft = -halfHeight * aspect;
+      camera.orthoRight = halfHeight * aspect;
+    } else {
+      camera.mode = Camera.PERSPECTIVE_CAMERA;
+      if (viewpoint.camera.fieldOfView) camera.fov = (viewpoint.camera.fieldOfView * Math.PI) / 180;
+    }
+  }
+
+  // Visibility and selection by GlobalId
+  const selected = new Set(viewpoint.selection);
+  const exceptions = new Set(viewpoint.visibilityExceptions);
+  const selection: IfcElementRef[] = [];
+  // Components are counted once, whichever models contain them
+  const components = new Set([...selected, ...exceptions]);
+  const found = new Set<string>();
+  models.forEach((model) => {
+    const shown: IfcElementMesh[] = [];
+    const hidden: IfcElementMesh[] = [];
+    getIfcElementMeshes(model.meshes).forEach((element) => {
+      const isException = exceptions.has(element.metadata.globalId);
+      (viewpoint.defaultVisibility !== isException ? shown : hidden).push(element);
+    });
+    setIfcElementsVisible(shown, true);
+    setIfcElementsVisible(hidden, false);
+
+    selected.forEach((globalId) => {
+      const expressID = model.globalIds.byGlobalId.get(globalId);
+      if (expressID !== undefined) selection.push({ modelID: model.modelID, expressID });
+    });
+    components.forEach((globalId) => {
+      if (model.globalIds.byGlobalId.has(globalId)) found.add(globalId);
+    });
+  });
+
+  if (section) {
+    const planes = viewpoint.clippingPlanes.map((plane) => ({
+      point: toScenePoint(plane.location),
+      normal: toSceneDirection(plane.direction),
+    }));
+    const box = getSectionBox(planes);
+    section.setState({
+      box,
+      planes: box ? [] : planes.map((plane) => ({ point: toVec3(plane.point), normal: toVec3(plane.normal) })),
+      capping: section.getState().capping,
+    });
+  }
+
+  console.log(`📌 Restored BCF viewpoint ${viewpoint.guid}: ${found.size} of ${components.size} components found`);
+  return selection;
+}
+
+// --- BCF files ---
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&"']/g, (char) => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", '"': "&quot;", "'": "&apos;" })[char]!);
+
+const xmlElement = (tag: string, text: string | number) => `<${tag}>${escapeXml(String(text))}</${tag}>`;
+
+const xmlVector = (tag: string, [x, y, z]: Vec3) =>
+  `<${tag}>${xmlElement("X", x)}${xmlElement("Y", y)}${xmlElement("Z", z)}</${tag}>`;
+
+const xmlComponents = (tag: string, globalIds: string[]) =>
+  `<${tag}>${globalIds.map((globalId) => `<Component IfcGuid="${escapeXml(globalId)}"/>`).join("")}</${tag}>`;
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8"?>\n';
+
+function writeVersion(version: BcfVersion): string {
+  return version === "2.1"
+    ? `${XML_HEADER}<Version VersionId="2.1">${xmlElement("DetailedVersion", "2.1")}</Version>`
+    : `${XML_HEADER}<Version VersionId="3.0"/>`;
+}
+
+function writeProject(project: BcfProject, version: BcfVersion): string {
+  const inner = `<Project ProjectId="${escapeXml(project.projectId)}">${xmlElement("Name", project.name)}</Project>`;
+  return version === "2.1"
+    ? `${XML_HEADER}<ProjectExtension>${inner}${xmlElement("ExtensionSchema", "")}</ProjectExtension>`
+    : `${XML_HEADER}<ProjectInfo>${inner}</ProjectInfo>`;
+}
+
+function writeVisualizationInfo(viewpoint: BcfViewpoint, version: BcfVersion): string {
+  const parts: string[] = [];
+
+  // Visibility is required in BCF 2.1
+  parts.push(
+    "<Components>" +
+      (viewpoint.selection.length > 0 ? xmlComponents("Selection", viewpoint.selection) : "") +
+      `<Visibility DefaultVisibility="${viewpoint.defaultVisibility}">` +
+      (viewpoint.visibilityExceptions.length > 0 ? xmlComponents("Exceptions", viewpoint.visibilityExceptions) : "") +
+      "</Visibility></Components>",
+  );
+
+  const camera = viewpoint.camera;
+  if (camera) {
+    const tag = camera.kind === "orthogonal" ? "OrthogonalCamera" : "PerspectiveCamera";
+    const projection =
+      camera.kind === "orthogonal"
+        ? xmlElement("ViewToWorldScale", camera.viewToWorldScale ?? 1)
+        : xmlElement("FieldOfView", camera.fieldOfView ?? 60);
+    const aspectRatio = version === "3.0" ? xmlElement("AspectRatio", camera.aspectRatio ?? 1) : "";
+    parts.push(
+      `<${tag}>${xmlVector("CameraViewPoint", camera.position)}${xmlVector("CameraDirection", camera.direction)}` +
+        `${xmlVector("CameraUpVector", camera.up)}${projection}${aspectRatio}</${tag}>`,
+    );
+  }
+
+  if (viewpoint.clippingPlanes.length > 0) {
+    const planes = viewpoint.clippingPlanes.map(
+      (plane) =>
+        `<ClippingPlane>${xmlVector("Location", plane.location)}` +
+        `${xmlVector("Direction", plane.direction)}</ClippingPlane>`,
+    );
+    parts.push(`<ClippingPlanes>${planes.join("")}</ClippingPlanes>`);
+  }
+
+  return `${XML_HEADER}<VisualizationInfo Guid="${escapeXml(viewpoint.guid)}">${parts.join("")}</VisualizationInfo>`;
+}
+
+// File name of a viewpoint snapshot, with the extension of its data URL
+const getSnapshotFileName = (guid: string, snapshot: string) =>
+  `${guid}.${snapshot.startsWith("data:image/jpeg") ? "jpg" : "png"}`;
+
+function writeMarkup(topic: BcfTopic, version: BcfVersion): string {
+  const labels =
+    version === "2.1"
+      ? topic.labels.map((label) => xmlElement("Labels", label)).join("")
+      : topic.labels.length > 0
+        ? `<Labels>${topic.labels.map((label) => xmlElement("Label", label)).join("")}</Labels>`
+        : "";
+
+  const header =
+    `<Topic Guid="${escapeXml(topic.guid)}" TopicType="${escapeXml(topic.topicType)}" ` +
+    `TopicStatus="${escapeXml(topic.topicStatus)}">` +
+    xmlElement("Title", topic.title) +
+    (topic.priority ? xmlElement("Priority", topic.priority) : "") +
+    labels +
+    xmlElement("CreationDate", topic.creationDate) +
+    xmlElement("CreationAuthor", topic.creationAuthor) +
+    (topic.assignedTo ? xmlElement("AssignedTo", topic.assignedTo) : "") +
+    (topic.description ? xmlElement("Description", topic.description) : "");
+
+  const comments = topic.comments.map(
+    (comment) =>
+      `<Comment Guid="${escapeXml(comment.guid)}">${xmlElement("Date", comment.date)}` +
+      `${xmlElement("Author", comment.author)}${xmlElement("Comment", comment.comment)}` +
+      (comment.viewpointGuid ? `<Viewpoint Guid="${escapeXml(comment.viewpointGuid)}"/>` : "") +
+      "</Comment>",
+  );
+
+  const viewpoints = topic.viewpoints.map((viewpoint) => {
+    const snapshot = viewpoint.snapshot ? getSnapshotFileName(viewpoint.guid, viewpoint.snapshot) : null;
+    const files =
+      xmlElement("Viewpoint", `${viewpoint.guid}.bcfv`) + (snapshot ? xmlElement("Snapshot", snapshot) : "");
+    return version === "2.1"
+      ? `<Viewpoints Guid="${escapeXml(viewpoint.guid)}">${files}</Viewpoints>`
+      : `<ViewPoint Guid="${escapeXml(viewpoint.guid)}">${files}</ViewPoint>`;
+  });
+
+  // BCF 2.1 keeps comments and viewpoints next to the topic, BCF 3.0 inside it
+  const body =
+    version === "2.1"
+      ? `${header}</Topic>${comments.join("")}${viewpoints.join("")}`
+      : header +
+        (comments.length > 0 ? `<Comments>${comments.join("")}</Comments>` : "") +
+        (viewpoints.length > 0 ? `<Viewpoints>${viewpoints.join("")}</Viewpoints>` : "") +
+        "</Topic>";
+  return `${XML_HEADER}<Markup>${body}</Markup>`;
+}
+
+// Decode the base64 payload of a data URL
+function dataUrlToBytes(dataUrl: string): Uint8Array {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(",") + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function bytesToDataUrl(bytes: Uint8Array, mimeType: string): string {
+  let binary = "";
+  // Chunks keep the argument list of fromCharCode short
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+}
+
+/**
+ * Write a project as a .bcfzip archive
+ */
+export async function exportBcf(project: BcfProject, version: BcfVersion = "2.1"): Promise<Blob> {
+  const files = new Map<string, Uint8Array | string>();
+  files.set("bcf.version", writeVersion(version));
+  files.set("project.bcfp", writeProject(project, version));
+
+  project.topics.forEach((topic) => {
+    files.set(`${topic.guid}/markup.bcf`, writeMarkup(topic, version));
+    topic.viewpoints.forEach((viewpoint) => {
+      files.set(`${topic.guid}/${viewpoint.guid}.bcfv`, writeVisualizationInfo(viewpoint, version));
+      if (viewpoint.snapshot) {
+        const fileName = getSnapshotFileName(viewpoint.guid, viewpoint.snapshot);
+        files.set(`${topic.guid}/${fileName}`, dataUrlToBytes(viewpoint.snapshot));
+      }
+    });
+  });
+
+  const blob = await writeZip(files);
+  console.log(`📌 Exported ${project.topics.length} BCF ${version} topics (${(blob.size / 1024).toFixed(1)} KB)`);
+  return blob;
+}
+
+// Child elements by local name (BCF files may use namespaces)
+const getChildren = (parent: Element | null, tag: string) =>
+  parent ? Array.from(parent.children).filter((child) => child.localName === tag) : [];
+
+const getChild = (parent: Element | null, ...path: string[]) =>
+  path.reduce<Element | null>((element, tag) => getChildren(element, tag)[0] ?? null, parent);
+
+const getChildText = (parent: Element | null, tag: string) => getChild(parent, tag)?.textContent?.trim() ?? "";
+
+function readVector(element: Element | null): Vec3 | null {
+  if (!element) return null;
+  const vector = ["X", "Y", "Z"].map((axis) => Number(getChildText(element, axis))) as Vec3;
+  return vector.every((value) => Number.isFinite(value)) ? vector : null;
+}
+
+const readComponents = (parent: Element | null) =>
+  getChildren(parent, "Component")
+    .map((component) => component.getAttribute("IfcGuid") ?? "")
+    .filter((globalId) => globalId !== "");
+
+function parseXml(text: string, fileName: string): Element {
+  const document = new DOMParser().parseFromString(text, "application/xml");
+  if (document.getElementsByTagName("parsererror").length > 0) {
+    throw new Error(`Invalid XML in ${fileName}`);
+  }
+  return document.documentElement;
+}
+
+function readVisualizationInfo(text: string, fileName: string, guid: string): BcfViewpoint {
+  const root = parseXml(text, fileName);
+  const components = getChild(root, "Components");
+  // Without visibility information everything is shown
+  const visibility = getChild(components, "Visibility");
+
+  let camera: BcfCamera | null = null;
+  for (const kind of ["perspective", "orthogonal"] as const) {
+    const element = getChild(root, kind === "perspective" ? "PerspectiveCamera" : "OrthogonalCamera");
+    const position = readVector(getChild(element, "CameraViewPoint"));
+    const direction = readVector(getChild(element, "CameraDirection"));
+    if (!element || !position || !direction) continue;
+
+    const readNumber = (tag: string) => {
+      const value = parseFloat(getChildText(element, tag));
+      return Number.isFinite(value) ? value : undefined;
+    };
+    camera = {
+      kind,
+      position,
+      direction,
+      up: readVector(getChild(element, "CameraUpVector")) ?? [0, 0, 1],
+      fieldOfView: readNumber("FieldOfView"),
+      viewToWorldScale: readNumber("ViewToWorldScale"),
+      aspectRatio: readNumber("AspectRatio"),
+    };
+    break;
+  }
+
+  const clippingPlanes = getChildren(getChild(root, "ClippingPlanes"), "ClippingPlane").flatMap((plane) => {
+    const location = readVector(getChild(plane, "Location"));
+    const direction = readVector(getChild(plane, "Direction"));
+    return location && direction ? [{ location, direction }] : [];
+  });
+
+  return {
+    guid: root.getAttribute("Guid") || guid,
+    camera,
+    selection: readComponents(getChild(components, "Selection")),
+    defaultVisibility: visibility ? visibility.getAttribute("DefaultVisibility") === "true" : true,
+    visibilityExceptions: readComponents(getChild(visibility, "Exceptions")),
+    clippingPlanes,
+    snapshot: null,
+  };
+}
+
+/**
+ * Read the topics, comments and viewpoints of a .bcfzip archive (BCF 2.0, 2.1 or 3.0)
+ */
+export async function importBcf(data: ArrayBuffer | Blob): Promise<BcfProject> {
+  const files = await readZip(data instanceof Blob ? await data.arrayBuffer() : data);
+  const textDecoder = new TextDecoder();
+  const readText = (path: string) => {
+    const bytes = files.get(path);
+    return bytes ? textDecoder.decode(bytes) : null;
+  };
+
+  const version = readText("bcf.version");
+  const versionId = version ? parseXml(version, "bcf.version").getAttribute("VersionId") : null;
+
+  const project = createBcfProject();
+  const projectText = readText("project.bcfp");
+  if (projectText) {
+    const projectElement = getChild(parseXml(projectText, "project.bcfp"), "Project");
+    project.projectId = projectElement?.getAttribute("ProjectId") || project.projectId;
+    project.name = getChildText(projectElement, "Name");
+  }
+
+  for (const path of Array.from(files.keys()).filter((name) => name.endsWith("/markup.bcf"))) {
+    const folder = path.slice(0, -"markup.bcf".length);
+    const markup = parseXml(readText(path)!, path);
+    const topicElement = getChild(markup, "Topic");
+    if (!topicElement) continue;
+
+    // BCF 2.1 repeats <Labels>, BCF 3.0 nests <Label> elements
+    const labels = getChildren(topicElement, "Labels").flatMap((element) => {
+      const nested = getChildren(element, "Label");
+      return (nested.length > 0 ? nested : [element]).map((label) => label.textContent?.trim() ?? "");
+    });
+
+    const topic: BcfTopic = {
+      guid: topicElement.getAttribute("Guid") || folder.replace(/\/$/, ""),
+      title: getChildText(topicElement, "Title"),
+      description: getChildText(topicElement, "Description"),
+      topicType: topicElement.getAttribute("TopicType") ?? "",
+      topicStatus: topicElement.getAttribute("TopicStatus") ?? "",
+      priority: getChildText(topicElement, "Priority"),
+      labels: labels.filter((label) => label !== ""),
+      assignedTo: getChildText(topicElement, "AssignedTo"),
+      creationDate: getChildText(topicElement, "CreationDate"),
+      creationAuthor: getChildText(topicElement, "CreationAuthor"),
+      comments: [],
+      viewpoints: [],
+    };
+
+    // Comments sit next to the topic in BCF 2.1 and inside <Comments> in BCF 3.0
+    const commentElements = [
+      ...getChildren(markup, "Comment"),
+      ...getChildren(getChild(topicElement, "Comments"), "Comment"),
+    ];
+    topic.comments = commentElements.map((element) => ({
+      guid: element.getAttribute("Guid") ?? crypto.randomUUID(),
+      date: getChildText(element, "Date"),
+      author: getChildText(element, "Author"),
+      comment: getChildText(element, "Comment"),
+      viewpointGuid: getChild(element, "Viewpoint")?.getAttribute("Guid") || undefined,
+    }));
+
+    // Viewpoint references: <Viewpoints> in BCF 2.1, <Viewpoints><ViewPoint> in BCF 3.0
+    const viewpointElements = [
+      ...getChildren(markup, "Viewpoints"),
+      ...getChildren(getChild(topicElement, "Viewpoints"), "ViewPoint"),
+    ];
+    const references = viewpointElements.map((element) => ({
+      guid: element.getAttribute("Guid") ?? crypto.randomUUID(),
+      file: getChildText(element, "Viewpoint"),
+      snapshot: getChildText(element, "Snapshot"),
+    }));
+    // Older files only have the default viewpoint and snapshot
+    if (references.length === 0 && files.has(`${folder}viewpoint.bcfv`)) {
+      references.push({ guid: crypto.randomUUID(), file: "viewpoint.bcfv", snapshot: "snapshot.png" });
+    }
+
+    references.forEach((reference) => {
+      const text = reference.file ? readText(`${folder}${reference.file}`) : null;
+      if (!text) return;
+      const viewpoint = readVisualizationInfo(text, `${folder}${reference.file}`, reference.guid);
+      viewpoint.guid = reference.guid;
+
+      const snapshot = reference.snapshot ? files.get(`${folder}${reference.snapshot}`) : undefined;
+      if (snapshot) {
+        const mimeType = /\.jpe?g$/i.test(reference.snapshot) ? "image/jpeg" : "image/png";
+        viewpoint.snapshot = bytesToDataUrl(snapshot, mimeType);
+      }
+      topic.viewpoints.push(viewpoint);
+    });
+
+    project.topics.push(topic);
+  }
+
+  console.log(`📌 Imported ${project.topics.length} BCF ${versionId ?? "(unknown version)"} topics`);
+  return project;
+}
@@ -0,0 +1,336 @@
+import type { IfcGeometryFailure, IfcGeometryPart } from "./ifcGeometry";
+
+/**
+ * Processed geometry of one IFC file, packed into a few large buffers for IndexedDB
+ * Parts are stored before placement, so instancing, merging and batching still apply on load.
+ */
+export interface IfcCachedGeometry {
+  /** Cache format; entries written by another format version are ignored */
+  format: number;
+  positions: Float32Array;
+  normals: Float32Array;
+  indices: Uint32Array;
+  /** Per part: expressID, geometryExpressID, partIndex, vertex count, index count */
+  partTable: Int32Array;
+  /** Per part RGBA; NaN when the part has no colour */
+  colors: Float32Array;
+  /** Per part placement matrix (column-major 4x4); NaN when the part has none */
+  transforms: Float64Array;
+  /** Elements with geometry: IFC type, storey (-1 if none) and GlobalId */
+  elements: { expressIDs: Int32Array; ifcTypes: Int32Array; storeyIDs: Int32Array; globalIds: string[] };
+  /** Matrix web-ifc applied to the geometry (column-major 4x4) */
+  coordinationMatrix: number[];
+  /** Geometries that failed to tessellate and loader warnings, for the load report */
+  failures: IfcGeometryFailure[];
+  warnings: string[];
+}
+
+/** Per-element data kept next to the geometry */
+export interface IfcCachedElement {
+  ifcType: number;
+  globalId: string;
+  storeyID?: number;
+}
+
+/** Bookkeeping of one cache entry */
+export interface IfcCacheEntryInfo {
+  key: string;
+  /** File name or URL of the first load */
+  name: string;
+  sizeBytes: number;
+  /** Time of the last load from or into the cache (ms since epoch) */
+  lastUsed: number;
+}
+
+export interface IfcGeometryCacheOptions {
+  /** IndexedDB database name (default "ifc-geometry-cache") */
+  dbName?: string;
+  /** Total size of all entries before the least recently used ones are evicted (default 512 MB) */
+  maxSizeMB?: number;
+  /** Number of entries before the least recently used ones are evicted (default 20) */
+  maxEntries?: number;
+}
+
+/**
+ * Geometry cache in IndexedDB, keyed by a hash of the file bytes and the loader settings
+ * Pass it as the `cache` loader option; files loaded before are rebuilt without streaming geometry.
+ */
+export interface IfcGeometryCache {
+  get(key: string): Promise<IfcCachedGeometry | null>;
+  /** Store an entry, then evict least recently used entries over the limits */
+  put(key: string, name: string, geometry: IfcCachedGeometry): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** Remove every entry */
+  clear(): Promise<void>;
+  /** Entries, most recently used first */
+  list(): Promise<IfcCacheEntryInfo[]>;
+}
+
+// Bump when the packed layout or the geometry extraction changes
+const CACHE_FORMAT = 2;
+const PART_FIELDS = 5;
+
+const GEOMETRY_STORE = "geometry";
+const ENTRY_STORE = "entries";
+
+/**
+ * Get the cache key of an IFC file: SHA-256 of its bytes plus the settings that change the geometry
+ * @param engineVersion web-ifc version; tessellation may change between versions
+ */
+export async function getIfcCacheKey(
+  data: ArrayBuffer,
+  coordinateToOrigin: boolean,
+  engineVersion = "",
+): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+  const hash = Array.from(digest, (byte) => byte.toString(16).padStart(2, "0")).join("");
+  return `${hash}-${engineVersion}-${coordinateToOrigin ? "origin" : "file"}`;
+}
+
+/**
+ * Pack streamed geometry parts and element data for the cache
+ * The parts must be unchanged copies: mesh building bakes placements into the streamed arrays.
+ */
+export function packIfcGeometry(
+  parts: IfcGeometryPart[],
+  elements: Map<number, IfcCachedElement>,
+  model: Pick<IfcCachedGeometry, "coordinationMatrix" | "failures" | "warnings">,
+): IfcCachedGeometry {
+  let vertexFloats = 0;
+  let indexCount = 0;
+  parts.forEach((part) => {
+    vertexFloats += part.positions.length;
+    indexCount += part.indices.length;
+  });
+
+  const positions = new Float32Array(vertexFloats);
+  const normals = new Float32Array(vertexFloats);
+  const indices = new Uint32Array(indexCount);
+  const partTable = new Int32Array(parts.length * PART_FIELDS);
+  const colors = new Float32Array(parts.length * 4).fill(NaN);
+  const transforms = new Float64Array(parts.length * 16).fill(NaN);
+
+  let vertexOffset = 0;
+  let indexOffset = 0;
+  parts.forEach((part, i) => {
+    positions.set(part.positions, vertexOffset);
+    normals.set(part.normals, vertexOffset);
+    indices.set(part.indices, indexOffset);
+    vertexOffset += part.positions.length;
+    indexOffset += part.indices.length;
+
+    partTable.set(
+      [part.expressID, part.geometryExpressID, part.partIndex, part.positions.length / 3, part.indices.length],
+      i * PART_FIELDS,
+    );
+    if (part.color) colors.set([part.color.x, part.color.y, part.color.z, part.color.w], i * 4);
+    if (part.transform) transforms.set(part.transform, i * 16);
+  });
+
+  const expressIDs = Array.from(elements.keys());
+  return {
+    format: CACHE_FORMAT,
+    positions,
+    normals,
+    indices,
+    partTable,
+    colors,
+    transforms,
+    elements: {
+      expressIDs: Int32Array.from(expressIDs),
+      ifcTypes: Int32Array.from(expressIDs, (expressID) => elements.get(expressID)!.ifcType),
+      storeyIDs: Int32Array.from(expressIDs, (expressID) => elements.get(expressID)!.storeyID ?? -1),
+      globalIds: expressIDs.map((expressID) => elements.get(expressID)!.globalId),
+    },
+    ...model,
+  };
+}
+
+/**
+ * Split cached geometry back into parts; the parts view the cached buffers without copying
+ */
+export function unpackIfcGeometryParts(geometry: IfcCachedGeometry): IfcGeometryPart[] {
+  const parts: IfcGeometryPart[] = [];
+  let vertexOffset = 0;
+  let indexOffset = 0;
+
+  for (let i = 0; i < geometry.partTable.length / PART_FIELDS; i++) {
+    const [expressID, geometryExpressID, partIndex, vertexCount, indexCount] = geometry.partTable.subarray(
+      i * PART_FIELDS,
+      (i + 1) * PART_FIELDS,
+    );
+    const color = geometry.colors.subarray(i * 4, i * 4 + 4);
+    const transform = geometry.transforms.subarray(i * 16, i * 16 + 16);
+
+    parts.push({
+      expressID,
+      geometryExpressID,
+      partIndex,
+      color: Number.isNaN(color[0]) ? null : { x: color[0], y: color[1], z: color[2], w: color[3] },
+      positions: geometry.positions.subarray(vertexOffset, vertexOffset + vertexCount * 3),
+      normals: geometry.normals.subarray(vertexOffset, vertexOffset + vertexCount * 3),
+      indices: geometry.indices.subarray(indexOffset, indexOffset + indexCount),
+      transform: Number.isNaN(transform[0]) ? null : Array.from(transform),
+    });
+    vertexOffset += vertexCount * 3;
+    indexOffset += indexCount;
+  }
+  return parts;
+}
+
+/**
+ * Read the element data of cached geometry, by expressID
+ */
+export function unpackIfcCachedElements(geometry: IfcCachedGeometry): Map<number, IfcCachedElement> {
+  const { expressIDs, ifcTypes, storeyIDs, globalIds } = geometry.elements;
+  const elements = new Map<number, IfcCachedElement>();
+  expressIDs.forEach((expressID, i) => {
+    elements.set(expressID, {
+      ifcType: ifcTypes[i],
+      globalId: globalIds[i],
+      storeyID: storeyIDs[i] === -1 ? undefined : storeyIDs[i],
+    });
+  });
+  return elements;
+}
+
+// Approximate stored size of an entry
+function getGeometrySize(geometry: IfcCachedGeometry): number {
+  const { positions, normals, indices, partTable, colors, transforms, elements } = geometry;
+  const buffers = [positions, normals, indices, partTable, colors, transforms, elements.expressIDs, elements.ifcTypes];
+  return (
+    buffers.reduce((sum, buffer) => sum + buffer.byteLength, elements.storeyIDs.byteLength) +
+    elements.globalIds.reduce((sum, globalId) => sum + globalId.length * 2, 0)
+  );
+}
+
+// Promise for the result of an IndexedDB request
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Promise for the completion of an IndexedDB transaction
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error("IndexedDB transaction aborted"));
+  });
+}
+
+/**
+ * Create a geometry cache in IndexedDB; the database is opened on first use
+ */
+export function createIfcGeometryCache(options: IfcGeometryCacheOptions = {}): IfcGeometryCache {
+  const dbName = options.dbName ?? "ifc-geometry-cache";
+  const maxBytes = (options.maxSizeMB ?? 512) * 1024 * 1024;
+  const maxEntries = options.maxEntries ?? 20;
+  let database: Promise<IDBDatabase> | null = null;
+
+  // Geometry and bookkeeping live in separate stores so eviction does not read geometry
+  const open = () => {
+    database ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(dbName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(GEOMETRY_STORE);
+        request.result.createObjectStore(ENTRY_STORE, { keyPath: "key" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        database = null;
+        reject(request.error);
+      };
+    });
+    return database;
+  };
+
+  const list = async (): Promise<IfcCacheEntryInfo[]> => {
+    const db = await open();
+    const entries = await requestResult<IfcCacheEntryInfo[]>(
+      db.transaction(ENTRY_STORE, "readonly").objectStore(ENTRY_STORE).getAll(),
+    );
+    return entries.sort((a, b) => b.lastUsed - a.lastUsed);
+  };
+
+  const deleteEntries = async (keys: string[]) => {
+    if (keys.length === 0) return;
+    const db = await open();
+    const transaction = db.transaction([GEOMETRY_STORE, ENTRY_STORE], "readwrite");
+    keys.forEach((key) => {
+      transaction.objectStore(GEOMETRY_STORE).delete(key);
+      transaction.objectStore(ENTRY_STORE).delete(key);
+    });
+    await transactionDone(transaction);
+  };
+
+  // Drop least recently used entries until the cache fits its limits
+  const evict = async () => {
+    const entries = await list();
+    let totalBytes = entries.reduce((sum, entry) => sum + entry.sizeBytes, 0);
+    const evicted: IfcCacheEntryInfo[] = [];
+    while (entries.length > 0 && (totalBytes > maxBytes || entries.length > maxEntries)) {
+      const entry = entries.pop()!;
+      totalBytes -= entry.sizeBytes;
+      evicted.push(entry);
+    }
+    await deleteEntries(evicted.map((entry) => entry.key));
+    evicted.forEach((entry) => console.log(`🗄 Evicted ${entry.name} from the geometry cache`));
+  };
+
+  return {
+    async get(key) {
+      const db = await open();
+      const transaction = db.transaction([GEOMETRY_STORE, ENTRY_STORE], "readwrite");
+      const geometryRequest = transaction.objectStore(GEOMETRY_STORE).get(key);
+      const entryRequest = transaction.objectStore(ENTRY_STORE).get(key);
+      // Mark the entry as used within the same transaction
+      entryRequest.onsuccess = () => {
+        const entry: IfcCacheEntryInfo | undefined = entryRequest.result;
+        if (entry) transaction.objectStore(ENTRY_STORE).put({ ...entry, lastUsed: Date.now() });
+      };
+      await transactionDone(transaction);
+
+      const geometry: IfcCachedGeometry | undefined = geometryRequest.result;
+      if (!geometry || !entryRequest.result) return null;
+      if (geometry.format !== CACHE_FORMAT) {
+        await deleteEntries([key]);
+        return null;
+      }
+      return geometry;
+    },
+
+    async put(key, name, geometry) {
+      const sizeBytes = getGeometrySize(geometry);
+      if (sizeBytes > maxBytes) {
+        console.warn(`⚠ ${name} is too large for the geometry cache (${(sizeBytes / 1024 / 1024).toFixed(1)} MB)`);
+        return;
+      }
+
+      const db = await open();
+      const transaction = db.transaction([GEOMETRY_STORE, ENTRY_STORE], "readwrite");
+      transaction.objectStore(GEOMETRY_STORE).put(geometry, key);
+      const entry: IfcCacheEntryInfo = { key, name, sizeBytes, lastUsed: Date.now() };
+      transaction.objectStore(ENTRY_STORE).put(entry);
+      await transactionDone(transaction);
+      console.log(`🗄 Cached geometry of ${name} (${(sizeBytes / 1024 / 1024).toFixed(1)} MB)`);
+
+      await evict();
+    },
+
+    delete: (key) => deleteEntries([key]),
+
+    async clear() {
+      const db = await open();
+      const transaction = db.transaction([GEOMETRY_STORE, ENTRY_STORE], "readwrite");
+      transaction.objectStore(GEOMETRY_STORE).clear();
+      transaction.objectStore(ENTRY_STORE).clear();
+      await transactionDone(transaction);
+      console.log("🗄 Cleared the geometry cache");
+    },
+
+    list,
+  };
+}
@@ -0,0 +1,397 @@
+import type * as WebIFC from "web-ifc";
+import {
+  Color3,
+  Color4,
+  InstancedMesh,
+  Mesh,
+  PBRMaterial,
+  StandardMaterial,
+  VertexBuffer,
+  type AbstractMesh,
+  type Material,
+} from "@babylonjs/core";
+import type { IfcModel, IfcMeshMetadata } from "./ifcLoader";
+import { getIfcElementMeshes, type IfcElementMesh } from "./ifcElements";
+import { isIfcBatchMesh, getBatchRanges } from "./ifcBatching";
+import { getElementProperties, getElementMaterials } from "./ifcMetadata";
+
+/** What elements are coloured by */
+export type IfcColorByKey =
+  | { kind: "type" }
+  | { kind: "storey" }
+  | { kind: "material" }
+  | { kind: "property"; set?: string; name: string }
+  | { kind: "quantity"; set?: string; name: string };
+
+/** Legend of the active colouring */
+export type IfcColorLegend =
+  | { kind: "categorical"; title: string; entries: { label: string; color: Color3; count: number }[] }
+  | {
+      kind: "gradient";
+      title: string;
+      min: number;
+      max: number;
+      /** Evenly spaced colours from min to max */
+      stops: Color3[];
+      count: number;
+      missingCount: number;
+    };
+
+export interface IfcColorByOptions {
+  /** "auto" uses a gradient when every value is a number */
+  scale?: "auto" | "categorical" | "gradient";
+}
+
+/** Element colours per modelID and expressID */
+export type IfcElementColors = Map<number, Map<number, Color3>>;
+
+/**
+ * Recolours elements by a property, with a legend; reset() restores the IFC colours
+ * Plain and merged meshes get a recoloured copy of their material, instances an instance colour
+ * and batched meshes vertex colours.
+ */
+export interface IfcColorBy {
+  /** Colour every element of the models by a key and return the legend */
+  apply(key: IfcColorByKey, options?: IfcColorByOptions): Promise<IfcColorLegend>;
+  /** Colour the given elements; other elements keep their IFC colour */
+  colorElements(colors: IfcElementColors, legend: IfcColorLegend | null): void;
+  /** Restore the IFC colours */
+  reset(): void;
+  getLegend(): IfcColorLegend | null;
+  dispose(): void;
+}
+
+/** Colour of elements without a value */
+export const COLOR_BY_MISSING = new Color3(0.55, 0.55, 0.55);
+
+// Categorical palette; further categories get generated hues
+const CATEGORY_COLORS = [
+  "#4e79a7",
+  "#f28e2b",
+  "#e15759",
+  "#76b7b2",
+  "#59a14f",
+  "#edc948",
+  "#b07aa1",
+  "#ff9da7",
+  "#9c755f",
+  "#8cd17d",
+  "#86bcb6",
+  "#d4a6c8",
+].map((hex) => Color3.FromHexString(hex));
+
+// Gradient from low (blue) to high (red)
+const GRADIENT_STOPS = ["#2c7bb6", "#abd9e9", "#ffffbf", "#fdae61", "#d7191c"].map((hex) => Color3.FromHexString(hex));
+
+/**
+ * Get the colour of the n-th category
+ */
+export function getCategoryColor(index: number): Color3 {
+  if (index < CATEGORY_COLORS.length) return CATEGORY_COLORS[index].clone();
+  // Golden-angle hues keep generated colours apart
+  const color = new Color3();
+  Color3.HSVtoRGBToRef((index * 137.508) % 360, 0.55, 0.85, color);
+  return color;
+}
+
+/**
+ * Get the gradient colour of a value between 0 and 1
+ */
+export function getGradientColor(t: number): Color3 {
+  const scaled = Math.min(Math.max(t, 0), 1) * (GRADIENT_STOPS.length - 1);
+  const index = Math.min(Math.floor(scaled), GRADIENT_STOPS.length - 2);
+  return Color3.Lerp(GRADIENT_STOPS[index], GRADIENT_STOPS[index + 1], scaled - index);
+}
+
+/**
+ * Get the base colour of an IFC material (white for other materials)
+ */
+function getMaterialColor(material: Material | null): Color3 {
+  if (material instanceof StandardMaterial) return material.diffuseColor;
+  if (material instanceof PBRMaterial) return material.albedoColor;
+  return Color3.White();
+}
+
+// Title of a colour-by key for the legend
+function getKeyTitle(key: IfcColorByKey): string {
+  switch (key.kind) {
+    case "type":
+      return "IFC type";
+    case "storey":
+      return "Storey";
+    case "material":
+      return "Material";
+    case "property":
+    case "quantity":
+      return key.set ? `${key.set}.${key.name}` : key.name;
+  }
+}
+
+/**
+ * Read the value of a key for every element of a model (one entry per expressID)
+ */
+async function getElementValues(
+  ifcAPI: WebIFC.IfcAPI,
+  model: IfcModel,
+  key: IfcColorByKey,
+  elements: IfcElementMesh[],
+): Promise<Map<number, string | number | null>> {
+  const values = new Map<number, string | number | null>();
+  const storeyNames = new Map<number, string>();
+  const matches = (name: string | undefined, wanted: string) => (name ?? "").toLowerCase() === wanted.toLowerCase();
+
+  for (const { metadata } of elements) {
+    if (values.has(metadata.expressID)) continue;
+    let value: string | number | null = null;
+
+    try {
+      switch (key.kind) {
+        case "type":
+          value = metadata.ifcTypeName;
+          break;
+
+        case "storey":
+          if (metadata.storeyID !== undefined) {
+            if (!storeyNames.has(metadata.storeyID)) {
+              const storey = ifcAPI.GetLine(model.modelID, metadata.storeyID);
+              storeyNames.set(
+                metadata.storeyID,
+                storey?.Name?.value || storey?.LongName?.value || `#${metadata.storeyID}`,
+              );
+            }
+            value = storeyNames.get(metadata.storeyID)!;
+          }
+          break;
+
+        case "material": {
+          const materials = await getElementMaterials(ifcAPI, model.modelID, metadata.expressID);
+          const material = materials.find((item) => item.source === "instance") ?? materials[0];
+          if (material) {
+            value = material.name || material.layers.map((layer) => layer.material).join(" / ") || null;
+          }
+          break;
+        }
+
+        case "property":
+        case "quantity": {
+          const properties = await getElementProperties(ifcAPI, model.modelID, metadata.expressID);
+          const raw =
+            key.kind === "property"
+              ? properties.propertySets
+                  .filter((set) => key.set === undefined || matches(set.name, key.set))
+                  .flatMap((set) => set.properties)
+                  .find((property) => matches(property.name, key.name))?.value
+              : properties.quantitySets
+                  .filter((set) => key.set === undefined || matches(set.name, key.set))
+                  .flatMap((set) => set.quantities)
+                  .find((quantity) => matches(quantity.name, key.name))?.value;
+          if (raw !== undefined && raw !== null) {
+            value = typeof raw === "number" ? raw : Array.isArray(raw) ? raw.join(", ") : String(raw);
+          }
+          break;
+        }
+      }
+    } catch (error) {
+      console.warn(`Could not read ${getKeyTitle(key)} of element ${metadata.expressID}:`, error);
+    }
+
+    values.set(metadata.expressID, value);
+  }
+  return values;
+}
+
+/**
+ * Create the colour-by tool over the models returned by getModels
+ */
+export function createColorBy(ifcAPI: WebIFC.IfcAPI, getModels: () => IfcModel[]): IfcColorBy {
+  let legend: IfcColorLegend | null = null;
+
+  // Original materials, restored by reset()
+  const plainMeshes = new Map<AbstractMesh, Material | null>();
+  const batchMeshes = new Map<Mesh, Material | null>();
+  const instanceSources = new Map<Mesh, Material | null>();
+  // Recoloured material copies by original material and colour
+  const themedMaterials = new Map<string, Material>();
+
+  // Copy of a material with another base colour; keeps alpha, z-offset and culling
+  const getThemedMaterial = (material: Material | null, color: Color3): Material | null => {
+    if (!material) return null;
+    const key = `${material.uniqueId}:${color.toHexString()}`;
+    let themed = themedMaterials.get(key);
+    if (!themed) {
+      themed = material.clone(`${material.name}-colorby-${color.toHexString()}`) ?? material;
+      if (themed instanceof StandardMaterial) themed.diffuseColor = color.clone();
+      if (themed instanceof PBRMaterial) themed.albedoColor = color.clone();
+      themedMaterials.set(key, themed);
+    }
+    return themed;
+  };
+
+  const reset = () => {
+    plainMeshes.forEach((material, mesh) => (mesh.material = material));
+
+    batchMeshes.forEach((material, mesh) => {
+      mesh.material = material;
+      mesh.removeVerticesData(VertexBuffer.ColorKind);
+    });
+
+    // The instance colour buffer cannot be removed; white leaves the IFC colour unchanged
+    const white = new Color4(1, 1, 1, 1);
+    instanceSources.forEach((material, source) => {
+      source.material = material;
+      source.instancedBuffers[VertexBuffer.ColorKind] = white;
+      source.instances.forEach((instance) => (instance.instancedBuffers[VertexBuffer.ColorKind] = white));
+    });
+
+    themedMaterials.forEach((material) => material.dispose());
+    plainMeshes.clear();
+    batchMeshes.clear();
+    instanceSources.clear();
+    themedMaterials.clear();
+    legend = null;
+  };
+
+  const colorElements = (colors: IfcElementColors, newLegend: IfcColorLegend | null) => {
+    reset();
+    const getColor = ({ modelID, expressID }: IfcMeshMetadata) => colors.get(modelID)?.get(expressID) ?? null;
+
+    getModels().forEach((model) => {
+      const sources = new Set<Mesh>();
+
+      model.meshes.forEach((mesh) => {
+        if (isIfcBatchMesh(mesh)) {
+          // Vertex colours per range on a white copy of the batch material
+          const ranges = getBatchRanges(mesh);
+          if (!ranges.some((range) => getColor(range))) return;
+
+          const original = getMaterialColor(mesh.material);
+          const vertexColors = new Float32Array(mesh.getTotalVertices() * 4);
+          ranges.forEach((range) => {
+            const color = getColor(range) ?? original;
+            for (let i = range.vertexStart; i < range.vertexStart + range.vertexCount; i++) {
+              vertexColors.set([color.r, color.g, color.b, 1], i * 4);
+            }
+          });
+          batchMeshes.set(mesh, mesh.material);
+          mesh.setVerticesData(VertexBuffer.ColorKind, vertexColors, false, 4);
+          mesh.material = getThemedMaterial(mesh.material, Color3.White());
+          return;
+        }
+
+        const metadata = mesh.metadata as IfcMeshMetadata | null;
+        if (!metadata || metadata.expressID === undefined) return;
+
+        if (mesh instanceof InstancedMesh) {
+          if (getColor(metadata)) sources.add(mesh.sourceMesh);
+        } else if (mesh instanceof Mesh && mesh.instances.length > 0) {
+          if (getColor(metadata)) sources.add(mesh);
+        } else {
+          const color = getColor(metadata);
+          if (!color) return;
+          plainMeshes.set(mesh, mesh.material);
+          mesh.material = getThemedMaterial(mesh.material, color);
+        }
+      });
+
+      // Instance colours on a white copy of the shared material; uncoloured instances keep their IFC colour
+      sources.forEach((source) => {
+        const original = getMaterialColor(source.material);
+        const toColor4 = (mesh: AbstractMesh) => {
+          const color = getColor(mesh.metadata as IfcMeshMetadata) ?? original;
+          return new Color4(color.r, color.g, color.b, 1);
+        };
+
+        if (source.instancedBuffers?.[VertexBuffer.ColorKind] === undefined) {
+          source.registerInstancedBuffer(VertexBuffer.ColorKind, 4);
+        }
+        instanceSources.set(source, source.material);
+        source.instancedBuffers[VertexBuffer.ColorKind] = toColor4(source);
+        source.instances.forEach((instance) => {
+          instance.instancedBuffers[VertexBuffer.ColorKind] = toColor4(instance);
+        });
+        source.material = getThemedMaterial(source.material, Color3.White());
+      });
+    });
+
+    legend = newLegend;
+  };
+
+  return {
+    async apply(key, options = {}) {
+      const startTime = performance.now();
+      const models = getModels();
+      const valuesPerModel = new Map<number, Map<number, string | number | null>>();
+      for (const model of models) {
+        const elements = getIfcElementMeshes(model.meshes);
+        valuesPerModel.set(model.modelID, await getElementValues(ifcAPI, model, key, elements));
+      }
+
+      const allValues = Array.from(valuesPerModel.values()).flatMap((values) => Array.from(values.values()));
+      const present = allValues.filter((value) => value !== null) as (string | number)[];
+      const missingCount = allValues.length - present.length;
+      const numbers = present.map((value) => (typeof value === "number" ? value : Number(value)));
+      const isNumeric = present.length > 0 && key.kind !== "type" && numbers.every((value) => Number.isFinite(value));
+      const useGradient = options.scale === "gradient" || (options.scale !== "categorical" && isNumeric);
+
+      const colors: IfcElementColors = new Map();
+      let newLegend: IfcColorLegend;
+
+      if (useGradient) {
+        const finite = numbers.filter((value) => Number.isFinite(value));
+        const min = finite.length > 0 ? finite.reduce((a, b) => Math.min(a, b)) : 0;
+        const max = finite.length > 0 ? finite.reduce((a, b) => Math.max(a, b)) : 0;
+        valuesPerModel.forEach((values, modelID) => {
+          const modelColors = new Map<number, Color3>();
+          values.forEach((value, expressID) => {
+            const number = value === null ? NaN : Number(value);
+            const t = max > min ? (number - min) / (max - min) : 0.5;
+            modelColors.set(expressID, Number.isFinite(number) ? getGradientColor(t) : COLOR_BY_MISSING);
+          });
+          colors.set(modelID, modelColors);
+        });
+        newLegend = {
+          kind: "gradient",
+          title: getKeyTitle(key),
+          min,
+          max,
+          stops: GRADIENT_STOPS.map((color) => color.clone()),
+          count: finite.length,
+          missingCount: allValues.length - finite.length,
+        };
+      } else {
+        // Categories in natural label order, each with its own colour
+        const labels = Array.from(new Set(present.map(String))).sort((a, b) =>
+          a.localeCompare(b, undefined, { numeric: true }),
+        );
+        const categoryColors = new Map(labels.map((label, index) => [label, getCategoryColor(index)]));
+        const counts = new Map<string, number>();
+        valuesPerModel.forEach((values, modelID) => {
+          const modelColors = new Map<number, Color3>();
+          values.forEach((value, expressID) => {
+            const label = value === null ? null : String(value);
+            if (label !== null) counts.set(label, (counts.get(label) ?? 0) + 1);
+            modelColors.set(expressID, label === null ? COLOR_BY_MISSING : categoryColors.get(label)!);
+          });
+          colors.set(modelID, modelColors);
+        });
+        const entries = labels.map((label) => ({
+          label,
+          color: categoryColors.get(label)!,
+          count: counts.get(label)!,
+        }));
+        if (missingCount > 0) entries.push({ label: "(no value)", color: COLOR_BY_MISSING, count: missingCount });
+        newLegend = { kind: "categorical", title: getKeyTitle(key), entries };
+      }
+
+      colorElements(colors, newLegend);
+      const duration = (performance.now() - startTime).toFixed(2);
+      console.log(`🎨 Coloured ${allValues.length} elements by ${getKeyTitle(key)} in ${duration}ms`);
+      return newLegend;
+    },
+
+    colorElements,
+    reset,
+    getLegend: () => legend,
+    dispose: reset,
+  };
+}
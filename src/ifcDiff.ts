@@ -0,0 +1,381 @@
+import type * as WebIFC from "web-ifc";
+import { Color3, Matrix, Vector3, VertexBuffer } from "@babylonjs/core";
+import type { IfcModel, IfcMeshMetadata } from "./ifcLoader";
+import { isIfcBatchMesh, type IfcBatchRange } from "./ifcBatching";
+import { modelToIfcCoordinates } from "./ifcGeoreference";
+import { getElementProperties } from "./ifcMetadata";
+import { getIfcElementMeshes, setIfcElementsVisible } from "./ifcElements";
+import type { IfcColorBy, IfcColorLegend, IfcElementColors } from "./ifcColorBy";
+
+/** How an element differs between two revisions */
+export type IfcChangeKind = "added" | "removed" | "geometry" | "properties" | "unchanged";
+
+/** One attribute, property or quantity with different values in the two revisions */
+export interface IfcPropertyChange {
+  /** Attribute name (e.g. "Name"), or `Set.Name` for properties and quantities */
+  name: string;
+  /** Value in the old revision (null if missing) */
+  before: string | null;
+  /** Value in the new revision (null if missing) */
+  after: string | null;
+}
+
+/** Change of one element, matched by GlobalId */
+export interface IfcElementChange {
+  globalId: string;
+  /** Geometry changes win over property changes; `propertyChanges` lists both */
+  kind: IfcChangeKind;
+  ifcTypeName: string;
+  name: string;
+  /** expressID in the old revision (undefined for added elements) */
+  beforeExpressID?: number;
+  /** expressID in the new revision (undefined for removed elements) */
+  afterExpressID?: number;
+  geometryChanged: boolean;
+  propertyChanges: IfcPropertyChange[];
+}
+
+/** Change report of two revisions of a model */
+export interface IfcModelDiff {
+  beforeModelID: number;
+  afterModelID: number;
+  /** Added, removed and changed elements; unchanged ones are only counted */
+  changes: IfcElementChange[];
+  counts: Record<IfcChangeKind, number>;
+}
+
+export interface IfcCompareOptions {
+  /** Called while properties are compared, every 100 elements and once at the end */
+  onProgress?: (current: number, total: number) => void;
+}
+
+/** Scene colours of the change kinds */
+export const IFC_CHANGE_COLORS: Record<IfcChangeKind, Color3> = {
+  added: Color3.FromHexString("#59a14f"),
+  removed: Color3.FromHexString("#e15759"),
+  geometry: Color3.FromHexString("#f28e2b"),
+  properties: Color3.FromHexString("#4e79a7"),
+  unchanged: new Color3(0.75, 0.75, 0.75),
+};
+
+/** Captions of the change kinds */
+export const IFC_CHANGE_LABELS: Record<IfcChangeKind, string> = {
+  added: "Added",
+  removed: "Removed",
+  geometry: "Geometry changed",
+  properties: "Properties changed",
+  unchanged: "Unchanged",
+};
+
+// Direct attributes compared besides the IFC type and storey
+const COMPARED_ATTRIBUTES = ["Name", "Description", "ObjectType", "Tag", "PredefinedType"];
+
+// Largest coordinate difference (metres) still counted as the same geometry; well above the Float32
+// noise between instanced and baked copies of a vertex
+const GEOMETRY_TOLERANCE = 0.001;
+
+// Geometry summary of an element: vertex count, bounds and centroid in IFC coordinates
+interface ElementGeometry {
+  count: number;
+  min: Vector3;
+  max: Vector3;
+  /** Sum of the vertex positions, divided by `count` once all meshes are read */
+  center: Vector3;
+}
+
+/**
+ * Summarise the geometry of every element of a model from the vertex data of its meshes
+ * Positions are read in IFC coordinates (without the shift to the origin, which differs between
+ * revisions). The summary does not depend on vertex order, so parts merged or batched in another
+ * order after a re-export compare equal.
+ */
+function getElementGeometry(model: IfcModel): Map<number, ElementGeometry> {
+  const rootInverse = Matrix.Invert(model.rootNode.computeWorldMatrix(true));
+  const geometries = new Map<number, ElementGeometry>();
+  const local = new Vector3();
+
+  getIfcElementMeshes(model.meshes).forEach(({ mesh, metadata }) => {
+    // Instances share the vertex data of their source mesh
+    const positions = mesh.getVerticesData(VertexBuffer.PositionKind);
+    if (!positions) return;
+
+    // A batched mesh holds several elements; only the vertex range of this one counts
+    const range = isIfcBatchMesh(mesh) ? (metadata as IfcBatchRange) : null;
+    const start = range ? range.vertexStart : 0;
+    const end = range ? range.vertexStart + range.vertexCount : positions.length / 3;
+    const toModel = mesh.computeWorldMatrix(true).multiply(rootInverse);
+
+    let geometry = geometries.get(metadata.expressID);
+    if (!geometry) {
+      geometry = {
+        count: 0,
+        min: new Vector3(Infinity, Infinity, Infinity),
+        max: new Vector3(-Infinity, -Infinity, -Infinity),
+        center: Vector3.Zero(),
+      };
+      geometries.set(metadata.expressID, geometry);
+    }
+    for (let i = start * 3; i < end * 3; i += 3) {
+      Vector3.TransformCoordinatesFromFloatsToRef(positions[i], positions[i + 1], positions[i + 2], toModel, local);
+      const point = modelToIfcCoordinates(model, local);
+      geometry.min.minimizeInPlace(point);
+      geometry.max.maximizeInPlace(point);
+      geometry.center.addInPlace(point);
+    }
+    geometry.count += end - start;
+  });
+
+  geometries.forEach((geometry) => geometry.center.scaleInPlace(1 / Math.max(geometry.count, 1)));
+  return geometries;
+}
+
+/**
+ * Check whether two element geometries differ by more than the tolerance (or one is missing)
+ */
+function isGeometryChanged(before: ElementGeometry | undefined, after: ElementGeometry | undefined): boolean {
+  if (!before || !after) return before !== after;
+  const moved = (a: Vector3, b: Vector3) =>
+    Math.max(Math.abs(a.x - b.x), Math.abs(a.y - b.y), Math.abs(a.z - b.z)) > GEOMETRY_TOLERANCE;
+  return (
+    before.count !== after.count ||
+    moved(before.min, after.min) ||
+    moved(before.max, after.max) ||
+    moved(before.center, after.center)
+  );
+}
+
+/**
+ * Turn an IFC value into a comparable string (null if missing)
+ */
+function formatValue(value: any): string | null {
+  if (value === null || value === undefined) return null;
+  if (Array.isArray(value)) return value.map((item) => formatValue(item) ?? "").join(", ");
+  if (typeof value === "object") return "value" in value ? formatValue(value.value) : null;
+  if (typeof value === "boolean") return value ? "true" : "false";
+  if (value === "T" || value === ".T.") return "true";
+  if (value === "F" || value === ".F.") return "false";
+  // Round away floating point noise of re-exports
+  if (typeof value === "number") return String(Number(value.toPrecision(10)));
+  return String(value);
+}
+
+/**
+ * Read the compared values of an element: attributes, IFC type, storey, properties and quantities
+ */
+async function getComparedValues(
+  ifcAPI: WebIFC.IfcAPI,
+  metadata: IfcMeshMetadata,
+  storeyNames: Map<number, string | null>,
+): Promise<Map<string, string>> {
+  const { modelID, expressID } = metadata;
+  const values = new Map<string, string>();
+  const set = (name: string, value: any) => {
+    const text = formatValue(value);
+    if (text !== null && text !== "") values.set(name, text);
+  };
+
+  const line = ifcAPI.GetLine(modelID, expressID);
+  COMPARED_ATTRIBUTES.forEach((attribute) => set(attribute, line?.[attribute]));
+  set("IFC type", metadata.ifcTypeName);
+
+  if (metadata.storeyID !== undefined) {
+    if (!storeyNames.has(metadata.storeyID)) {
+      const storey = ifcAPI.GetLine(modelID, metadata.storeyID);
+      storeyNames.set(metadata.storeyID, storey?.Name?.value ?? null);
+    }
+    set("Storey", storeyNames.get(metadata.storeyID));
+  }
+
+  // Instance property sets come after type ones, so they override them
+  const properties = await getElementProperties(ifcAPI, modelID, expressID);
+  const typeFirst = (a: { source: string }, b: { source: string }) =>
+    Number(a.source !== "type") - Number(b.source !== "type");
+  [...properties.propertySets].sort(typeFirst).forEach((propertySet) => {
+    propertySet.properties.forEach((property) => set(`${propertySet.name}.${property.name}`, property.value));
+  });
+  [...properties.quantitySets].sort(typeFirst).forEach((quantitySet) => {
+    quantitySet.quantities.forEach((quantity) => set(`${quantitySet.name}.${quantity.name}`, quantity.value));
+  });
+  return values;
+}
+
+/**
+ * Compare two revisions of a model, matching elements by GlobalId
+ * Elements are added or removed when their GlobalId is only in one revision; matched elements are
+ * compared by the vertex count, bounds and centroid of their geometry and by their attributes, properties and quantities.
+ * Both models must still be open in `ifcAPI`.
+ */
+export async function compareIfcModels(
+  ifcAPI: WebIFC.IfcAPI,
+  before: IfcModel,
+  after: IfcModel,
+  options: IfcCompareOptions = {},
+): Promise<IfcModelDiff> {
+  const startTime = performance.now();
+  const counts: Record<IfcChangeKind, number> = { added: 0, removed: 0, geometry: 0, properties: 0, unchanged: 0 };
+  const changes: IfcElementChange[] = [];
+
+  // Metadata of one mesh per element
+  const getElementMetadata = (model: IfcModel) => {
+    const elements = new Map<number, IfcMeshMetadata>();
+    getIfcElementMeshes(model.meshes).forEach(({ metadata }) => {
+      if (!elements.has(metadata.expressID)) elements.set(metadata.expressID, metadata);
+    });
+    return elements;
+  };
+  const beforeElements = getElementMetadata(before);
+  const afterElements = getElementMetadata(after);
+  const getName = (model: IfcModel, expressID: number) =>
+    formatValue(ifcAPI.GetLine(model.modelID, expressID)?.Name) ?? "";
+
+  // Added and removed elements
+  after.globalIds.byGlobalId.forEach((expressID, globalId) => {
+    if (before.globalIds.byGlobalId.has(globalId)) return;
+    const metadata = afterElements.get(expressID);
+    changes.push({
+      globalId,
+      kind: "added",
+      ifcTypeName: metadata?.ifcTypeName ?? "",
+      name: getName(after, expressID),
+      afterExpressID: expressID,
+      geometryChanged: false,
+      propertyChanges: [],
+    });
+  });
+  before.globalIds.byGlobalId.forEach((expressID, globalId) => {
+    if (after.globalIds.byGlobalId.has(globalId)) return;
+    const metadata = beforeElements.get(expressID);
+    changes.push({
+      globalId,
+      kind: "removed",
+      ifcTypeName: metadata?.ifcTypeName ?? "",
+      name: getName(before, expressID),
+      beforeExpressID: expressID,
+      geometryChanged: false,
+      propertyChanges: [],
+    });
+  });
+  counts.added = changes.filter((change) => change.kind === "added").length;
+  counts.removed = changes.length - counts.added;
+
+  // Matched elements: geometry, then values
+  const beforeGeometry = getElementGeometry(before);
+  const afterGeometry = getElementGeometry(after);
+  const beforeStoreys = new Map<number, string | null>();
+  const afterStoreys = new Map<number, string | null>();
+
+  const matched = Array.from(after.globalIds.byGlobalId).filter(([globalId]) =>
+    before.globalIds.byGlobalId.has(globalId),
+  );
+  for (let i = 0; i < matched.length; i++) {
+    const [globalId, afterID] = matched[i];
+    const beforeID = before.globalIds.byGlobalId.get(globalId)!;
+    const beforeMetadata = beforeElements.get(beforeID);
+    const afterMetadata = afterElements.get(afterID);
+    if (!beforeMetadata || !afterMetadata) continue;
+
+    const geometryChanged = isGeometryChanged(beforeGeometry.get(beforeID), afterGeometry.get(afterID));
+    const propertyChanges: IfcPropertyChange[] = [];
+    try {
+      const beforeValues = await getComparedValues(ifcAPI, beforeMetadata, beforeStoreys);
+      const afterValues = await getComparedValues(ifcAPI, afterMetadata, afterStoreys);
+      new Set([...beforeValues.keys(), ...afterValues.keys()]).forEach((name) => {
+        const beforeValue = beforeValues.get(name) ?? null;
+        const afterValue = afterValues.get(name) ?? null;
+        if (beforeValue !== afterValue) propertyChanges.push({ name, before: beforeValue, after: afterValue });
+      });
+    } catch (error) {
+      console.warn(`Could not compare the properties of ${globalId}:`, error);
+    }
+
+    const kind: IfcChangeKind = geometryChanged ? "geometry" : propertyChanges.length > 0 ? "properties" : "unchanged";
+    counts[kind]++;
+    if (kind !== "unchanged") {
+      changes.push({
+        globalId,
+        kind,
+        ifcTypeName: afterMetadata.ifcTypeName,
+        name: getName(after, afterID),
+        beforeExpressID: beforeID,
+        afterExpressID: afterID,
+        geometryChanged,
+        propertyChanges,
+      });
+    }
+
+    if ((i + 1) % 100 === 0 || i + 1 === matched.length) {
+      options.onProgress?.(i + 1, matched.length);
+      // Let the page render between chunks
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  }
+
+  const duration = (performance.now() - startTime).toFixed(2);
+  console.log(
+    `🔀 Compared ${before.name} → ${after.name} in ${duration}ms: ${counts.added} added, ${counts.removed} removed, ` +
+      `${counts.geometry} geometry and ${counts.properties} property changes, ${counts.unchanged} unchanged`,
+  );
+
+  return { beforeModelID: before.modelID, afterModelID: after.modelID, changes, counts };
+}
+
+/**
+ * Colour the new revision by change kind and show the removed elements of the old one
+ * The other elements of the old revision are hidden; `clearIfcDiffView` shows them again.
+ */
+export function applyIfcDiffView(diff: IfcModelDiff, before: IfcModel, after: IfcModel, colorBy: IfcColorBy): void {
+  const afterColors = new Map<number, Color3>();
+  getIfcElementMeshes(after.meshes).forEach(({ metadata }) => {
+    afterColors.set(metadata.expressID, IFC_CHANGE_COLORS.unchanged);
+  });
+  const removed = new Set<number>();
+  diff.changes.forEach((change) => {
+    if (change.afterExpressID !== undefined) afterColors.set(change.afterExpressID, IFC_CHANGE_COLORS[change.kind]);
+    if (change.kind === "removed") removed.add(change.beforeExpressID!);
+  });
+  const beforeColors = new Map(Array.from(removed, (expressID) => [expressID, IFC_CHANGE_COLORS.removed]));
+
+  const beforeElements = getIfcElementMeshes(before.meshes);
+  setIfcElementsVisible(beforeElements.filter(({ metadata }) => removed.has(metadata.expressID)), true);
+  setIfcElementsVisible(beforeElements.filter(({ metadata }) => !removed.has(metadata.expressID)), false);
+  setIfcElementsVisible(getIfcElementMeshes(after.meshes), true);
+
+  const colors: IfcElementColors = new Map([
+    [before.modelID, beforeColors],
+    [after.modelID, afterColors],
+  ]);
+  const legend: IfcColorLegend = {
+    kind: "categorical",
+    title: `Changes ${before.name} → ${after.name}`,
+    entries: (Object.keys(IFC_CHANGE_LABELS) as IfcChangeKind[]).map((kind) => ({
+      label: IFC_CHANGE_LABELS[kind],
+      color: IFC_CHANGE_COLORS[kind],
+      count: diff.counts[kind],
+    })),
+  };
+  colorBy.colorElements(colors, legend);
+}
+
+/**
+ * Restore the IFC colours and show every element of the old revision again
+ */
+export function clearIfcDiffView(before: IfcModel | undefined, colorBy: IfcColorBy): void {
+  colorBy.reset();
+  if (before) setIfcElementsVisible(getIfcElementMeshes(before.meshes), true);
+}
+
+/**
+ * Write the change report as CSV: one row per changed value, one row for added and removed elements
+ */
+export function getIfcDiffReportCsv(diff: IfcModelDiff): string {
+  const quote = (value: string | number | null | undefined) => `"${String(value ?? "").replace(/"/g, '""')}"`;
+  const rows = [["GlobalId", "Change", "IFC type", "Name", "Property", "Before", "After"].map(quote).join(",")];
+  diff.changes.forEach((change) => {
+    const element = [change.globalId, IFC_CHANGE_LABELS[change.kind], change.ifcTypeName, change.name];
+    const values: (string | null)[][] = change.propertyChanges.map(({ name, before, after }) => [name, before, after]);
+    if (change.geometryChanged) values.unshift(["(geometry)", null, null]);
+    if (values.length === 0) values.push([null, null, null]);
+    values.forEach((value) => rows.push([...element, ...value].map(quote).join(",")));
+  });
+  return rows.join("\r\n");
+}
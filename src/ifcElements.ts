@@ -0,0 +1,177 @@
+import { BoundingBox, InstancedMesh, Mesh, type AbstractMesh, type PickingInfo } from "@babylonjs/core";
+import { createIfcMeshProxy, type IfcMeshMetadata } from "./ifcLoader";
+import {
+  isIfcBatchMesh,
+  getBatchRanges,
+  getBatchRangeAtFace,
+  getBatchProxyRangeAtFace,
+  setBatchElementsVisible,
+  isBatchElementVisible,
+  setBatchElementsGhosted,
+  getBatchElementAlpha,
+  getBatchRangeBounds,
+  createBatchProxy,
+  type IfcBatchRange,
+} from "./ifcBatching";
+
+/**
+ * One IFC element drawn by a mesh: a whole mesh or instance, or one range of a batched mesh
+ * Elements spanning several meshes (parts, colors, storeys) have one entry per mesh.
+ */
+export interface IfcElementMesh {
+  mesh: AbstractMesh;
+  /** Mesh metadata, or the batch range of the element */
+  metadata: IfcMeshMetadata;
+}
+
+/**
+ * List the IFC elements drawn by the given meshes; batched meshes yield one entry per range
+ */
+export function getIfcElementMeshes(meshes: AbstractMesh[]): IfcElementMesh[] {
+  const elements: IfcElementMesh[] = [];
+  meshes.forEach((mesh) => {
+    if (isIfcBatchMesh(mesh)) {
+      getBatchRanges(mesh).forEach((range) => elements.push({ mesh, metadata: range }));
+      return;
+    }
+    const metadata = mesh.metadata as IfcMeshMetadata | null;
+    if (metadata && metadata.expressID !== undefined && metadata.ifcType !== undefined) {
+      elements.push({ mesh, metadata });
+    }
+  });
+  return elements;
+}
+
+/**
+ * Resolve a pick to the IFC element under the cursor (also inside batched meshes)
+ */
+export function getPickedIfcElement(pickInfo: PickingInfo | null): IfcElementMesh | null {
+  const mesh = pickInfo?.pickedMesh;
+  if (!pickInfo?.hit || !mesh) return null;
+
+  // Pickable ghosts of batched elements map their faces back to the batch
+  const ghosted = mesh instanceof Mesh ? getBatchProxyRangeAtFace(mesh, pickInfo.faceId) : null;
+  if (ghosted) return { mesh: ghosted.mesh, metadata: ghosted.range };
+
+  if (isIfcBatchMesh(mesh)) {
+    const range = getBatchRangeAtFace(mesh, pickInfo.faceId);
+    return range ? { mesh, metadata: range } : null;
+  }
+
+  const metadata = mesh.metadata as IfcMeshMetadata | null;
+  return metadata && metadata.expressID !== undefined && metadata.modelID !== undefined ? { mesh, metadata } : null;
+}
+
+/**
+ * Get the world-space bounding box of an element (only its range for batched meshes)
+ */
+export function getIfcElementBoundingBox({ mesh, metadata }: IfcElementMesh): BoundingBox {
+  if (isIfcBatchMesh(mesh)) {
+    const { minimum, maximum } = getBatchRangeBounds(mesh, metadata as IfcBatchRange);
+    return new BoundingBox(minimum, maximum, mesh.computeWorldMatrix());
+  }
+  return mesh.getBoundingInfo().boundingBox;
+}
+
+/**
+ * Group batched elements by mesh so each batch is updated once
+ */
+function forEachBatch(
+  elements: IfcElementMesh[],
+  onBatch: (mesh: Mesh, expressIDs: number[]) => void,
+  onMesh: (mesh: AbstractMesh) => void,
+): void {
+  const batches = new Map<Mesh, number[]>();
+  elements.forEach(({ mesh, metadata }) => {
+    if (isIfcBatchMesh(mesh)) {
+      let expressIDs = batches.get(mesh);
+      if (!expressIDs) {
+        expressIDs = [];
+        batches.set(mesh, expressIDs);
+      }
+      expressIDs.push(metadata.expressID);
+    } else {
+      onMesh(mesh);
+    }
+  });
+  batches.forEach((expressIDs, mesh) => onBatch(mesh, expressIDs));
+}
+
+/**
+ * Show or hide elements
+ */
+export function setIfcElementsVisible(elements: IfcElementMesh[], visible: boolean): void {
+  forEachBatch(
+    elements,
+    (mesh, expressIDs) => setBatchElementsVisible(mesh, expressIDs, visible),
+    (mesh) => (mesh.isVisible = visible),
+  );
+}
+
+/**
+ * Check whether an element is shown
+ */
+export function isIfcElementVisible(element: IfcElementMesh): boolean {
+  return isIfcBatchMesh(element.mesh)
+    ? isBatchElementVisible(element.mesh, element.metadata.expressID)
+    : element.mesh.isVisible;
+}
+
+/**
+ * Make elements semi-transparent, and unpickable unless `pickable`, or restore them (alpha null)
+ * Instances share the visibility of their source mesh.
+ */
+export function setIfcElementsGhosted(elements: IfcElementMesh[], alpha: number | null, pickable = false): void {
+  const ghosted = alpha !== null && alpha < 1;
+  forEachBatch(
+    elements,
+    (mesh, expressIDs) => setBatchElementsGhosted(mesh, expressIDs, alpha, pickable),
+    (mesh) => {
+      const target = mesh instanceof InstancedMesh ? mesh.sourceMesh : mesh;
+      target.visibility = ghosted ? alpha : 1;
+      mesh.isPickable = !ghosted || pickable;
+    },
+  );
+}
+
+/**
+ * Get the ghosting alpha of an element (1 when not ghosted)
+ */
+export function getIfcElementAlpha(element: IfcElementMesh): number {
+  return isIfcBatchMesh(element.mesh)
+    ? getBatchElementAlpha(element.mesh, element.metadata.expressID)
+    : element.mesh.visibility;
+}
+
+// Effects on an instance source mesh also draw on its instances
+function hasInstances(mesh: AbstractMesh): boolean {
+  return mesh instanceof Mesh && mesh.instances.length > 0;
+}
+
+/**
+ * Check whether an element needs a proxy for per-element effects (instances, their sources and batch ranges)
+ */
+export function needsIfcElementProxy(element: IfcElementMesh): boolean {
+  return element.mesh instanceof InstancedMesh || hasInstances(element.mesh) || isIfcBatchMesh(element.mesh);
+}
+
+/**
+ * Create meshes drawing only the given elements, placed on top of them, for per-element effects
+ * One proxy per batched mesh, instance and instance source; plain meshes can carry the effect themselves.
+ */
+export function createIfcElementProxies(elements: IfcElementMesh[], suffix: string): Mesh[] {
+  const proxies: Mesh[] = [];
+  forEachBatch(
+    elements,
+    (mesh, expressIDs) => {
+      const proxy = createBatchProxy(mesh, expressIDs, `${mesh.name}-${suffix}`);
+      if (proxy) proxies.push(proxy);
+    },
+    (mesh) => {
+      if (mesh instanceof InstancedMesh || (mesh instanceof Mesh && hasInstances(mesh))) {
+        proxies.push(createIfcMeshProxy(mesh, `${mesh.name}-${suffix}`));
+      }
+    },
+  );
+  return proxies;
+}
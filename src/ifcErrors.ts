@@ -0,0 +1,73 @@
+import * as WebIFC from "web-ifc";
+
+/** What made a load fail */
+export type IfcLoadErrorKind = "fetch" | "unsupportedSchema" | "parse" | "outOfMemory";
+
+export const IFC_LOAD_ERROR_LABELS: Record<IfcLoadErrorKind, string> = {
+  fetch: "Download failed",
+  unsupportedSchema: "Unsupported IFC schema",
+  parse: "Not a readable IFC file",
+  outOfMemory: "Out of memory",
+};
+
+/**
+ * Error thrown by loadAndRenderIfc; `kind` tells the viewer what went wrong
+ */
+export class IfcLoadError extends Error {
+  readonly kind: IfcLoadErrorKind;
+  /** HTTP status of a failed download */
+  readonly status?: number;
+  /** Schema named in the file header, if it could be read */
+  readonly schema?: string;
+
+  constructor(
+    kind: IfcLoadErrorKind,
+    message: string,
+    details: { cause?: unknown; status?: number; schema?: string } = {},
+  ) {
+    super(message, { cause: details.cause });
+    this.name = "IfcLoadError";
+    this.kind = kind;
+    this.status = details.status;
+    this.schema = details.schema;
+  }
+}
+
+// The header is at the start of the file and rarely longer than a few kilobytes
+const HEADER_BYTES = 65536;
+
+/**
+ * Check that the bytes are an IFC STEP file of a schema web-ifc reads
+ * OpenModel only returns -1, so the reason is found in the header first.
+ */
+export function checkIfcFileHeader(data: ArrayBuffer): void {
+  const header = new TextDecoder("latin1").decode(new Uint8Array(data, 0, Math.min(data.byteLength, HEADER_BYTES)));
+  if (!/^\uFEFF?\s*ISO-10303-21\s*;/.test(header)) {
+    const hint = header.startsWith("PK") ? " (zipped IFC files must be extracted first)" : "";
+    throw new IfcLoadError("parse", `Not an IFC STEP file: the ISO-10303-21 header is missing${hint}`);
+  }
+
+  const schema = /FILE_SCHEMA\s*\(\s*\(\s*'([^']*)'/i.exec(header)?.[1].trim().toUpperCase();
+  if (schema && !WebIFC.SchemaNames.some((names) => names?.includes(schema))) {
+    throw new IfcLoadError("unsupportedSchema", `IFC schema ${schema} is not supported`, { schema });
+  }
+}
+
+/**
+ * Check whether an error comes from running out of WASM or JavaScript memory
+ */
+export function isOutOfMemoryError(error: unknown): boolean {
+  if (error instanceof IfcLoadError) return error.kind === "outOfMemory";
+  const message = error instanceof Error ? error.message : String(error);
+  return /out of memory|\bOOM\b|enlarge memory|allocation failed/i.test(message);
+}
+
+/**
+ * Turn memory errors thrown while loading into an IfcLoadError; other errors are returned unchanged
+ */
+export function toIfcLoadError(error: unknown): unknown {
+  if (error instanceof IfcLoadError || !isOutOfMemoryError(error)) return error;
+  return new IfcLoadError("outOfMemory", "The model does not fit in memory; try a smaller file or close other models", {
+    cause: error,
+  });
+}
@@ -0,0 +1,173 @@
+import type * as WebIFC from "web-ifc";
+import { Scene, StandardMaterial, PBRMaterial, type Node } from "@babylonjs/core";
+import { GLTF2Export } from "@babylonjs/serializers";
+import type { IfcModel, IfcMeshMetadata } from "./ifcLoader";
+import type { IfcBatchMetadata } from "./ifcBatching";
+
+/**
+ * IFC data written to the glTF `extras` of every exported element node
+ */
+export interface IfcGltfExtras {
+  expressID: number;
+  modelID: number;
+  /** IFC GlobalId (22 character base64 GUID) */
+  globalId: string;
+  /** IFC type name (e.g. "IfcWall") */
+  ifcType: string;
+  name: string;
+}
+
+/**
+ * IFC data written to the glTF `extras` of a batched mesh node: one entry per element range
+ */
+export interface IfcGltfBatchExtras {
+  modelID: number;
+  elements: (IfcGltfExtras & { indexStart: number; indexCount: number })[];
+}
+
+export interface IfcGlbExportOptions {
+  /** File name without extension (default "model") */
+  fileName?: string;
+  /** Skip disabled nodes and invisible meshes (default false) */
+  visibleOnly?: boolean;
+}
+
+/**
+ * Collect the IFC root nodes to export from a scene, a model or a list of models
+ */
+function getExportRoots(target: Scene | IfcModel | IfcModel[]): { scene: Scene; roots: Node[] } {
+  if (target instanceof Scene) {
+    return {
+      scene: target,
+      roots: target.transformNodes.filter((node) => node.name.startsWith("ifc-root")),
+    };
+  }
+
+  const models = Array.isArray(target) ? target : [target];
+  if (models.length === 0) {
+    throw new Error("No IFC models to export");
+  }
+
+  return {
+    scene: models[0].rootNode.getScene(),
+    roots: models.map((model) => model.rootNode),
+  };
+}
+
+/**
+ * Export IFC meshes and materials to a binary glTF (GLB) Blob
+ * Element nodes keep expressID, GlobalId, IFC type and name in their glTF `extras`.
+ * The models must still be open in `ifcAPI` to resolve element names.
+ * @param target Scene (all IFC models in it), a single model or several models
+ */
+export async function exportIfcSceneToGlb(
+  ifcAPI: WebIFC.IfcAPI,
+  target: Scene | IfcModel | IfcModel[],
+  options: IfcGlbExportOptions = {},
+): Promise<Blob> {
+  const startTime = performance.now();
+  const { scene, roots } = getExportRoots(target);
+  const fileName = options.fileName ?? "model";
+
+  // Elements usually span several meshes, so look up each element only once
+  const extrasCache = new Map<string, IfcGltfExtras>();
+
+  const getElementExtras = (metadata: IfcMeshMetadata): IfcGltfExtras => {
+    const key = `${metadata.modelID}:${metadata.expressID}`;
+    let extras = extrasCache.get(key);
+    if (!extras) {
+      let name = "";
+      try {
+        name = ifcAPI.GetLine(metadata.modelID, metadata.expressID).Name?.value || "";
+      } catch (error) {
+        console.warn(`Failed to read element ${metadata.expressID} for export:`, error);
+      }
+
+      extras = {
+        expressID: metadata.expressID,
+        modelID: metadata.modelID,
+        globalId: metadata.globalId,
+        ifcType: metadata.ifcTypeName,
+        name,
+      };
+      extrasCache.set(key, extras);
+    }
+    return extras;
+  };
+
+  const isExported = (node: Node): boolean => roots.some((root) => node === root || node.isDescendantOf(root));
+
+  // glTF only marks a material double-sided when two-sided lighting is on as well,
+  // so enable it for the export on materials that render both faces
+  const twoSidedMaterials = new Set<StandardMaterial | PBRMaterial>();
+  scene.meshes.forEach((mesh) => {
+    const material = mesh.material;
+    if (!isExported(mesh) || !material || material.backFaceCulling) return;
+    if ((material instanceof StandardMaterial || material instanceof PBRMaterial) && !material.twoSidedLighting) {
+      twoSidedMaterials.add(material);
+    }
+  });
+  twoSidedMaterials.forEach((material) => (material.twoSidedLighting = true));
+
+  let data;
+  try {
+    data = await GLTF2Export.GLBAsync(scene, fileName, {
+      shouldExportNode: (node) => {
+        if (!isExported(node)) return false;
+        // Only model roots, element meshes and batches; skips helpers such as section caps
+        if (!roots.includes(node) && node.metadata?.expressID === undefined && !node.metadata?.batchRanges) {
+          return false;
+        }
+        if (options.visibleOnly) {
+          if (!node.isEnabled()) return false;
+          if ("isVisible" in node && !node.isVisible) return false;
+        }
+        return true;
+      },
+      metadataSelector: (metadata) => {
+        if (!metadata || metadata.modelID === undefined) return undefined;
+        if (metadata.batchRanges) {
+          const extras: IfcGltfBatchExtras = {
+            modelID: metadata.modelID,
+            elements: (metadata as IfcBatchMetadata).batchRanges.map((range) => ({
+              ...getElementExtras(range),
+              indexStart: range.indexStart,
+              indexCount: range.indexCount,
+            })),
+          };
+          return extras;
+        }
+        // Root nodes only carry the model ID
+        if (metadata.expressID === undefined) return { modelID: metadata.modelID };
+        return getElementExtras(metadata as IfcMeshMetadata);
+      },
+    });
+  } finally {
+    twoSidedMaterials.forEach((material) => (material.twoSidedLighting = false));
+  }
+
+  const glb = data.files[`${fileName}.glb`];
+  if (!(glb instanceof Blob)) {
+    throw new Error("GLB export produced no binary output");
+  }
+
+  console.log(
+    `📤 Exported ${extrasCache.size} IFC elements to ${fileName}.glb (${(glb.size / 1024 / 1024).toFixed(2)} MB) in ${(performance.now() - startTime).toFixed(2)}ms`,
+  );
+
+  return glb;
+}
+
+/**
+ * Save a Blob as a file through a temporary download link (browser only)
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
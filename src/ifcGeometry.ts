@@ -0,0 +1,142 @@
+import * as WebIFC from "web-ifc";
+
+/** RGBA color as streamed by web-ifc (components in 0..1) */
+export interface IfcColor {
+  x: number;
+  y: number;
+  z: number;
+  w: number;
+}
+
+/**
+ * Geometry of one placed geometry of an element, detached from web-ifc memory.
+ * Uses plain typed arrays so it can be transferred from a Web Worker without copying.
+ */
+export interface IfcGeometryPart {
+  expressID: number;
+  geometryExpressID: number;
+  /** Index of the placed geometry within its element */
+  partIndex: number;
+  color: IfcColor | null;
+  positions: Float32Array;
+  normals: Float32Array;
+  indices: Uint32Array;
+  /** Placement matrix (column-major 4x4) from `flatTransformation`, if any */
+  transform: number[] | null;
+}
+
+/** Placed geometry web-ifc could not hand out, recorded for the load report */
+export interface IfcGeometryFailure {
+  expressID: number;
+  geometryExpressID: number;
+  message: string;
+}
+
+/**
+ * Count the products of a model: an upper bound of the flat meshes StreamAllMeshes returns
+ * StreamAllMeshes counts its index per IFC type, so it cannot report overall progress itself.
+ */
+export function countIfcProducts(ifcAPI: WebIFC.IfcAPI, modelID: number): number {
+  return ifcAPI.GetLineIDsWithType(modelID, WebIFC.IFCPRODUCT, true).size();
+}
+
+/**
+ * Build web-ifc loader settings shared by the main thread and the geometry worker
+ */
+export function getLoaderSettings(coordinateToOrigin = true): WebIFC.LoaderSettings {
+  return {
+    COORDINATE_TO_ORIGIN: coordinateToOrigin,
+    CIRCLE_SEGMENTS: 24,
+    MEMORY_LIMIT: 2147483648,
+    TAPE_SIZE: 67108864,
+  };
+}
+
+/**
+ * Calculate a numeric ID for an RGBA color (0 = default color)
+ */
+export function getColorId(color: IfcColor | null): number {
+  if (!color) return 0;
+
+  return (
+    Math.floor(color.x * 255) +
+    Math.floor(color.y * 255) * 256 +
+    Math.floor(color.z * 255) * 256 * 256 +
+    Math.floor(color.w * 255) * 256 * 256 * 256
+  );
+}
+
+/**
+ * Copy all placed geometries of a streamed FlatMesh out of web-ifc memory
+ * @param failures Receives the placed geometries that could not be read
+ */
+export function extractGeometryParts(
+  ifcAPI: WebIFC.IfcAPI,
+  modelID: number,
+  flatMesh: WebIFC.FlatMesh,
+  failures?: IfcGeometryFailure[],
+): IfcGeometryPart[] {
+  const parts: IfcGeometryPart[] = [];
+  const placedGeometries = flatMesh.geometries;
+
+  for (let i = 0; i < placedGeometries.size(); i++) {
+    const placedGeometry = placedGeometries.get(i);
+
+    // Skip invalid geometries
+    if (!placedGeometry || placedGeometry.geometryExpressID === undefined) continue;
+
+    // Get geometry data
+    const geometry = ifcAPI.GetGeometry(modelID, placedGeometry.geometryExpressID);
+    if (!geometry) continue;
+
+    try {
+      const verts = ifcAPI.GetVertexArray(geometry.GetVertexData(), geometry.GetVertexDataSize());
+      const indices = ifcAPI.GetIndexArray(geometry.GetIndexData(), geometry.GetIndexDataSize());
+
+      if (verts.length === 0 || indices.length === 0) {
+        continue;
+      }
+
+      // Split interleaved [x,y,z,nx,ny,nz] vertex data into positions and normals
+      const numVertices = verts.length / 6;
+      const positions = new Float32Array(numVertices * 3);
+      const normals = new Float32Array(numVertices * 3);
+
+      for (let v = 0; v < numVertices; v++) {
+        positions[v * 3] = verts[v * 6];
+        positions[v * 3 + 1] = verts[v * 6 + 1];
+        positions[v * 3 + 2] = verts[v * 6 + 2];
+        normals[v * 3] = verts[v * 6 + 3];
+        normals[v * 3 + 1] = verts[v * 6 + 4];
+        normals[v * 3 + 2] = verts[v * 6 + 5];
+      }
+
+      const transform = placedGeometry.flatTransformation;
+      const color = placedGeometry.color;
+
+      parts.push({
+        expressID: flatMesh.expressID,
+        geometryExpressID: placedGeometry.geometryExpressID,
+        partIndex: i,
+        color: color ? { x: color.x, y: color.y, z: color.z, w: color.w } : null,
+        positions,
+        normals,
+        // Copy indices so the part no longer references the WASM heap
+        indices: new Uint32Array(indices),
+        transform: transform && transform.length === 16 ? Array.from(transform) : null,
+      });
+    } catch (error) {
+      console.error(`Error processing geometry:`, error);
+      failures?.push({
+        expressID: flatMesh.expressID,
+        geometryExpressID: placedGeometry.geometryExpressID,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      // Clean up WASM memory
+      (geometry as any)?.delete?.();
+    }
+  }
+
+  return parts;
+}
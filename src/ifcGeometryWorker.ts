@@ -0,0 +1,105 @@
+import * as WebIFC from "web-ifc";
+import {
+  countIfcProducts,
+  extractGeometryParts,
+  type IfcGeometryFailure,
+  type IfcGeometryPart,
+} from "./ifcGeometry";
+import type { IfcWorkerRequest, IfcWorkerResponse } from "./ifcWorkerLoader";
+
+// Web Worker entry: runs web-ifc off the main thread and streams geometry parts back
+
+const workerScope = self as unknown as Worker;
+
+let ifcAPI: WebIFC.IfcAPI | null = null;
+
+/**
+ * Initialize web-ifc once per worker
+ */
+async function getIfcAPI(wasmPath: string): Promise<WebIFC.IfcAPI> {
+  if (!ifcAPI) {
+    const api = new WebIFC.IfcAPI();
+    api.SetWasmPath(wasmPath, true);
+    await api.Init();
+    api.SetLogLevel(WebIFC.LogLevel.LOG_LEVEL_ERROR);
+    ifcAPI = api;
+  }
+  return ifcAPI;
+}
+
+/**
+ * Post a batch of parts, transferring their buffers instead of copying them
+ */
+function postParts(requestId: number, parts: IfcGeometryPart[], current: number, total: number): void {
+  const transfer: Transferable[] = [];
+  parts.forEach((part) => {
+    transfer.push(part.positions.buffer, part.normals.buffer, part.indices.buffer);
+  });
+
+  const message: IfcWorkerResponse = { type: "parts", requestId, parts, current, total };
+  workerScope.postMessage(message, transfer);
+}
+
+async function handleLoad(request: IfcWorkerRequest): Promise<void> {
+  const startTime = performance.now();
+  const api = await getIfcAPI(request.wasmPath);
+
+  const modelID = api.OpenModel(new Uint8Array(request.data), request.settings);
+  if (modelID === -1) {
+    throw new Error("Failed to open IFC model in worker");
+  }
+
+  let batch: IfcGeometryPart[] = [];
+  let partCount = 0;
+  let meshCount = 0;
+  let coordinationMatrix: number[] = [];
+  const failures: IfcGeometryFailure[] = [];
+
+  try {
+    const total = countIfcProducts(api, modelID);
+    api.StreamAllMeshes(modelID, (flatMesh: WebIFC.FlatMesh) => {
+      const parts = extractGeometryParts(api, modelID, flatMesh, failures);
+      batch.push(...parts);
+      partCount += parts.length;
+      meshCount++;
+
+      // Flush every batchSize parts
+      if (batch.length >= request.batchSize) {
+        postParts(request.requestId, batch, meshCount, total);
+        batch = [];
+      }
+    });
+    // Flush the rest; products without geometry have no mesh, so report the total to reach 100%
+    postParts(request.requestId, batch, total, total);
+    // Known once geometry was streamed; the main thread has no geometry of this model
+    coordinationMatrix = api.GetCoordinationMatrix(modelID);
+  } finally {
+    api.CloseModel(modelID);
+  }
+
+  const done: IfcWorkerResponse = {
+    type: "done",
+    requestId: request.requestId,
+    partCount,
+    coordinationMatrix,
+    failures,
+    timeMs: performance.now() - startTime,
+  };
+  workerScope.postMessage(done);
+}
+
+workerScope.onmessage = async (event: MessageEvent<IfcWorkerRequest>) => {
+  const request = event.data;
+  if (request.type !== "load") return;
+
+  try {
+    await handleLoad(request);
+  } catch (error) {
+    const message: IfcWorkerResponse = {
+      type: "error",
+      requestId: request.requestId,
+      message: error instanceof Error ? error.message : String(error),
+    };
+    workerScope.postMessage(message);
+  }
+};
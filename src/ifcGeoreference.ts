@@ -0,0 +1,286 @@
+import * as WebIFC from "web-ifc";
+import { Matrix, Quaternion, Vector3 } from "@babylonjs/core";
+import type { IfcModel } from "./ifcLoader";
+import { getProjectUnits } from "./ifcMetadata";
+import { findUnit, getLengthUnitScale, getUnitSymbol } from "./ifcUnits";
+
+/** IfcMapConversion: places the project coordinate system in the map coordinate system */
+export interface IfcMapConversion {
+  /** Map coordinates of the project origin, in map units */
+  eastings: number;
+  northings: number;
+  orthogonalHeight: number;
+  /** Direction of the project X axis in map coordinates (1, 0 when omitted) */
+  xAxisAbscissa: number;
+  xAxisOrdinate: number;
+  /** Project length units → map units per axis, with the IfcMapConversionScaled factors (IFC4X3) */
+  scaleX: number;
+  scaleY: number;
+  scaleZ: number;
+}
+
+/** IfcProjectedCRS: the map coordinate reference system */
+export interface IfcProjectedCrs {
+  /** Usually an EPSG code, e.g. "EPSG:25832" */
+  name: string;
+  description: string;
+  geodeticDatum: string;
+  verticalDatum: string;
+  mapProjection: string;
+  mapZone: string;
+  /** Symbol of the map unit, e.g. "m" */
+  mapUnit: string;
+  /** Metres per map unit */
+  mapUnitScale: number;
+}
+
+/** IfcSite reference point in WGS84 */
+export interface IfcSiteReference {
+  expressID: number;
+  /** Decimal degrees, north positive */
+  latitude: number | null;
+  /** Decimal degrees, east positive */
+  longitude: number | null;
+  /** Metres above the datum */
+  elevation: number | null;
+}
+
+/** Georeference of a model, read once while loading */
+export interface IfcGeoreference {
+  /** Null for IFC2X3 and files without an IfcMapConversion */
+  mapConversion: IfcMapConversion | null;
+  crs: IfcProjectedCrs | null;
+  site: IfcSiteReference | null;
+  /** Metres per project length unit */
+  lengthUnitScale: number;
+}
+
+/**
+ * Convert an IfcCompoundPlaneAngleMeasure (degrees, minutes, seconds, millionths of a second) to decimal degrees
+ * All components carry the same sign.
+ */
+function toDecimalDegrees(angle: any): number | null {
+  const parts = Array.isArray(angle) ? angle : angle?.value;
+  if (!Array.isArray(parts) || parts.length < 3) return null;
+  const [degrees, minutes, seconds, millionths = 0] = parts.map((part) => Number(part?.value ?? part));
+  return degrees + minutes / 60 + (seconds + millionths / 1e6) / 3600;
+}
+
+/**
+ * Read IfcMapConversion / IfcProjectedCRS (IFC4 and later) and the IfcSite reference point of a model
+ * Without an explicit Scale, the map conversion scale is derived from the project and map length units.
+ */
+export async function getIfcGeoreference(ifcAPI: WebIFC.IfcAPI, modelID: number): Promise<IfcGeoreference> {
+  const georeference: IfcGeoreference = { mapConversion: null, crs: null, site: null, lengthUnitScale: 1 };
+
+  try {
+    georeference.lengthUnitScale = getLengthUnitScale(findUnit(await getProjectUnits(ifcAPI, modelID), "LENGTHUNIT"));
+  } catch (error) {
+    console.warn("Error reading the project length unit:", error);
+  }
+
+  try {
+    const conversions = ifcAPI.GetLineIDsWithType(modelID, WebIFC.IFCMAPCONVERSION, true);
+    if (conversions.size() > 0) {
+      const conversion = ifcAPI.GetLine(modelID, conversions.get(0), true);
+      const target = conversion.TargetCRS;
+
+      if (target) {
+        const mapUnit = target.MapUnit
+          ? { name: target.MapUnit.Name?.value, prefix: target.MapUnit.Prefix?.value }
+          : null;
+        // Map units default to metres, the unit of nearly every projected CRS
+        georeference.crs = {
+          name: target.Name?.value ?? "",
+          description: target.Description?.value ?? "",
+          geodeticDatum: target.GeodeticDatum?.value ?? "",
+          verticalDatum: target.VerticalDatum?.value ?? "",
+          mapProjection: target.MapProjection?.value ?? "",
+          mapZone: target.MapZone?.value ?? "",
+          mapUnit: getUnitSymbol(mapUnit) || "m",
+          mapUnitScale: getLengthUnitScale(mapUnit),
+        };
+      }
+
+      const scale = conversion.Scale?.value ?? georeference.lengthUnitScale / (georeference.crs?.mapUnitScale ?? 1);
+      georeference.mapConversion = {
+        eastings: conversion.Eastings?.value ?? 0,
+        northings: conversion.Northings?.value ?? 0,
+        orthogonalHeight: conversion.OrthogonalHeight?.value ?? 0,
+        xAxisAbscissa: conversion.XAxisAbscissa?.value ?? 1,
+        xAxisOrdinate: conversion.XAxisOrdinate?.value ?? 0,
+        scaleX: scale * (conversion.FactorX?.value ?? 1),
+        scaleY: scale * (conversion.FactorY?.value ?? 1),
+        scaleZ: scale * (conversion.FactorZ?.value ?? 1),
+      };
+    }
+  } catch (error) {
+    console.warn("Error reading IfcMapConversion:", error);
+  }
+
+  try {
+    const sites = ifcAPI.GetLineIDsWithType(modelID, WebIFC.IFCSITE);
+    for (let i = 0; i < sites.size() && !georeference.site; i++) {
+      const site = ifcAPI.GetLine(modelID, sites.get(i));
+      if (!site.RefLatitude && !site.RefLongitude && !site.RefElevation) continue;
+      const elevation = site.RefElevation?.value;
+      georeference.site = {
+        expressID: site.expressID,
+        latitude: toDecimalDegrees(site.RefLatitude),
+        longitude: toDecimalDegrees(site.RefLongitude),
+        elevation: typeof elevation === "number" ? elevation * georeference.lengthUnitScale : null,
+      };
+    }
+  } catch (error) {
+    console.warn("Error reading the IfcSite reference:", error);
+  }
+
+  return georeference;
+}
+
+// The coordination matrix is applied in doubles: Babylon matrices are Float32 and lose
+// centimetres at map coordinates, while web-ifc's shift to the origin can be just as large.
+function applyCoordination(m: number[], point: Vector3): Vector3 {
+  const { x, y, z } = point;
+  return new Vector3(
+    x * m[0] + y * m[4] + z * m[8] + m[12],
+    x * m[1] + y * m[5] + z * m[9] + m[13],
+    x * m[2] + y * m[6] + z * m[10] + m[14],
+  );
+}
+
+function invertCoordination(m: number[], point: Vector3): Vector3 {
+  const [a, b, c, d, e, f, g, h, i] = [m[0], m[1], m[2], m[4], m[5], m[6], m[8], m[9], m[10]];
+  const x = point.x - m[12];
+  const y = point.y - m[13];
+  const z = point.z - m[14];
+  // Row vector times the inverse of the 3×3 part, by cofactors
+  const det = a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g);
+  return new Vector3(
+    (x * (e * i - f * h) + y * (f * g - d * i) + z * (d * h - e * g)) / det,
+    (x * (c * h - b * i) + y * (a * i - c * g) + z * (b * g - a * h)) / det,
+    (x * (b * f - c * e) + y * (c * d - a * f) + z * (a * e - b * d)) / det,
+  );
+}
+
+/**
+ * Convert a scene point to project coordinates of a model (IFC world coordinates, Z up, metres)
+ * Undoes the model's root node transform, web-ifc's coordination matrix (e.g. the shift to the origin) and the Y-up swap.
+ */
+export function sceneToIfcCoordinates(model: IfcModel, point: Vector3): Vector3 {
+  const local = Vector3.TransformCoordinates(point, Matrix.Invert(model.rootNode.computeWorldMatrix(true)));
+  return modelToIfcCoordinates(model, local);
+}
+
+/**
+ * Convert a point in the space of a model's root node (where web-ifc geometry is built) to project coordinates
+ * For many points: sceneToIfcCoordinates inverts the root node transform on every call.
+ */
+export function modelToIfcCoordinates(model: IfcModel, point: Vector3): Vector3 {
+  const yUp = invertCoordination(model.coordinationMatrix, point);
+  // web-ifc turns IFC's (x, y, z) into (x, z, -y)
+  return new Vector3(yUp.x, -yUp.z, yUp.y);
+}
+
+/**
+ * Convert project coordinates of a model (Z up, metres) to a scene point
+ */
+export function ifcToSceneCoordinates(model: IfcModel, point: Vector3): Vector3 {
+  const local = applyCoordination(model.coordinationMatrix, new Vector3(point.x, point.z, -point.y));
+  return Vector3.TransformCoordinates(local, model.rootNode.computeWorldMatrix(true));
+}
+
+/**
+ * Convert project coordinates (Z up, metres) to map coordinates: easting, northing and height in map units
+ * @returns null if the model has no map conversion
+ */
+export function ifcToMapCoordinates(georeference: IfcGeoreference, point: Vector3): Vector3 | null {
+  const conversion = georeference.mapConversion;
+  if (!conversion) return null;
+
+  const { eastings, northings, orthogonalHeight, xAxisAbscissa, xAxisOrdinate } = conversion;
+  const length = Math.hypot(xAxisAbscissa, xAxisOrdinate) || 1;
+  const cos = xAxisAbscissa / length;
+  const sin = xAxisOrdinate / length;
+  const x = (point.x / georeference.lengthUnitScale) * conversion.scaleX;
+  const y = (point.y / georeference.lengthUnitScale) * conversion.scaleY;
+  const z = (point.z / georeference.lengthUnitScale) * conversion.scaleZ;
+  return new Vector3(eastings + x * cos - y * sin, northings + x * sin + y * cos, orthogonalHeight + z);
+}
+
+/**
+ * Convert map coordinates (easting, northing, height in map units) to project coordinates (Z up, metres)
+ * @returns null if the model has no map conversion
+ */
+export function mapToIfcCoordinates(georeference: IfcGeoreference, point: Vector3): Vector3 | null {
+  const conversion = georeference.mapConversion;
+  if (!conversion) return null;
+
+  const { eastings, northings, orthogonalHeight, xAxisAbscissa, xAxisOrdinate } = conversion;
+  const length = Math.hypot(xAxisAbscissa, xAxisOrdinate) || 1;
+  const cos = xAxisAbscissa / length;
+  const sin = xAxisOrdinate / length;
+  const east = point.x - eastings;
+  const north = point.y - northings;
+  const x = (east * cos + north * sin) / conversion.scaleX;
+  const y = (north * cos - east * sin) / conversion.scaleY;
+  const z = (point.z - orthogonalHeight) / conversion.scaleZ;
+  return new Vector3(x, y, z).scaleInPlace(georeference.lengthUnitScale);
+}
+
+/**
+ * Convert a scene point to map coordinates of a model (null without a map conversion)
+ */
+export function sceneToMapCoordinates(model: IfcModel, point: Vector3): Vector3 | null {
+  return ifcToMapCoordinates(model.georeference, sceneToIfcCoordinates(model, point));
+}
+
+/**
+ * Convert map coordinates to a scene point through a model's georeference (null without a map conversion)
+ */
+export function mapToSceneCoordinates(model: IfcModel, point: Vector3): Vector3 | null {
+  const ifcPoint = mapToIfcCoordinates(model.georeference, point);
+  return ifcPoint ? ifcToSceneCoordinates(model, ifcPoint) : null;
+}
+
+/**
+ * Check whether two models are placed in the same map coordinate reference system
+ */
+export function shareIfcGeoreference(a: IfcGeoreference, b: IfcGeoreference): boolean {
+  if (!a.mapConversion || !b.mapConversion) return false;
+  return (a.crs?.name ?? "").trim().toUpperCase() === (b.crs?.name ?? "").trim().toUpperCase();
+}
+
+/**
+ * Move a model so that its map coordinates coincide with those of a reference model
+ * Each model is shifted to the origin on its own while loading; this undoes the difference through
+ * the map, so models with different project origins or rotations line up.
+ * @returns false if the models do not share a georeference; the model is left where it is
+ */
+export function alignIfcModel(model: IfcModel, reference: IfcModel): boolean {
+  if (!shareIfcGeoreference(model.georeference, reference.georeference)) return false;
+
+  // Where the model's local origin and axes land in the reference's scene, computed in doubles
+  const toReferenceScene = (local: Vector3) => {
+    const yUp = invertCoordination(model.coordinationMatrix, local);
+    const mapPoint = ifcToMapCoordinates(model.georeference, new Vector3(yUp.x, -yUp.z, yUp.y))!;
+    return ifcToSceneCoordinates(reference, mapToIfcCoordinates(reference.georeference, mapPoint)!);
+  };
+  const origin = toReferenceScene(Vector3.Zero());
+  const [xAxis, yAxis, zAxis] = [Vector3.Right(), Vector3.Up(), Vector3.Forward()].map((axis) =>
+    toReferenceScene(axis).subtractInPlace(origin),
+  );
+
+  const world = Matrix.FromArray([
+    ...[xAxis, yAxis, zAxis].flatMap((axis) => [axis.x, axis.y, axis.z, 0]),
+    ...[origin.x, origin.y, origin.z, 1],
+  ]);
+  const { rootNode } = model;
+  rootNode.rotationQuaternion ??= new Quaternion();
+  world.decompose(rootNode.scaling, rootNode.rotationQuaternion, rootNode.position);
+
+  // Refresh world matrices so bounds are correct before the next frame
+  rootNode.computeWorldMatrix(true);
+  model.meshes.forEach((mesh) => mesh.computeWorldMatrix(true));
+  return true;
+}
@@ -0,0 +1,119 @@
+import { ArcRotateCamera, Vector3, type TargetCamera } from "@babylonjs/core";
+import type { IfcModel } from "./ifcLoader";
+import { getIfcElementMeshes, getIfcElementBoundingBox } from "./ifcElements";
+import type { IfcElementRef, IfcSelectionManager, IfcSelectionMode } from "./ifcSelection";
+
+/** Elements found for a list of GlobalIds */
+export interface IfcGlobalIdLookup {
+  /** One entry per model containing the GlobalId, e.g. two revisions of the same file */
+  elements: IfcElementRef[];
+  /** GlobalIds not found in any model */
+  missing: string[];
+}
+
+/**
+ * Find elements by IFC GlobalId in the loaded models
+ * GlobalIds stay the same across re-exports, so they link BCF topics, URLs and external data to elements.
+ */
+export function findIfcElementsByGlobalId(models: IfcModel[], globalIds: string[]): IfcGlobalIdLookup {
+  const elements: IfcElementRef[] = [];
+  const missing: string[] = [];
+  new Set(globalIds.map((globalId) => globalId.trim())).forEach((globalId) => {
+    let found = false;
+    models.forEach((model) => {
+      const expressID = model.globalIds.byGlobalId.get(globalId);
+      if (expressID === undefined) return;
+      elements.push({ modelID: model.modelID, expressID });
+      found = true;
+    });
+    if (!found && globalId) missing.push(globalId);
+  });
+  return { elements, missing };
+}
+
+/**
+ * Find one element by IFC GlobalId (first model containing it)
+ */
+export function findIfcElementByGlobalId(models: IfcModel[], globalId: string): IfcElementRef | null {
+  return findIfcElementsByGlobalId(models, [globalId]).elements[0] ?? null;
+}
+
+/**
+ * Get the IFC GlobalId of an element (undefined if unknown or not indexed)
+ */
+export function getIfcElementGlobalId(models: IfcModel[], { modelID, expressID }: IfcElementRef): string | undefined {
+  return models.find((model) => model.modelID === modelID)?.globalIds.byExpressID.get(expressID);
+}
+
+/**
+ * Select elements by IFC GlobalId
+ * @returns The elements found and the GlobalIds that are not in any model
+ */
+export function selectIfcElementsByGlobalId(
+  selection: IfcSelectionManager,
+  models: IfcModel[],
+  globalIds: string[],
+  mode: IfcSelectionMode = "replace",
+): IfcGlobalIdLookup {
+  const lookup = findIfcElementsByGlobalId(models, globalIds);
+  selection.select(lookup.elements, mode);
+  if (lookup.missing.length > 0) console.warn(`⚠ GlobalIds not found: ${lookup.missing.join(", ")}`);
+  return lookup;
+}
+
+/**
+ * Move the camera so the given elements fill the view, keeping the viewing direction
+ * @param margin Extra space around the elements, relative to their size
+ * @returns False if none of the elements has a mesh
+ */
+export function frameIfcElements(
+  camera: TargetCamera,
+  models: IfcModel[],
+  elements: IfcElementRef[],
+  margin = 0.2,
+): boolean {
+  const keys = new Set(elements.map(({ modelID, expressID }) => `${modelID}:${expressID}`));
+  const min = new Vector3(Infinity, Infinity, Infinity);
+  const max = new Vector3(-Infinity, -Infinity, -Infinity);
+  let count = 0;
+  models.forEach((model) =>
+    getIfcElementMeshes(model.meshes).forEach((element) => {
+      if (!keys.has(`${model.modelID}:${element.metadata.expressID}`)) return;
+      const box = getIfcElementBoundingBox(element);
+      min.minimizeInPlace(box.minimumWorld);
+      max.maximizeInPlace(box.maximumWorld);
+      count++;
+    }),
+  );
+  if (count === 0) return false;
+
+  // Distance at which a sphere around the box fits the vertical field of view
+  const center = min.add(max).scaleInPlace(0.5);
+  const radius = Math.max(max.subtract(min).length() / 2, 0.1) * (1 + margin);
+  const distance = radius / Math.sin(camera.fov / 2);
+
+  if (camera instanceof ArcRotateCamera) {
+    camera.setTarget(center, false, false, true);
+    camera.radius = distance;
+  } else {
+    const direction = camera.getTarget().subtract(camera.position).normalize();
+    camera.position.copyFrom(center.subtract(direction.scale(distance)));
+    camera.setTarget(center);
+  }
+  return true;
+}
+
+/**
+ * Frame elements by IFC GlobalId
+ * @returns The elements found and the GlobalIds that are not in any model
+ */
+export function frameIfcElementsByGlobalId(
+  camera: TargetCamera,
+  models: IfcModel[],
+  globalIds: string[],
+  margin?: number,
+): IfcGlobalIdLookup {
+  const lookup = findIfcElementsByGlobalId(models, globalIds);
+  frameIfcElements(camera, models, lookup.elements, margin);
+  return lookup;
+}
@@ -0,0 +1,255 @@
+import { Color3, Color4, HighlightLayer, Mesh, type AbstractMesh, type Scene } from "@babylonjs/core";
+import {
+  getIfcElementMeshes,
+  setIfcElementsGhosted,
+  getIfcElementAlpha,
+  needsIfcElementProxy,
+  createIfcElementProxies,
+  type IfcElementMesh,
+} from "./ifcElements";
+import { isIfcBatchMesh } from "./ifcBatching";
+
+/** How selected elements are highlighted */
+export type IfcHighlightMode = "overlay" | "outline" | "edges" | "ghost";
+
+/** Highlight style of each mode, plus the hover overlay */
+export interface IfcHighlightStyles {
+  overlay: { color: Color3; alpha: number };
+  /** Glow drawn around the selection by a HighlightLayer */
+  outline: { color: Color3; blurSize: number };
+  edges: { color: Color3; width: number };
+  /** Visibility of every unselected element */
+  ghost: { alpha: number };
+  hover: { color: Color3; alpha: number };
+}
+
+export interface IfcHighlighterOptions {
+  mode?: IfcHighlightMode;
+  styles?: { [K in keyof IfcHighlightStyles]?: Partial<IfcHighlightStyles[K]> };
+  /** Called after the mode or a style changes */
+  onChange?: () => void;
+}
+
+/**
+ * Highlights the selected elements in one of several modes, plus a hover overlay
+ * Instances and batched elements are highlighted through proxy meshes.
+ */
+export interface IfcHighlighter {
+  getMode(): IfcHighlightMode;
+  setMode(mode: IfcHighlightMode): void;
+  getStyles(): IfcHighlightStyles;
+  setStyle<K extends keyof IfcHighlightStyles>(mode: K, style: Partial<IfcHighlightStyles[K]>): void;
+  /** Replace the highlighted elements (several elements form a multiple selection) */
+  setSelection(elements: IfcElementMesh[]): void;
+  getSelection(): IfcElementMesh[];
+  /** Highlight the element under the cursor, or nothing; selected elements are not hovered */
+  setHovered(element: IfcElementMesh | null): void;
+  getHovered(): IfcElementMesh | null;
+  /** Clear the selection and the hover */
+  clear(): void;
+  dispose(): void;
+}
+
+/** Default highlight styles */
+export const DEFAULT_HIGHLIGHT_STYLES: IfcHighlightStyles = {
+  overlay: { color: Color3.Teal(), alpha: 0.3 },
+  outline: { color: new Color3(0, 1, 1), blurSize: 1 },
+  edges: { color: new Color3(0, 1, 1), width: 4 },
+  ghost: { alpha: 0.1 },
+  hover: { color: new Color3(1, 1, 0.5), alpha: 0.2 },
+};
+
+// Identify an element mesh: one mesh or instance, or one range of a batch
+function getElementKey({ mesh, metadata }: IfcElementMesh): string {
+  return `${mesh.uniqueId}:${metadata.expressID}`;
+}
+
+/**
+ * Create a highlighter over the meshes returned by getMeshes (used by the ghost mode)
+ */
+export function createHighlighter(
+  scene: Scene,
+  getMeshes: () => AbstractMesh[],
+  options: IfcHighlighterOptions = {},
+): IfcHighlighter {
+  const { onChange } = options;
+  let mode: IfcHighlightMode = options.mode ?? "overlay";
+  const styles: IfcHighlightStyles = {
+    overlay: { ...DEFAULT_HIGHLIGHT_STYLES.overlay, ...options.styles?.overlay },
+    outline: { ...DEFAULT_HIGHLIGHT_STYLES.outline, ...options.styles?.outline },
+    edges: { ...DEFAULT_HIGHLIGHT_STYLES.edges, ...options.styles?.edges },
+    ghost: { ...DEFAULT_HIGHLIGHT_STYLES.ghost, ...options.styles?.ghost },
+    hover: { ...DEFAULT_HIGHLIGHT_STYLES.hover, ...options.styles?.hover },
+  };
+
+  let selection: IfcElementMesh[] = [];
+  let hovered: IfcElementMesh | null = null;
+
+  // Meshes carrying the current effect: the element meshes themselves and proxies
+  let selectionMeshes: AbstractMesh[] = [];
+  let selectionProxies: Mesh[] = [];
+  // Elements ghosted by the ghost mode (elements ghosted elsewhere are left alone)
+  let ghostedElements: IfcElementMesh[] = [];
+  let hoverMesh: AbstractMesh | null = null;
+  let hoverProxies: Mesh[] = [];
+
+  // Created on first use of the outline mode
+  let highlightLayer: HighlightLayer | null = null;
+
+  // Plain meshes carry the effect themselves; instances and batch ranges get proxies
+  const getEffectTargets = (elements: IfcElementMesh[], suffix: string): [AbstractMesh[], Mesh[]] => {
+    const meshes = Array.from(
+      new Set(elements.filter((element) => !needsIfcElementProxy(element)).map(({ mesh }) => mesh)),
+    );
+    return [meshes, createIfcElementProxies(elements, suffix)];
+  };
+
+  const setOverlay = (mesh: AbstractMesh, style: { color: Color3; alpha: number } | null) => {
+    mesh.renderOverlay = style !== null;
+    if (style) {
+      mesh.overlayColor = style.color;
+      mesh.overlayAlpha = style.alpha;
+    }
+  };
+
+  const removeSelectionEffect = () => {
+    selectionMeshes.forEach((mesh) => {
+      setOverlay(mesh, null);
+      if (mesh.edgesRenderer) mesh.disableEdgesRendering();
+    });
+    highlightLayer?.removeAllMeshes();
+    selectionProxies.forEach((proxy) => proxy.dispose());
+    setIfcElementsGhosted(ghostedElements, null);
+
+    selectionMeshes = [];
+    selectionProxies = [];
+    ghostedElements = [];
+  };
+
+  const applySelectionEffect = () => {
+    if (selection.length === 0) return;
+
+    if (mode === "ghost") {
+      // Ghost everything else, still pickable for adding to the selection and hovering
+      // Instances share their source's visibility, so draw selected ones opaque on top
+      const selected = new Set(selection.map(getElementKey));
+      ghostedElements = getIfcElementMeshes(getMeshes()).filter(
+        (element) => !selected.has(getElementKey(element)) && getIfcElementAlpha(element) >= 1,
+      );
+      setIfcElementsGhosted(ghostedElements, styles.ghost.alpha, true);
+      selectionProxies = createIfcElementProxies(
+        selection.filter((element) => needsIfcElementProxy(element) && !isIfcBatchMesh(element.mesh)),
+        "highlight",
+      );
+      selectionProxies.forEach((proxy) => (proxy.visibility = 1));
+      return;
+    }
+
+    [selectionMeshes, selectionProxies] = getEffectTargets(selection, "highlight");
+    const targets = [...selectionMeshes, ...selectionProxies];
+
+    switch (mode) {
+      case "overlay":
+        targets.forEach((mesh) => setOverlay(mesh, styles.overlay));
+        break;
+      case "outline": {
+        if (!highlightLayer) highlightLayer = new HighlightLayer("ifc-highlight", scene);
+        highlightLayer.blurHorizontalSize = styles.outline.blurSize;
+        highlightLayer.blurVerticalSize = styles.outline.blurSize;
+        targets.forEach((mesh) => {
+          if (mesh instanceof Mesh) highlightLayer!.addMesh(mesh, styles.outline.color);
+        });
+        break;
+      }
+      case "edges": {
+        const color = Color4.FromColor3(styles.edges.color, 1);
+        targets.forEach((mesh) => {
+          mesh.enableEdgesRendering();
+          mesh.edgesWidth = styles.edges.width;
+          mesh.edgesColor = color;
+        });
+        break;
+      }
+    }
+  };
+
+  const removeHoverEffect = () => {
+    if (hoverMesh) setOverlay(hoverMesh, null);
+    hoverProxies.forEach((proxy) => proxy.dispose());
+    hoverMesh = null;
+    hoverProxies = [];
+  };
+
+  const applyHoverEffect = () => {
+    if (!hovered) return;
+    const key = getElementKey(hovered);
+    if (selection.some((element) => getElementKey(element) === key)) return;
+
+    if (needsIfcElementProxy(hovered)) {
+      hoverProxies = createIfcElementProxies([hovered], "hover");
+      hoverProxies.forEach((proxy) => setOverlay(proxy, styles.hover));
+    } else if (!selectionMeshes.includes(hovered.mesh)) {
+      hoverMesh = hovered.mesh;
+      setOverlay(hoverMesh, styles.hover);
+    }
+  };
+
+  // Rebuild both effects, e.g. after the mode or a style changed
+  const refresh = () => {
+    removeHoverEffect();
+    removeSelectionEffect();
+    applySelectionEffect();
+    applyHoverEffect();
+  };
+
+  return {
+    getMode: () => mode,
+
+    setMode(newMode) {
+      if (newMode === mode) return;
+      mode = newMode;
+      refresh();
+      onChange?.();
+    },
+
+    getStyles: () => styles,
+
+    setStyle(styleMode, style) {
+      Object.assign(styles[styleMode], style);
+      refresh();
+      onChange?.();
+    },
+
+    setSelection(elements) {
+      selection = [...elements];
+      refresh();
+    },
+
+    getSelection: () => [...selection],
+
+    setHovered(element) {
+      if (element && hovered && getElementKey(element) === getElementKey(hovered)) return;
+      if (!element && !hovered) return;
+      hovered = element;
+      removeHoverEffect();
+      applyHoverEffect();
+    },
+
+    getHovered: () => hovered,
+
+    clear() {
+      selection = [];
+      hovered = null;
+      refresh();
+    },
+
+    dispose() {
+      selection = [];
+      hovered = null;
+      removeHoverEffect();
+      removeSelectionEffect();
+      highlightLayer?.dispose();
+      highlightLayer = null;
+    },
+  };
+}
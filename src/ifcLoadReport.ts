@@ -0,0 +1,126 @@
+import * as WebIFC from "web-ifc";
+import type { IfcGeometryFailure } from "./ifcGeometry";
+import { getSpatialContext } from "./ifcSpatial";
+
+/** Element listed in a load report */
+export interface IfcReportElement {
+  expressID: number;
+  ifcTypeName: string;
+  name: string;
+  globalId: string;
+}
+
+/** Element whose geometry could not be tessellated */
+export interface IfcFailedElement extends IfcReportElement {
+  /** Error messages of its failed geometries */
+  messages: string[];
+}
+
+/**
+ * Problems found while loading a model
+ * The model is still usable; the report tells which elements are missing from the view and why.
+ */
+export interface IfcLoadReport {
+  /** Elements with at least one geometry web-ifc failed to tessellate */
+  failedElements: IfcFailedElement[];
+  /** Elements with a shape representation that produced no geometry */
+  elementsWithoutGeometry: IfcReportElement[];
+  /** Elements not contained in a site, building, storey or space, directly or through their parent */
+  uncontainedElements: IfcReportElement[];
+  /** Problems reading the file outside single elements, e.g. the spatial structure */
+  warnings: string[];
+}
+
+/** What the loader knows about a model once its geometry is built */
+export interface IfcLoadReportInput {
+  /** Elements that got a mesh or instance */
+  geometryIDs: Set<number>;
+  /** Storey of the elements with geometry (undefined if none) */
+  storeyIDs: Map<number, number | undefined>;
+  failures: IfcGeometryFailure[];
+  warnings: string[];
+}
+
+/**
+ * Check whether a load report lists anything
+ */
+export function isIfcLoadReportEmpty(report: IfcLoadReport): boolean {
+  return (
+    report.failedElements.length === 0 &&
+    report.elementsWithoutGeometry.length === 0 &&
+    report.uncontainedElements.length === 0 &&
+    report.warnings.length === 0
+  );
+}
+
+/**
+ * Collect the elements of a model that failed to load, have no geometry or no spatial container
+ * Openings and other subtraction features are skipped: they never have geometry of their own.
+ */
+export function buildIfcLoadReport(
+  ifcAPI: WebIFC.IfcAPI,
+  modelID: number,
+  input: IfcLoadReportInput,
+): IfcLoadReport {
+  const report: IfcLoadReport = {
+    failedElements: [],
+    elementsWithoutGeometry: [],
+    uncontainedElements: [],
+    warnings: [...input.warnings],
+  };
+
+  const getElement = (expressID: number, line = ifcAPI.GetLine(modelID, expressID)): IfcReportElement => ({
+    expressID,
+    ifcTypeName: ifcAPI.GetNameFromTypeCode(line.type),
+    name: line.Name?.value ?? "",
+    globalId: line.GlobalId?.value ?? "",
+  });
+
+  // Group geometry failures by element
+  const failed = new Map<number, IfcFailedElement>();
+  input.failures.forEach(({ expressID, message }) => {
+    let element = failed.get(expressID);
+    if (!element) {
+      try {
+        element = { ...getElement(expressID), messages: [] };
+      } catch (error) {
+        element = { expressID, ifcTypeName: "", name: "", globalId: "", messages: [] };
+      }
+      failed.set(expressID, element);
+    }
+    if (!element.messages.includes(message)) element.messages.push(message);
+  });
+  report.failedElements = Array.from(failed.values());
+
+  if (ifcAPI.GetLineIDsWithType(modelID, WebIFC.IFCPROJECT).size() === 0) {
+    report.warnings.push("The file has no IfcProject; it may be truncated");
+  }
+
+  try {
+    const toIDs = (type: number) => {
+      const ids = ifcAPI.GetLineIDsWithType(modelID, type, true);
+      return Array.from({ length: ids.size() }, (_, i) => ids.get(i));
+    };
+    const subtractions = new Set(toIDs(WebIFC.IFCFEATUREELEMENTSUBTRACTION));
+    const elementIDs = toIDs(WebIFC.IFCELEMENT).filter((expressID) => !subtractions.has(expressID));
+
+    elementIDs.forEach((expressID) => {
+      let line: any = null;
+      if (!input.geometryIDs.has(expressID) && !failed.has(expressID)) {
+        line = ifcAPI.GetLine(modelID, expressID);
+        if (line.Representation) report.elementsWithoutGeometry.push(getElement(expressID, line));
+      }
+
+      // Elements with geometry know their storey already; the others walk up the spatial structure
+      if (input.storeyIDs.get(expressID) !== undefined) return;
+      const { site, building, storey, space } = getSpatialContext(ifcAPI, modelID, expressID);
+      if (!site && !building && !storey && !space) {
+        report.uncontainedElements.push(getElement(expressID, line ?? undefined));
+      }
+    });
+  } catch (error) {
+    report.warnings.push(`Could not check elements for geometry and containment: ${error}`);
+  }
+
+  return report;
+}
@@ -2,6 +2,7 @@ import * as WebIFC from "web-ifc";
 import {
   Scene,
   Mesh,
+  InstancedMesh,
   VertexData,
   Matrix,
   AbstractMesh,
@@ -9,36 +10,157 @@ import {
   Vector3,
   Color3,
   StandardMaterial,
+  PBRMaterial,
+  Material,
+  Quaternion,
+  VertexBuffer,
 } from "@babylonjs/core";
-import { extractIfcMetadata } from "./ifcMetadata";
+import { extractIfcMetadata, clearPropertyIndex } from "./ifcMetadata";
+import { clearSpatialIndex, getSpatialContext } from "./ifcSpatial";
+import {
+  countIfcProducts,
+  extractGeometryParts,
+  getColorId,
+  getLoaderSettings,
+  type IfcColor,
+  type IfcGeometryFailure,
+  type IfcGeometryPart,
+} from "./ifcGeometry";
+import type { IfcGeometryWorker } from "./ifcWorkerLoader";
+import { buildIfcBatches, isIfcBatchMesh, type IfcBatchMode } from "./ifcBatching";
+import {
+  getIfcCacheKey,
+  packIfcGeometry,
+  unpackIfcCachedElements,
+  unpackIfcGeometryParts,
+  type IfcCachedElement,
+  type IfcCachedGeometry,
+  type IfcGeometryCache,
+} from "./ifcCache";
+import { checkIfcFileHeader, IfcLoadError, isOutOfMemoryError, toIfcLoadError } from "./ifcErrors";
+import { buildIfcLoadReport, isIfcLoadReportEmpty, type IfcLoadReport } from "./ifcLoadReport";
+import { getIfcGeoreference, type IfcGeoreference } from "./ifcGeoreference";
 
 // Interface for mesh with color information
 interface MeshWithColor {
   mesh: Mesh;
   colorId: number;
-  color: { x: number; y: number; z: number; w: number } | null;
+  color: IfcColor | null;
+}
+
+// Placement of a geometry as local position, rotation and scaling (instances cannot bake it)
+interface PartPlacement {
+  position: Vector3;
+  rotation: Quaternion;
+  scaling: Vector3;
+}
+
+// Repeated geometry (same geometryExpressID + color): the first placed copy and the later placements
+interface InstanceGroup {
+  source: MeshWithColor;
+  /** Placement of the source, baked if no copies follow */
+  sourceTransform: Matrix;
+  instances: { expressID: number; placement: PartPlacement }[];
+}
+
+/**
+ * Metadata stored on every IFC mesh (`mesh.metadata`)
+ * Batched meshes carry `IfcBatchMetadata` with one entry per element range instead.
+ */
+export interface IfcMeshMetadata {
+  expressID: number;
+  modelID: number;
+  /** IFC type code of the element (e.g. WebIFC.IFCWALL) */
+  ifcType: number;
+  /** IFC type name of the element (e.g. "IfcWall") */
+  ifcTypeName: string;
+  /** IFC GlobalId of the element; unlike expressID it is kept across re-exports ("" if missing) */
+  globalId: string;
+  /** expressID of the IfcBuildingStorey containing the element (undefined if not in a storey) */
+  storeyID?: number;
+}
+
+// Per-element fields of the mesh metadata read from the IFC file
+type IfcElementInfo = Pick<IfcMeshMetadata, "ifcType" | "ifcTypeName" | "globalId">;
+
+// State shared while parts are turned into meshes, on the main thread or from a worker
+interface MeshBuildContext {
+  ifcAPI: WebIFC.IfcAPI;
+  scene: Scene;
+  rootNode: TransformNode;
+  modelID: number;
+  options: IfcLoaderOptions;
+  stats: LoaderStats;
+  startTime: number;
+  // Track bounds for camera framing
+  boundsMin: { x: number; y: number; z: number };
+  boundsMax: { x: number; y: number; z: number };
+  // Collect all meshes with their color information
+  meshesWithColor: MeshWithColor[];
+  // Element type and GlobalId lookups, cached per expressID (elements have many parts)
+  elementInfos: Map<number, IfcElementInfo>;
+  // Storey of every element, resolved in finalizeIfcMeshes or read from the geometry cache
+  storeyIDs: Map<number, number | undefined>;
+  storeysCached: boolean;
+  // Unchanged copies of the streamed parts when the geometry will be cached
+  cacheParts: IfcGeometryPart[] | null;
+  // Problems for the load report
+  failures: IfcGeometryFailure[];
+  warnings: string[];
+  // Distinct (geometryExpressID + color) pairs, and repeated ones when instancing
+  geometryKeys: Set<string>;
+  instanceGroups: Map<string, InstanceGroup>;
+  reportProgress: (current: number, total: number, phase: IfcLoadPhase) => void;
+  // Let the page render and handle input about once a frame; throws if the load was aborted
+  checkpoint: () => Promise<void>;
 }
 
+/**
+ * Loader phase reported through onProgress
+ * "download" counts bytes (total 0 while unknown), "parse" goes from 0 to 1, "streaming" counts flat meshes
+ * against the product count (or cached parts), "storeys" and "merging" count mesh parts and merge groups.
+ */
+export type IfcLoadPhase = "download" | "parse" | "streaming" | "storeys" | "merging";
+
 // Configuration interface for better flexibility
 export interface IfcLoaderOptions {
-  /** Merge meshes with same material to reduce draw calls */
+  /** Merge parts of the same element and material to reduce draw calls (default true) */
   mergeMeshes?: boolean;
+  /**
+   * Render repeated geometry (same geometryExpressID + color) as instances of one source mesh (default false)
+   * Instances share material and ghosting alpha with their source; see `createIfcMeshProxy` for overlays.
+   */
+  instancing?: boolean;
+  /**
+   * Combine element meshes into one mesh per material, or per material and storey (default "none")
+   * Batched meshes keep an element range table; use src/ifcElements.ts for picking, hiding and ghosting.
+   */
+  batching?: IfcBatchMode;
   /** Generate smooth normals if missing */
   generateNormals?: boolean;
-  /** Use PBR materials for better rendering */
+  /** Use PBR materials instead of StandardMaterial (default false) */
   usePBR?: boolean;
   /** Coordinate to origin transformation */
   coordinateToOrigin?: boolean;
   /** Logging verbosity */
   verbose?: boolean;
-  /** Progress callback */
-  onProgress?: (current: number, total: number) => void;
-  /** Batch size for geometry processing */
+  /** Progress callback, called every `batchSize` items of a phase and once when the phase completes */
+  onProgress?: (current: number, total: number, phase: IfcLoadPhase) => void;
+  /**
+   * Abort the load; partial meshes and materials are disposed, the model is closed and the promise
+   * rejects with `signal.reason`. Main-thread geometry streaming cannot be interrupted, only the phases around it.
+   */
+  signal?: AbortSignal;
+  /** Number of streamed meshes / merge groups between two progress reports (default 100) */
   batchSize?: number;
-  /** Enable double-sided rendering */
+  /** Render both faces of every triangle (default true); false enables back-face culling */
   doubleSided?: boolean;
-  /** Maximum texture size for generated materials */
+  /** Maximum texture size for generated materials (reserved: IFC materials are currently color-only) */
   maxTextureSize?: number;
+  /** Run web-ifc tessellation in this Web Worker instead of on the main thread */
+  worker?: IfcGeometryWorker;
+  /** Persistent geometry cache; files loaded before are rebuilt from it without streaming geometry */
+  cache?: IfcGeometryCache;
 }
 
 // Statistics for performance monitoring
@@ -48,10 +170,55 @@ export interface LoaderStats {
   vertexCount: number;
   triangleCount: number;
   materialCount: number;
+  /** Distinct (geometryExpressID + color) pairs among all placed geometries */
+  uniqueGeometryCount: number;
+  /** Placed geometries rendered as instances instead of their own mesh */
+  instancedCount: number;
+  /** Batched meshes holding several elements */
+  batchCount: number;
+  /** Geometry was rebuilt from the geometry cache */
+  fromCache: boolean;
   loadTimeMs: number;
   memoryUsageMB?: number;
 }
 
+/**
+ * Handle for a single loaded IFC model.
+ * Each model owns its root node, meshes and materials so several models can share one scene.
+ */
+export interface IfcModel {
+  /** web-ifc model ID (valid until the model is disposed) */
+  modelID: number;
+  /** Display name (file name or URL) */
+  name: string;
+  /** Root transform node; all meshes of the model are parented to it */
+  rootNode: TransformNode;
+  meshes: AbstractMesh[];
+  materials: Material[];
+  stats: LoaderStats;
+  /** Matrix web-ifc applied to the geometry (column-major 4x4), e.g. the shift to the origin */
+  coordinationMatrix: number[];
+  /** Map conversion, CRS and site reference; see src/ifcGeoreference.ts for coordinate conversions */
+  georeference: IfcGeoreference;
+  /** GlobalId index of the elements with geometry, built while loading */
+  globalIds: IfcGlobalIdIndex;
+  /** Elements that failed to tessellate, have no geometry or no spatial container */
+  loadReport: IfcLoadReport;
+}
+
+/** GlobalId ↔ expressID lookups of a model's elements */
+export interface IfcGlobalIdIndex {
+  byGlobalId: Map<string, number>;
+  byExpressID: Map<number, string>;
+}
+
+/** Transform applied to a model's root node */
+export interface IfcModelTransform {
+  position?: Vector3;
+  rotation?: Vector3;
+  scaling?: Vector3;
+}
+
 /**
  * Initialize the web-ifc API
  * This should be called once at application startup
@@ -79,57 +246,113 @@ export async function initializeWebIFC(
   return ifcAPI;
 }
 
+/**
+ * Read a byte stream into one buffer, reporting the bytes received
+ * @param size Expected size in bytes (0 if unknown)
+ */
+async function readIfcStream(
+  stream: ReadableStream<Uint8Array>,
+  size: number,
+  options: IfcLoaderOptions,
+): Promise<ArrayBuffer> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    received += value.byteLength;
+    // Compressed responses report the compressed size, so the received bytes can exceed it
+    options.onProgress?.(received, size && Math.max(size, received), "download");
+
+    if (options.signal?.aborted) {
+      await reader.cancel();
+      options.signal.throwIfAborted();
+    }
+  }
+
+  const data = new Uint8Array(received);
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    data.set(chunk, offset);
+    offset += chunk.byteLength;
+  });
+  return data.buffer;
+}
+
 /**
  * Load an IFC file from a URL or File object with progress tracking
+ * @returns The opened modelID and the raw file bytes
  */
 async function loadIfcFile(
   ifcAPI: WebIFC.IfcAPI,
   source: string | File,
   options: IfcLoaderOptions = {},
-): Promise<number> {
+): Promise<{ modelID: number; data: ArrayBuffer }> {
   let data: ArrayBuffer;
 
   if (typeof source === "string") {
     console.log(`📥 Fetching IFC from URL: ${source}`);
-    const response = await fetch(source);
-    console.log(
-      `📥 Fetch response: status=${response.status}, ok=${response.ok}, type=${response.headers.get("content-type")}`,
-    );
+    try {
+      const response = await fetch(source, { signal: options.signal });
+      console.log(
+        `📥 Fetch response: status=${response.status}, ok=${response.ok}, type=${response.headers.get("content-type")}`,
+      );
+
+      if (!response.ok) {
+        throw new IfcLoadError("fetch", `Failed to fetch IFC file: HTTP ${response.status} ${response.statusText}`, {
+          status: response.status,
+        });
+      }
 
-    if (!response.ok) {
-      throw new Error(`Failed to fetch IFC file: HTTP ${response.status} ${response.statusText}`);
+      const size = Number(response.headers.get("content-length")) || 0;
+      data = response.body ? await readIfcStream(response.body, size, options) : await response.arrayBuffer();
+    } catch (error) {
+      if (error instanceof IfcLoadError || options.signal?.aborted) throw error;
+      throw new IfcLoadError("fetch", `Failed to fetch IFC file ${source}: ${error}`, { cause: error });
     }
-
-    data = await response.arrayBuffer();
     console.log(`📥 Received ${(data.byteLength / 1024 / 1024).toFixed(2)} MB`);
   } else {
     console.log(`📥 Loading IFC file: ${source.name} (${(source.size / 1024 / 1024).toFixed(2)} MB)`);
-    data = await source.arrayBuffer();
+    data = await readIfcStream(source.stream(), source.size, options);
   }
 
+  // Tell files of other formats and schemas apart from broken ones before parsing
+  checkIfcFileHeader(data);
+
   // Configure loader settings
-  const settings: WebIFC.LoaderSettings = {
-    COORDINATE_TO_ORIGIN: options.coordinateToOrigin ?? true,
-    CIRCLE_SEGMENTS: 24,
-    MEMORY_LIMIT: 2147483648,
-    TAPE_SIZE: 67108864,
-  };
+  const settings = getLoaderSettings(options.coordinateToOrigin ?? true);
+
+  // Parsing blocks the page; give it a frame to show the phase first
+  options.onProgress?.(0, 1, "parse");
+  await yieldToMainThread(16);
+  options.signal?.throwIfAborted();
 
   console.log(`📥 Opening IFC model (${(data.byteLength / 1024 / 1024).toFixed(2)} MB)...`);
-  const modelID = ifcAPI.OpenModel(new Uint8Array(data), settings);
+  let modelID: number;
+  try {
+    modelID = ifcAPI.OpenModel(new Uint8Array(data), settings);
+  } catch (error) {
+    if (isOutOfMemoryError(error)) throw toIfcLoadError(error);
+    throw new IfcLoadError("parse", `web-ifc could not parse the file: ${error}`, { cause: error });
+  }
   console.log(`📥 OpenModel returned modelID: ${modelID}`);
 
   if (modelID === -1) {
-    throw new Error("Failed to open IFC model");
+    throw new IfcLoadError("parse", "web-ifc could not open the file; it may be truncated or malformed");
   }
+  options.onProgress?.(1, 1, "parse");
 
-  return modelID;
+  return { modelID, data };
 }
 
 /**
  * Build storey map for spatial context checking
+ * @param warnings Receives the relationships that could not be read
  */
-function buildStoreyMap(ifcAPI: WebIFC.IfcAPI, modelID: number): Map<number, number> {
+function buildStoreyMap(ifcAPI: WebIFC.IfcAPI, modelID: number, warnings: string[]): Map<number, number> {
   const elementToStorey = new Map<number, number>();
 
   try {
@@ -176,11 +399,13 @@ function buildStoreyMap(ifcAPI: WebIFC.IfcAPI, modelID: number): Map<number, num
           }
         }
       } catch (error) {
-        // Skip errors for individual storeys
+        // Skip the storey, but keep the others
+        warnings.push(`Could not read the elements of storey #${storeyID}: ${error}`);
       }
     }
   } catch (error) {
     console.warn("Could not build storey map:", error);
+    warnings.push(`Could not build the storey map: ${error}`);
   }
 
   return elementToStorey;
@@ -207,170 +432,419 @@ function canMergeMeshes(meshes: Mesh[], elementToStorey: Map<number, number>): b
 }
 
 /**
- * Load IFC geometry and convert to Babylon.js meshes with intelligent merging
+ * Create the shared state for building meshes of one model
  */
-function loadIfcGeometryAsMeshes(
+function createMeshBuildContext(
   ifcAPI: WebIFC.IfcAPI,
-  modelID: number,
   scene: Scene,
-  options: IfcLoaderOptions = {},
-): { meshes: AbstractMesh[]; stats: LoaderStats } {
-  const startTime = performance.now();
-
-  // Create root transform node for better organization
-  const rootNode = new TransformNode("ifc-root", scene);
-
-  // Statistics
-  const stats: LoaderStats = {
-    originalMeshCount: 0,
-    mergedMeshCount: 0,
-    vertexCount: 0,
-    triangleCount: 0,
-    materialCount: 0,
-    loadTimeMs: 0,
+  rootNode: TransformNode,
+  modelID: number,
+  options: IfcLoaderOptions,
+): MeshBuildContext {
+  const batchSize = Math.max(1, options.batchSize ?? 100);
+  let lastYield = performance.now();
+
+  return {
+    ifcAPI,
+    scene,
+    rootNode,
+    modelID,
+    options,
+    // Statistics
+    stats: {
+      originalMeshCount: 0,
+      mergedMeshCount: 0,
+      vertexCount: 0,
+      triangleCount: 0,
+      materialCount: 0,
+      uniqueGeometryCount: 0,
+      instancedCount: 0,
+      batchCount: 0,
+      fromCache: false,
+      loadTimeMs: 0,
+    },
+    startTime: performance.now(),
+    boundsMin: { x: Infinity, y: Infinity, z: Infinity },
+    boundsMax: { x: -Infinity, y: -Infinity, z: -Infinity },
+    meshesWithColor: [],
+    elementInfos: new Map(),
+    storeyIDs: new Map(),
+    storeysCached: false,
+    cacheParts: options.cache ? [] : null,
+    failures: [],
+    warnings: [],
+    geometryKeys: new Set(),
+    instanceGroups: new Map(),
+    reportProgress: (current, total, phase) => {
+      if (options.onProgress && (current % batchSize === 0 || current === total)) {
+        options.onProgress(current, total, phase);
+      }
+    },
+    checkpoint: async () => {
+      options.signal?.throwIfAborted();
+      if (performance.now() - lastYield < 16) return;
+      await yieldToMainThread();
+      lastYield = performance.now();
+      options.signal?.throwIfAborted();
+    },
   };
+}
 
-  // Track bounds for camera framing
-  let boundsMin = { x: Infinity, y: Infinity, z: Infinity };
-  let boundsMax = { x: -Infinity, y: -Infinity, z: -Infinity };
+/**
+ * Get the IFC type and GlobalId of an element, cached per build
+ */
+function getElementInfo(context: MeshBuildContext, expressID: number): IfcElementInfo {
+  let info = context.elementInfos.get(expressID);
+  if (!info) {
+    const { ifcAPI, modelID } = context;
+    const ifcType = ifcAPI.GetLineType(modelID, expressID);
+    let globalId = "";
+    try {
+      globalId = ifcAPI.GetLine(modelID, expressID)?.GlobalId?.value ?? "";
+    } catch (error) {
+      console.warn(`Could not read the GlobalId of element ${expressID}:`, error);
+    }
+    info = { ifcType, ifcTypeName: ifcAPI.GetNameFromTypeCode(ifcType), globalId };
+    context.elementInfos.set(expressID, info);
+  }
+  return info;
+}
 
-  // Collect all meshes with their color information
-  const meshesWithColor: MeshWithColor[] = [];
+/**
+ * Split a placement matrix into position, rotation and scaling (null if it has shear)
+ */
+function decomposePlacement(matrix: Matrix): PartPlacement | null {
+  const placement: PartPlacement = { position: new Vector3(), rotation: new Quaternion(), scaling: new Vector3() };
+  if (!matrix.decompose(placement.scaling, placement.rotation, placement.position)) return null;
+
+  // decompose drops shear silently, so check that the parts rebuild the matrix
+  const rebuilt = Matrix.Compose(placement.scaling, placement.rotation, placement.position).m;
+  const tolerance = 1e-5 * Math.max(1, placement.position.length());
+  return matrix.m.every((value, i) => Math.abs(value - rebuilt[i]) <= tolerance) ? placement : null;
+}
 
-  // Stream all meshes
-  ifcAPI.StreamAllMeshes(modelID, (flatMesh: WebIFC.FlatMesh) => {
-    const placedGeometries = flatMesh.geometries;
+/**
+ * Create a Babylon.js mesh for one geometry part and bake its placement
+ * When instancing, repeated geometry only records its placement for an instance.
+ */
+function addGeometryPart(context: MeshBuildContext, part: IfcGeometryPart): void {
+  const { stats, boundsMin, boundsMax, options } = context;
+  const { positions, normals, indices, expressID } = part;
+
+  // Mesh building changes the arrays in place (normals, baked placements), so cache copies
+  context.cacheParts?.push({
+    ...part,
+    positions: positions.slice(),
+    normals: normals.slice(),
+    indices: indices.slice(),
+  });
 
-    for (let i = 0; i < placedGeometries.size(); i++) {
-      const placedGeometry = placedGeometries.get(i);
+  const colorId = getColorId(part.color);
+  const geometryKey = `${part.geometryExpressID}-${colorId}`;
+  context.geometryKeys.add(geometryKey);
+
+  stats.originalMeshCount++;
+  stats.vertexCount += positions.length / 3;
+  stats.triangleCount += indices.length / 3;
+
+  // Update bounds
+  for (let v = 0; v < positions.length; v += 3) {
+    const x = positions[v];
+    const y = positions[v + 1];
+    const z = positions[v + 2];
+    boundsMin.x = Math.min(boundsMin.x, x);
+    boundsMin.y = Math.min(boundsMin.y, y);
+    boundsMin.z = Math.min(boundsMin.z, z);
+    boundsMax.x = Math.max(boundsMax.x, x);
+    boundsMax.y = Math.max(boundsMax.y, y);
+    boundsMax.z = Math.max(boundsMax.z, z);
+  }
 
-      // Skip invalid geometries
-      if (!placedGeometry || placedGeometry.geometryExpressID === undefined) continue;
+  const transform = part.transform ? Matrix.FromArray(part.transform) : null;
+  const placement = options.instancing && transform ? decomposePlacement(transform) : null;
+  const instanceGroup = placement ? context.instanceGroups.get(geometryKey) : undefined;
+  if (placement && instanceGroup) {
+    instanceGroup.instances.push({ expressID, placement });
+    return;
+  }
 
-      // Get geometry data
-      const geometry = ifcAPI.GetGeometry(modelID, placedGeometry.geometryExpressID);
-      if (!geometry) continue;
+  // Generate normals if needed
+  if (options.generateNormals && normals.every((v) => v === 0)) {
+    const tempNormals: number[] = [];
+    VertexData.ComputeNormals(positions, indices, tempNormals);
+    for (let n = 0; n < tempNormals.length; n++) {
+      normals[n] = tempNormals[n];
+    }
+  }
 
-      try {
-        const verts = ifcAPI.GetVertexArray(geometry.GetVertexData(), geometry.GetVertexDataSize());
-        const indices = ifcAPI.GetIndexArray(geometry.GetIndexData(), geometry.GetIndexDataSize());
+  // Create mesh name (temporary, will be updated after merging)
+  const meshName = `ifc-${expressID}-part-${part.partIndex}`;
 
-        if (verts.length === 0 || indices.length === 0) {
-          (geometry as any)?.delete?.();
-          continue;
-        }
+  // Create mesh
+  const mesh = new Mesh(meshName, context.scene);
+  mesh.parent = context.rootNode;
 
-        stats.originalMeshCount++;
-        stats.vertexCount += verts.length / 6; // 6 components per vertex (pos + normal)
-        stats.triangleCount += indices.length / 3;
-
-        // Extract positions and normals
-        const numVertices = verts.length / 6;
-        const positions = new Float32Array(numVertices * 3);
-        const normals = new Float32Array(numVertices * 3);
-
-        for (let v = 0; v < numVertices; v++) {
-          positions[v * 3] = verts[v * 6];
-          positions[v * 3 + 1] = verts[v * 6 + 1];
-          positions[v * 3 + 2] = verts[v * 6 + 2];
-          normals[v * 3] = verts[v * 6 + 3];
-          normals[v * 3 + 1] = verts[v * 6 + 4];
-          normals[v * 3 + 2] = verts[v * 6 + 5];
-
-          // Update bounds
-          const x = verts[v * 6];
-          const y = verts[v * 6 + 1];
-          const z = verts[v * 6 + 2];
-          boundsMin.x = Math.min(boundsMin.x, x);
-          boundsMin.y = Math.min(boundsMin.y, y);
-          boundsMin.z = Math.min(boundsMin.z, z);
-          boundsMax.x = Math.max(boundsMax.x, x);
-          boundsMax.y = Math.max(boundsMax.y, y);
-          boundsMax.z = Math.max(boundsMax.z, z);
-        }
+  // Add metadata with expressID, modelID and IFC type
+  const metadata: IfcMeshMetadata = {
+    expressID: expressID,
+    modelID: context.modelID,
+    ...getElementInfo(context, expressID),
+  };
+  mesh.metadata = metadata;
+
+  // Apply vertex data
+  const vertexData = new VertexData();
+  vertexData.positions = positions;
+  vertexData.normals = normals;
+  vertexData.indices = indices;
+  vertexData.applyToMesh(mesh);
+
+  // Store mesh with color information
+  const item: MeshWithColor = {
+    mesh: mesh,
+    colorId,
+    color: part.color,
+  };
+  context.meshesWithColor.push(item);
+
+  // Apply transformation; a possible instance source keeps it until finalizeIfcMeshes
+  if (placement && transform) {
+    mesh.position.copyFrom(placement.position);
+    mesh.rotationQuaternion = placement.rotation;
+    mesh.scaling.copyFrom(placement.scaling);
+    context.instanceGroups.set(geometryKey, { source: item, sourceTransform: transform, instances: [] });
+  } else if (transform) {
+    mesh.bakeTransformIntoVertices(transform);
+  }
 
-        // Generate normals if needed
-        if (options.generateNormals && normals.every((v) => v === 0)) {
-          const tempNormals: number[] = [];
-          VertexData.ComputeNormals(Array.from(positions), Array.from(indices), tempNormals);
-          for (let n = 0; n < tempNormals.length; n++) {
-            normals[n] = tempNormals[n];
-          }
-        }
+  // Make mesh visible (no material assigned yet)
+  mesh.isVisible = true;
+}
 
-        // Get the expressID and color from the flatMesh
-        const expressID = flatMesh.expressID;
-        const color = placedGeometry.color;
-
-        // Calculate color ID
-        let colorId: number;
-        if (color) {
-          colorId =
-            Math.floor(color.x * 255) +
-            Math.floor(color.y * 255) * 256 +
-            Math.floor(color.z * 255) * 256 * 256 +
-            Math.floor(color.w * 255) * 256 * 256 * 256;
-        } else {
-          colorId = 0; // Default color
-        }
+// Meshes built from a model's geometry and the coordination matrix web-ifc applied to it
+type IfcGeometryResult = {
+  meshes: AbstractMesh[];
+  materials: Material[];
+  stats: LoaderStats;
+  globalIds: IfcGlobalIdIndex;
+  loadReport: IfcLoadReport;
+  coordinationMatrix: number[];
+  /** Packed geometry for the geometry cache, when one is used */
+  cacheEntry?: IfcCachedGeometry;
+};
 
-        // Create mesh name (temporary, will be updated after merging)
-        const meshName = `ifc-${expressID}-part-${i}`;
-
-        // Create mesh
-        const mesh = new Mesh(meshName, scene);
-        mesh.parent = rootNode;
-
-        // Add metadata with expressID and modelID
-        mesh.metadata = {
-          expressID: expressID,
-          modelID: modelID,
-        };
-
-        // Apply vertex data
-        const vertexData = new VertexData();
-        vertexData.positions = Array.from(positions);
-        vertexData.normals = Array.from(normals);
-        vertexData.indices = Array.from(indices);
-        vertexData.applyToMesh(mesh);
-
-        // Apply transformation
-        const transform = placedGeometry.flatTransformation;
-        if (transform && transform.length === 16) {
-          const matrix = Matrix.FromArray(transform);
-          mesh.bakeTransformIntoVertices(matrix);
-        }
+/**
+ * Pack the streamed parts and element data of a build for the geometry cache
+ */
+function packBuildContext(context: MeshBuildContext, coordinationMatrix: number[]): IfcCachedGeometry | undefined {
+  if (!context.cacheParts) return undefined;
+  const elements = new Map<number, IfcCachedElement>();
+  context.elementInfos.forEach(({ ifcType, globalId }, expressID) => {
+    elements.set(expressID, { ifcType, globalId, storeyID: context.storeyIDs.get(expressID) });
+  });
+  const { failures, warnings } = context;
+  return packIfcGeometry(context.cacheParts, elements, { coordinationMatrix, failures, warnings });
+}
 
-        // Make mesh visible (no material assigned yet)
-        mesh.isVisible = true;
+/**
+ * Load IFC geometry on the main thread and convert to Babylon.js meshes with intelligent merging
+ */
+async function loadIfcGeometryAsMeshes(
+  ifcAPI: WebIFC.IfcAPI,
+  modelID: number,
+  scene: Scene,
+  rootNode: TransformNode,
+  options: IfcLoaderOptions = {},
+): Promise<IfcGeometryResult> {
+  const context = createMeshBuildContext(ifcAPI, scene, rootNode, modelID, options);
 
-        // Store mesh with color information
-        meshesWithColor.push({
-          mesh: mesh,
-          colorId: colorId,
-          color: color,
-        });
+  // Stream all meshes; web-ifc streams synchronously, so an abort takes effect afterwards
+  const total = countIfcProducts(ifcAPI, modelID);
+  let meshCount = 0;
+  ifcAPI.StreamAllMeshes(modelID, (flatMesh: WebIFC.FlatMesh) => {
+    extractGeometryParts(ifcAPI, modelID, flatMesh, context.failures).forEach((part) => addGeometryPart(context, part));
+    context.reportProgress(++meshCount, total, "streaming");
+  });
+  // Products without geometry have no mesh
+  if (meshCount < total) context.reportProgress(total, total, "streaming");
+  options.signal?.throwIfAborted();
+
+  const coordinationMatrix = ifcAPI.GetCoordinationMatrix(modelID);
+  return {
+    ...(await finalizeIfcMeshes(ifcAPI, context)),
+    coordinationMatrix,
+    cacheEntry: packBuildContext(context, coordinationMatrix),
+  };
+}
 
-        // Clean up WASM memory
-        (geometry as any)?.delete?.();
-      } catch (error) {
-        console.error(`Error processing geometry:`, error);
-        (geometry as any)?.delete?.();
-      }
-    }
+/**
+ * Rebuild meshes from cached geometry; the model is only read for metadata
+ */
+async function loadIfcGeometryFromCache(
+  ifcAPI: WebIFC.IfcAPI,
+  geometry: IfcCachedGeometry,
+  modelID: number,
+  scene: Scene,
+  rootNode: TransformNode,
+  options: IfcLoaderOptions = {},
+): Promise<IfcGeometryResult> {
+  // The cache entry exists already, so do not copy the parts again
+  const context = createMeshBuildContext(ifcAPI, scene, rootNode, modelID, { ...options, cache: undefined });
+  context.stats.fromCache = true;
+
+  unpackIfcCachedElements(geometry).forEach(({ ifcType, globalId, storeyID }, expressID) => {
+    context.elementInfos.set(expressID, { ifcType, ifcTypeName: ifcAPI.GetNameFromTypeCode(ifcType), globalId });
+    context.storeyIDs.set(expressID, storeyID);
   });
+  context.storeysCached = true;
+  context.failures.push(...geometry.failures);
+  context.warnings.push(...geometry.warnings);
+
+  const parts = unpackIfcGeometryParts(geometry);
+  for (let index = 0; index < parts.length; index++) {
+    addGeometryPart(context, parts[index]);
+    context.reportProgress(index + 1, parts.length, "streaming");
+    await context.checkpoint();
+  }
+
+  return { ...(await finalizeIfcMeshes(ifcAPI, context)), coordinationMatrix: geometry.coordinationMatrix };
+}
+
+/**
+ * Wait for the next macrotask so the browser can render and handle input
+ */
+function yieldToMainThread(delayMs = 0): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, delayMs));
+}
+
+/**
+ * Load IFC geometry in a Web Worker and build Babylon.js meshes in small chunks on the main thread
+ * The model must also be open in `ifcAPI` (main thread) for storey lookups and metadata.
+ */
+async function loadIfcGeometryInWorker(
+  ifcAPI: WebIFC.IfcAPI,
+  worker: IfcGeometryWorker,
+  data: ArrayBuffer,
+  modelID: number,
+  scene: Scene,
+  rootNode: TransformNode,
+  options: IfcLoaderOptions = {},
+): Promise<IfcGeometryResult> {
+  const context = createMeshBuildContext(ifcAPI, scene, rootNode, modelID, options);
+  const batchSize = Math.max(1, options.batchSize ?? 100);
+  const settings = getLoaderSettings(options.coordinateToOrigin ?? true);
+
+  const queue: IfcGeometryPart[] = [];
+  let streamDone = false;
+  let streamError: unknown = null;
+  let coordinationMatrix: number[] = [];
+
+  // Worker streams parts while the main thread turns queued parts into meshes
+  const streamPromise = worker
+    .stream(data, settings, batchSize, (parts, current, total) => {
+      queue.push(...parts);
+      // The worker posts once per batch already
+      options.onProgress?.(current, total, "streaming");
+    })
+    .then((result) => {
+      coordinationMatrix = result.coordinationMatrix;
+      context.failures.push(...result.failures);
+    })
+    .catch((error) => {
+      streamError = error;
+    })
+    .finally(() => {
+      streamDone = true;
+    });
+
+  while (!streamError && (!streamDone || queue.length > 0)) {
+    const chunk = queue.splice(0, batchSize);
+    chunk.forEach((part) => addGeometryPart(context, part));
+
+    // Give the browser a frame between chunks; wait a little longer when the queue is empty
+    await yieldToMainThread(queue.length > 0 ? 0 : 16);
+    // Stopping the worker rejects the stream, which ends the loop
+    if (options.signal?.aborted && !streamDone) worker.cancel();
+  }
+
+  await streamPromise;
+  if (streamError) {
+    // Dispose meshes built so far; the caller owns the root node and the model
+    context.meshesWithColor.forEach((item) => item.mesh.dispose());
+    throw streamError;
+  }
+  options.signal?.throwIfAborted();
+
+  return {
+    ...(await finalizeIfcMeshes(ifcAPI, context)),
+    coordinationMatrix,
+    cacheEntry: packBuildContext(context, coordinationMatrix),
+  };
+}
+
+/**
+ * Group, merge and assign materials to the meshes collected in a build context
+ * Yields to the page between items; on abort the caller disposes the root node and the model's materials.
+ */
+async function finalizeIfcMeshes(
+  ifcAPI: WebIFC.IfcAPI,
+  context: MeshBuildContext,
+): Promise<Omit<IfcGeometryResult, "coordinationMatrix" | "cacheEntry">> {
+  const { scene, rootNode, modelID, options, stats, meshesWithColor, boundsMin, boundsMax, startTime } = context;
+  const reportProgress = context.reportProgress;
 
   console.log(`\n📦 Collected ${meshesWithColor.length} mesh parts`);
 
-  // Build storey map for spatial context
-  const elementToStorey = buildStoreyMap(ifcAPI, modelID);
-  console.log(`📍 Built storey map with ${elementToStorey.size} element-storey relationships`);
+  // Build storey map for spatial context; cached geometry comes with the storeys
+  const storeyCache = context.storeyIDs;
+  const elementToStorey = new Map<number, number>();
+  if (context.storeysCached) {
+    storeyCache.forEach((storeyID, expressID) => {
+      if (storeyID !== undefined) elementToStorey.set(expressID, storeyID);
+    });
+  } else {
+    buildStoreyMap(ifcAPI, modelID, context.warnings).forEach((storeyID, expressID) => elementToStorey.set(expressID, storeyID));
+    console.log(`📍 Built storey map with ${elementToStorey.size} element-storey relationships`);
+  }
+
+  // Record the storey on every part (merged meshes copy it); elements in spaces or
+  // parts of aggregates are not direct storey children, so walk up the spatial structure
+  const getStoreyID = (expressID: number): number | undefined => {
+    if (!storeyCache.has(expressID)) {
+      storeyCache.set(
+        expressID,
+        elementToStorey.get(expressID) ?? getSpatialContext(ifcAPI, modelID, expressID).storey?.expressID,
+      );
+    }
+    return storeyCache.get(expressID);
+  };
+  for (let index = 0; index < meshesWithColor.length; index++) {
+    const metadata = meshesWithColor[index].mesh.metadata as IfcMeshMetadata;
+    metadata.storeyID = getStoreyID(metadata.expressID);
+    reportProgress(index + 1, meshesWithColor.length, "storeys");
+    await context.checkpoint();
+  }
+
+  // Repeated geometries become instances of their first copy; single copies are baked and merged as usual
+  const instanceSources = new Set<Mesh>();
+  context.instanceGroups.forEach((group) => {
+    const mesh = group.source.mesh;
+    if (group.instances.length > 0) {
+      instanceSources.add(mesh);
+      return;
+    }
+    mesh.position.setAll(0);
+    mesh.rotationQuaternion = null;
+    mesh.scaling.setAll(1);
+    mesh.bakeTransformIntoVertices(group.sourceTransform);
+  });
 
   // Step 1: Group by (expressID + colorId)
   const groupKey = (expressID: number, colorId: number) => `${expressID}-${colorId}`;
   const meshGroups = new Map<string, MeshWithColor[]>();
 
   meshesWithColor.forEach((item) => {
+    if (instanceSources.has(item.mesh)) return;
     const expressID = item.mesh.metadata!.expressID;
     const key = groupKey(expressID, item.colorId);
 
@@ -383,45 +857,61 @@ function loadIfcGeometryAsMeshes(
   console.log(`🔗 Grouped into ${meshGroups.size} unique (expressID + material) combinations`);
 
   // Step 2: Create materials and merge groups with safety checks
-  const materialCache = new Map<number, StandardMaterial>();
-  const finalMeshes: AbstractMesh[] = [];
+  const materialCache = new Map<number, Material>();
+  let finalMeshes: AbstractMesh[] = [];
   let mergedCount = 0;
   let skippedCount = 0;
   let materialZOffset = 0; // Counter for z-offset to prevent z-fighting
 
   // Helper function to get or create material
-  const getMaterial = (
-    colorId: number,
-    color: { x: number; y: number; z: number; w: number } | null,
-  ): StandardMaterial => {
+  const doubleSided = options.doubleSided ?? true;
+
+  const getMaterial = (colorId: number, color: IfcColor | null): Material => {
     if (materialCache.has(colorId)) {
       return materialCache.get(colorId)!;
     }
 
-    const material = new StandardMaterial(`ifc-material-${colorId}`, scene);
-
-    if (color) {
-      material.diffuseColor = new Color3(color.x, color.y, color.z);
-      material.alpha = color.w;
+    const name = `ifc-material-${modelID}-${colorId}`;
+    // Default gray color
+    const baseColor = color ? new Color3(color.x, color.y, color.z) : new Color3(0.8, 0.8, 0.8);
+    const alpha = color ? color.w : 1;
+
+    let material: Material;
+    if (options.usePBR) {
+      const pbr = new PBRMaterial(name, scene);
+      pbr.albedoColor = baseColor;
+      pbr.alpha = alpha;
+      // IFC colors describe dielectric building materials: non-metallic, fairly rough;
+      // transparent surfaces are usually glazing, so keep them smooth
+      pbr.metallic = 0;
+      pbr.roughness = alpha < 1 ? 0.1 : 0.8;
+      pbr.twoSidedLighting = doubleSided;
+      material = pbr;
     } else {
-      // Default gray color
-      material.diffuseColor = new Color3(0.8, 0.8, 0.8);
+      const standard = new StandardMaterial(name, scene);
+      standard.diffuseColor = baseColor;
+      standard.alpha = alpha;
+      material = standard;
     }
 
     // Add z-offset to prevent z-fighting between overlapping surfaces
     material.zOffset = materialZOffset;
     materialZOffset += 0.1; // Increment for next material
 
-    // Enable backface culling for better performance
-    material.backFaceCulling = false;
+    // Cull back faces only when single-sided rendering is requested
+    material.backFaceCulling = !doubleSided;
 
     materialCache.set(colorId, material);
     return material;
   };
 
-  meshGroups.forEach((group) => {
+  const mergeMeshes = options.mergeMeshes ?? true;
+  let groupIndex = 0;
+
+  for (const group of meshGroups.values()) {
     const meshes = group.map((item) => item.mesh);
-    const expressID = meshes[0].metadata!.expressID;
+    const metadata: IfcMeshMetadata = meshes[0].metadata;
+    const expressID = metadata.expressID;
     const colorId = group[0].colorId;
     const color = group[0].color;
 
@@ -434,6 +924,12 @@ function loadIfcGeometryAsMeshes(
       mesh.name = `ifc-${expressID}`;
       mesh.material = material; // Assign material
       finalMeshes.push(mesh);
+    } else if (!mergeMeshes) {
+      // Merging disabled - keep one mesh per placed geometry
+      meshes.forEach((mesh) => {
+        mesh.material = material; // Assign material
+        finalMeshes.push(mesh);
+      });
     } else {
       // Multiple meshes - check if we can merge
       const canMerge = canMergeMeshes(meshes, elementToStorey);
@@ -457,10 +953,7 @@ function loadIfcGeometryAsMeshes(
           mergedMesh.material = material; // Assign material AFTER merging
 
           // PRESERVE SEMANTIC IDENTITY - copy metadata from first mesh
-          mergedMesh.metadata = {
-            expressID: expressID,
-            modelID: modelID,
-          };
+          mergedMesh.metadata = { ...metadata };
 
           mergedMesh.isVisible = true;
           finalMeshes.push(mergedMesh);
@@ -487,18 +980,65 @@ function loadIfcGeometryAsMeshes(
         console.log(`  ⚠ Skipped merging ${meshes.length} parts for expressID ${expressID} (different storeys)`);
       }
     }
+
+    reportProgress(++groupIndex, meshGroups.size, "merging");
+    await context.checkpoint();
+  }
+
+  // Step 3: Combine element meshes into batches per material (and storey), with a range table per batch
+  const batching = options.batching ?? "none";
+  if (batching !== "none") {
+    const elementMeshCount = finalMeshes.length;
+    finalMeshes = buildIfcBatches(finalMeshes as Mesh[], batching, modelID, rootNode);
+    stats.batchCount = finalMeshes.filter((mesh) => isIfcBatchMesh(mesh)).length;
+    console.log(`🧱 Batched ${elementMeshCount} element meshes into ${finalMeshes.length} meshes (${batching})`);
+  }
+
+  // Step 4: Instances share the material of their source mesh
+  context.instanceGroups.forEach((group) => {
+    if (group.instances.length === 0) return;
+
+    const source = group.source.mesh;
+    source.name = `ifc-${source.metadata.expressID}`;
+    source.material = getMaterial(group.source.colorId, group.source.color);
+    // Placed meshes need their world matrix before the first frame for bounds and camera framing
+    source.computeWorldMatrix(true);
+    finalMeshes.push(source);
+
+    group.instances.forEach(({ expressID, placement }) => {
+      const instance = source.createInstance(`ifc-${expressID}`);
+      instance.parent = rootNode;
+      instance.position.copyFrom(placement.position);
+      instance.rotationQuaternion = placement.rotation;
+      instance.scaling.copyFrom(placement.scaling);
+
+      const metadata: IfcMeshMetadata = {
+        expressID,
+        modelID,
+        ...getElementInfo(context, expressID),
+        storeyID: getStoreyID(expressID),
+      };
+      instance.metadata = metadata;
+      instance.computeWorldMatrix(true);
+      finalMeshes.push(instance);
+      stats.instancedCount++;
+    });
   });
 
   console.log(`\n✅ Merging complete:`);
   console.log(`  Original parts: ${meshesWithColor.length}`);
   console.log(`  Merged groups: ${mergedCount}`);
   console.log(`  Skipped groups: ${skippedCount}`);
+  if (instanceSources.size > 0) {
+    console.log(`  Instanced parts: ${stats.instancedCount} (${instanceSources.size} repeated geometries)`);
+  }
   console.log(`  Final meshes: ${finalMeshes.length}`);
   console.log(`  Materials created: ${materialCache.size}`);
 
   // Update stats
   stats.mergedMeshCount = finalMeshes.length;
   stats.materialCount = materialCache.size;
+  stats.uniqueGeometryCount = context.geometryKeys.size;
 
   // Calculate bounds center
   const bounds = {
@@ -517,6 +1057,7 @@ function loadIfcGeometryAsMeshes(
     console.log(`\n📊 Loading Statistics:`);
     console.log(`  Original parts: ${stats.originalMeshCount}`);
     console.log(`  Final meshes: ${stats.mergedMeshCount}`);
+    console.log(`  Unique geometries: ${stats.uniqueGeometryCount} (${stats.instancedCount} instanced parts)`);
     console.log(`  Vertices: ${stats.vertexCount.toLocaleString()}`);
     console.log(`  Triangles: ${stats.triangleCount.toLocaleString()}`);
     console.log(`  Load time: ${stats.loadTimeMs.toFixed(2)}ms`);
@@ -527,19 +1068,45 @@ function loadIfcGeometryAsMeshes(
     );
   }
 
-  return { meshes: finalMeshes, stats };
+  // Index the GlobalIds of every element that got a mesh or instance
+  const globalIds: IfcGlobalIdIndex = { byGlobalId: new Map(), byExpressID: new Map() };
+  context.elementInfos.forEach(({ globalId }, expressID) => {
+    if (!globalId) return;
+    if (globalIds.byGlobalId.has(globalId)) {
+      console.warn(`⚠ GlobalId ${globalId} is used by #${globalIds.byGlobalId.get(globalId)} and #${expressID}`);
+    }
+    globalIds.byGlobalId.set(globalId, expressID);
+    globalIds.byExpressID.set(expressID, globalId);
+  });
+  console.log(`🆔 Indexed ${globalIds.byGlobalId.size} GlobalIds`);
+
+  const loadReport = buildIfcLoadReport(ifcAPI, modelID, {
+    geometryIDs: new Set(context.elementInfos.keys()),
+    storeyIDs: context.storeyIDs,
+    failures: context.failures,
+    warnings: context.warnings,
+  });
+  if (!isIfcLoadReportEmpty(loadReport)) {
+    console.log(
+      `🩺 Load report: ${loadReport.failedElements.length} failed, ` +
+        `${loadReport.elementsWithoutGeometry.length} without geometry, ` +
+        `${loadReport.uncontainedElements.length} not in a spatial structure, ${loadReport.warnings.length} warnings`,
+    );
+  }
+
+  return { meshes: finalMeshes, materials: Array.from(materialCache.values()), stats, globalIds, loadReport };
 }
 
 /**
  * Load and render an IFC file in a Babylon.js scene
- * @returns Object containing meshes and statistics
+ * @returns Model handle owning the meshes, materials and root node of the loaded file
  */
 export async function loadAndRenderIfc(
   ifcAPI: WebIFC.IfcAPI,
   source: string | File,
   scene: Scene,
   options: IfcLoaderOptions = {},
-): Promise<{ meshes: AbstractMesh[]; stats: LoaderStats; modelID: number }> {
+): Promise<IfcModel> {
   const startTime = performance.now();
 
   // Set defaults
@@ -552,7 +1119,7 @@ export async function loadAndRenderIfc(
 
   try {
     // Load the IFC file
-    const modelID = await loadIfcFile(ifcAPI, source, opts);
+    const { modelID, data } = await loadIfcFile(ifcAPI, source, opts);
 
     // Extract and display metadata
     if (opts.verbose) {
@@ -563,19 +1130,87 @@ export async function loadAndRenderIfc(
       console.log(`  Software: ${metadata.software || "N/A"}`);
       console.log(`  Author: ${metadata.author || "N/A"}`);
       console.log(`  Organization: ${metadata.organization || "N/A"}`);
+      console.log(`  Schema: ${metadata.schema || "N/A"}`);
     }
 
-    // Load geometry and create meshes
-    const { meshes, stats } = loadIfcGeometryAsMeshes(ifcAPI, modelID, scene, opts);
+    // Create a root node owned by this model so several models can coexist in one scene
+    const rootNode = new TransformNode(`ifc-root-${modelID}`, scene);
+    rootNode.metadata = { modelID };
+
+    // Look up the file in the geometry cache; hash before the worker takes over the bytes
+    let cacheKey: string | null = null;
+    let cached: IfcCachedGeometry | null = null;
+    if (opts.cache) {
+      try {
+        cacheKey = await getIfcCacheKey(data, opts.coordinateToOrigin ?? true, String(ifcAPI.GetVersion()));
+        cached = await opts.cache.get(cacheKey);
+      } catch (error) {
+        console.warn("⚠ Geometry cache unavailable:", error);
+      }
+    }
+
+    // Load geometry and create meshes, from the cache or in a worker if one was provided
+    let result: IfcGeometryResult;
+    try {
+      opts.signal?.throwIfAborted();
+      if (cached) {
+        console.log("⚡ Rebuilding geometry from the cache");
+        result = await loadIfcGeometryFromCache(ifcAPI, cached, modelID, scene, rootNode, opts);
+      } else if (opts.worker) {
+        result = await loadIfcGeometryInWorker(ifcAPI, opts.worker, data, modelID, scene, rootNode, opts);
+      } else {
+        result = await loadIfcGeometryAsMeshes(ifcAPI, modelID, scene, rootNode, opts);
+      }
+    } catch (error) {
+      // Cancelled or failed: drop partial meshes and materials and free the main-thread model
+      rootNode.dispose();
+      scene.materials
+        .filter((material) => material.name.startsWith(`ifc-material-${modelID}-`))
+        .forEach((material) => material.dispose());
+      cleanupIfcModel(ifcAPI, modelID);
+      // A stopped worker rejects with its own error; report the abort instead
+      throw opts.signal?.aborted ? opts.signal.reason : toIfcLoadError(error);
+    }
+    const { meshes, materials, stats, globalIds, loadReport, coordinationMatrix, cacheEntry } = result;
 
     const totalTime = performance.now() - startTime;
 
     console.log(`\n✓ IFC loaded successfully in ${totalTime.toFixed(2)}ms`);
     console.log(`  ${meshes.length} meshes, ${stats.triangleCount.toLocaleString()} triangles`);
 
-    return { meshes, stats, modelID };
+    const name = typeof source === "string" ? source : source.name;
+
+    // Store in the background; the model is usable without the cache
+    if (opts.cache && cacheKey && cacheEntry) {
+      opts.cache.put(cacheKey, name, cacheEntry).catch((error) => console.warn("⚠ Could not cache the geometry:", error));
+    }
+    // Map coordinates keep the true position the shift to the origin removed
+    const georeference = await getIfcGeoreference(ifcAPI, modelID);
+    if (georeference.mapConversion) {
+      const { eastings, northings, orthogonalHeight } = georeference.mapConversion;
+      console.log(
+        `🌐 Georeferenced in ${georeference.crs?.name || "an unnamed CRS"}: origin at E ${eastings}, N ${northings}, H ${orthogonalHeight}`,
+      );
+    }
+
+    return {
+      modelID,
+      name,
+      rootNode,
+      meshes,
+      materials,
+      stats,
+      coordinationMatrix,
+      georeference,
+      globalIds,
+      loadReport,
+    };
   } catch (error) {
-    console.error("❌ Failed to load IFC:", error);
+    if (opts.signal?.aborted) {
+      console.log("⏹ IFC loading cancelled");
+    } else {
+      console.error("❌ Failed to load IFC:", error);
+    }
     throw error;
   }
 }
@@ -584,6 +1219,9 @@ export async function loadAndRenderIfc(
  * Clean up IFC model and free memory
  */
 export function cleanupIfcModel(ifcAPI: WebIFC.IfcAPI, modelID: number): void {
+  clearPropertyIndex(modelID);
+  clearSpatialIndex(modelID);
+
   if (ifcAPI.IsModelOpen(modelID)) {
     ifcAPI.CloseModel(modelID);
     console.log(`✓ Model ${modelID} closed and memory freed`);
@@ -591,7 +1229,57 @@ export function cleanupIfcModel(ifcAPI: WebIFC.IfcAPI, modelID: number): void {
 }
 
 /**
- * Dispose all meshes, materials, and the root node
+ * Dispose a single model: its meshes, materials and root node, then close it in web-ifc
+ */
+export function disposeIfcModel(ifcAPI: WebIFC.IfcAPI, model: IfcModel): void {
+  // Disposing the root node disposes all child meshes
+  model.rootNode.dispose();
+  model.materials.forEach((material) => material.dispose());
+  console.log(`✓ Model ${model.modelID} (${model.name}): ${model.meshes.length} meshes and ${model.materials.length} materials disposed`);
+
+  model.meshes = [];
+  model.materials = [];
+
+  cleanupIfcModel(ifcAPI, model.modelID);
+}
+
+/**
+ * Show or hide all meshes of a model
+ */
+export function setIfcModelVisible(model: IfcModel, visible: boolean): void {
+  model.rootNode.setEnabled(visible);
+}
+
+/**
+ * Check whether a model is currently shown
+ */
+export function isIfcModelVisible(model: IfcModel): boolean {
+  return model.rootNode.isEnabled(false);
+}
+
+/**
+ * Move, rotate or scale a whole model through its root node
+ */
+export function setIfcModelTransform(model: IfcModel, transform: IfcModelTransform): void {
+  if (transform.position) {
+    model.rootNode.position.copyFrom(transform.position);
+  }
+  if (transform.rotation) {
+    model.rootNode.rotationQuaternion = null;
+    model.rootNode.rotation.copyFrom(transform.rotation);
+  }
+  if (transform.scaling) {
+    model.rootNode.scaling.copyFrom(transform.scaling);
+  }
+
+  // Refresh world matrices so bounds are correct before the next frame
+  model.rootNode.computeWorldMatrix(true);
+  model.meshes.forEach((mesh) => mesh.computeWorldMatrix(true));
+}
+
+/**
+ * Dispose every IFC model in the scene: all IFC root nodes and IFC materials
+ * Prefer disposeIfcModel when only one model should be removed
  */
 export function disposeIfcScene(scene: Scene): void {
   // Dispose all IFC materials
@@ -603,12 +1291,12 @@ export function disposeIfcScene(scene: Scene): void {
     }
   });
 
-  // Find and dispose the ifc-root node (this will dispose all child meshes)
-  const rootNode = scene.getTransformNodeByName("ifc-root");
-  if (rootNode) {
+  // Find and dispose every ifc-root node (this will dispose all child meshes)
+  const rootNodes = scene.transformNodes.filter((node) => node.name.startsWith("ifc-root"));
+  rootNodes.forEach((rootNode) => {
     rootNode.dispose();
-    console.log(`✓ ifc-root node and all child meshes disposed`);
-  }
+    console.log(`✓ ${rootNode.name} node and all child meshes disposed`);
+  });
 
   if (materialCount > 0) {
     console.log(`✓ ${materialCount} IFC materials disposed`);
@@ -655,3 +1343,33 @@ export function getModelBounds(meshes: AbstractMesh[]): {
 
   return { min, max, center, size, diagonal };
 }
+
+/**
+ * Create a mesh sharing the vertex buffers of an IFC mesh or instance, placed on top of it
+ * Instances take material, visibility and overlay from their source mesh, so per-element
+ * effects (section caps, highlights) go on a proxy instead. Proxies carry no IFC metadata.
+ */
+export function createIfcMeshProxy(mesh: Mesh | InstancedMesh, name: string): Mesh {
+  let proxy: Mesh;
+  if (mesh instanceof InstancedMesh) {
+    // Child of the instance with an identity transform, so it follows the instance
+    proxy = mesh.sourceMesh.clone(name, mesh, true);
+    proxy.position.setAll(0);
+    proxy.rotationQuaternion = null;
+    proxy.rotation.setAll(0);
+    proxy.scaling.setAll(1);
+  } else {
+    proxy = mesh.clone(name, mesh.parent, true);
+  }
+
+  // Per-instance colour (colour-by) of the element; clones do not copy instanced buffers
+  const color = mesh.instancedBuffers?.[VertexBuffer.ColorKind];
+  if (color) {
+    proxy.registerInstancedBuffer(VertexBuffer.ColorKind, 4);
+    proxy.instancedBuffers[VertexBuffer.ColorKind] = color;
+  }
+
+  proxy.metadata = null;
+  proxy.isPickable = false;
+  return proxy;
+}
@@ -0,0 +1,556 @@
+import type * as WebIFC from "web-ifc";
+import {
+  Scene,
+  Mesh,
+  MeshBuilder,
+  StandardMaterial,
+  Color3,
+  Matrix,
+  Vector3,
+  VertexBuffer,
+  UtilityLayerRenderer,
+  type AbstractMesh,
+  type PickingInfo,
+  type LinesMesh,
+  type Observer,
+} from "@babylonjs/core";
+import type { IfcMeshMetadata } from "./ifcLoader";
+import { getPickedIfcElement } from "./ifcElements";
+import { getProjectUnits, getElementProperties, getUnit } from "./ifcMetadata";
+import {
+  findUnit,
+  getLengthUnitScale,
+  getUnitSymbol,
+  getUnitTypeForQuantity,
+  type IfcUnitInfo,
+} from "./ifcUnits";
+
+type Vec3 = [number, number, number];
+
+/** Measurement kinds offered by the measure tool */
+export type IfcMeasurementKind = "distance" | "area" | "angle" | "faceDistance" | "quantities";
+
+/** What a picked point snapped to */
+export type IfcSnapKind = "vertex" | "edge" | "face";
+
+/** Picked point after snapping to the mesh under the cursor */
+export interface IfcSnapResult {
+  point: Vector3;
+  /** World-space face normal at the picked triangle */
+  normal: Vector3;
+  snap: IfcSnapKind;
+  mesh: AbstractMesh;
+  /** Picked IFC element (resolved from the face for batched meshes), if any */
+  element: IfcMeshMetadata | null;
+}
+
+/** A finished measurement (JSON-serializable) */
+export interface IfcMeasurement {
+  id: number;
+  kind: IfcMeasurementKind;
+  /** Picked points in scene coordinates (metres) */
+  points: Vec3[];
+  /** Value in `unit` (length unit, its square, or degrees); null for element quantities */
+  value: number | null;
+  unit: string;
+  label: string;
+  /** Element of a quantities annotation */
+  element?: { modelID: number; expressID: number };
+}
+
+/**
+ * Measure tool: snapped picking, 3D annotations with labels, listing and JSON export
+ */
+export interface IfcMeasureTool {
+  /** Start a new measurement; clicks are then routed through handlePick() */
+  start(kind: IfcMeasurementKind): void;
+  /** Abort the measurement in progress */
+  cancel(): void;
+  /** Kind of the measurement in progress, or null */
+  getActiveKind(): IfcMeasurementKind | null;
+  /** Number of points picked for the measurement in progress */
+  getActivePointCount(): number;
+  /** Add a point at screen coordinates; returns false if nothing was hit */
+  handlePick(x: number, y: number): boolean;
+  /** Close the area polygon in progress (needs at least three points) */
+  finish(): boolean;
+  getMeasurements(): IfcMeasurement[];
+  deleteMeasurement(id: number): void;
+  clear(): void;
+  /** Use the project length unit of a model for new measurements */
+  useProjectUnits(modelID: number): Promise<void>;
+  /** Length unit symbol used for new measurements */
+  getLengthUnitSymbol(): string;
+  /** Measurements as a JSON document */
+  exportJson(): string;
+  dispose(): void;
+}
+
+export interface IfcMeasureToolOptions {
+  /** Pick function (default scene.pick); pass the section tool's pick to skip cut-away geometry */
+  pick?: (x: number, y: number) => PickingInfo | null;
+  /** Snap radius as a fraction of the camera distance to the picked point (default 0.02) */
+  snapFactor?: number;
+  /** Called after measurements are added or removed, or the active measurement changes */
+  onChange?: () => void;
+}
+
+// Points needed to complete each kind (area is finished explicitly)
+const REQUIRED_POINTS: Record<IfcMeasurementKind, number> = {
+  distance: 2,
+  area: Infinity,
+  angle: 3,
+  faceDistance: 2,
+  quantities: 1,
+};
+
+const MEASURE_COLOR = new Color3(1, 0.8, 0.1);
+
+const SNAP_COLORS: Record<IfcSnapKind, Color3> = {
+  vertex: new Color3(0.2, 1, 0.3),
+  edge: new Color3(0.2, 0.7, 1),
+  face: new Color3(1, 1, 1),
+};
+
+const toVec3 = (vector: Vector3): Vec3 => [vector.x, vector.y, vector.z];
+
+/**
+ * Closest point to `point` on the segment a–b
+ */
+function closestPointOnSegment(point: Vector3, a: Vector3, b: Vector3): Vector3 {
+  const ab = b.subtract(a);
+  const lengthSquared = ab.lengthSquared();
+  if (lengthSquared === 0) return a.clone();
+  const t = Math.min(1, Math.max(0, Vector3.Dot(point.subtract(a), ab) / lengthSquared));
+  return a.add(ab.scale(t));
+}
+
+/**
+ * Snap a pick to the nearest vertex or edge of the picked triangle, or keep the face point
+ * @param radius Snap distance in scene units
+ */
+export function snapPick(pickInfo: PickingInfo, radius: number): IfcSnapResult | null {
+  const mesh = pickInfo.pickedMesh;
+  if (!pickInfo.hit || !pickInfo.pickedPoint || !mesh) return null;
+
+  const point = pickInfo.pickedPoint.clone();
+  const normal = pickInfo.getNormal(true, false) ?? Vector3.Up();
+  const element = getPickedIfcElement(pickInfo)?.metadata ?? null;
+
+  const indices = mesh.getIndices();
+  const positions = mesh.getVerticesData(VertexBuffer.PositionKind);
+  if (!indices || !positions || pickInfo.faceId < 0) {
+    return { point, normal, snap: "face", mesh, element };
+  }
+
+  const world = mesh.getWorldMatrix();
+  const corners = [0, 1, 2].map((corner) => {
+    const index = indices[pickInfo.faceId * 3 + corner];
+    return Vector3.TransformCoordinates(Vector3.FromArray(positions, index * 3), world);
+  });
+
+  const nearestVertex = corners.reduce((best, corner) =>
+    Vector3.Distance(corner, point) < Vector3.Distance(best, point) ? corner : best,
+  );
+  if (Vector3.Distance(nearestVertex, point) <= radius) {
+    return { point: nearestVertex, normal, snap: "vertex", mesh, element };
+  }
+
+  const nearestEdgePoint = [0, 1, 2]
+    .map((corner) => closestPointOnSegment(point, corners[corner], corners[(corner + 1) % 3]))
+    .reduce((best, candidate) => (Vector3.Distance(candidate, point) < Vector3.Distance(best, point) ? candidate : best));
+  if (Vector3.Distance(nearestEdgePoint, point) <= radius) {
+    return { point: nearestEdgePoint, normal, snap: "edge", mesh, element };
+  }
+
+  return { point, normal, snap: "face", mesh, element };
+}
+
+/**
+ * Area of a planar polygon in 3D (Newell's method)
+ */
+export function getPolygonArea(points: Vector3[]): number {
+  const sum = Vector3.Zero();
+  points.forEach((point, index) => {
+    sum.addInPlace(Vector3.Cross(point, points[(index + 1) % points.length]));
+  });
+  return sum.length() / 2;
+}
+
+/**
+ * Angle at `vertex` between the directions to `a` and `b`, in degrees
+ */
+export function getAngleDegrees(a: Vector3, vertex: Vector3, b: Vector3): number {
+  const u = a.subtract(vertex).normalize();
+  const v = b.subtract(vertex).normalize();
+  return (Math.acos(Math.min(1, Math.max(-1, Vector3.Dot(u, v)))) * 180) / Math.PI;
+}
+
+/**
+ * Create the measure tool for a scene
+ * Annotations are drawn in a utility layer (on top of the model, unaffected by section planes)
+ * with HTML labels over the canvas.
+ */
+export function createMeasureTool(
+  ifcAPI: WebIFC.IfcAPI,
+  scene: Scene,
+  options: IfcMeasureToolOptions = {},
+): IfcMeasureTool {
+  const { snapFactor = 0.02, onChange } = options;
+  const pickAt = options.pick ?? ((x: number, y: number) => scene.pick(x, y));
+  const engine = scene.getEngine();
+  const layer = new UtilityLayerRenderer(scene);
+  const layerScene = layer.utilityLayerScene;
+
+  // Project length unit (scene geometry is in metres)
+  let lengthUnit: IfcUnitInfo | null = null;
+  let lengthScale = 1;
+  let lengthSymbol = "m";
+
+  const measurements: IfcMeasurement[] = [];
+  const graphics = new Map<number, { meshes: Mesh[]; label: HTMLElement; anchor: Vector3 }>();
+  let nextId = 1;
+
+  // Measurement in progress
+  let activeKind: IfcMeasurementKind | null = null;
+  let activePoints: IfcSnapResult[] = [];
+  let activeGraphics: Mesh[] = [];
+
+  const labelContainer = document.createElement("div");
+  labelContainer.className = "measure-labels";
+  document.body.appendChild(labelContainer);
+
+  const markerMaterial = new StandardMaterial("measure-marker-material", layerScene);
+  markerMaterial.disableLighting = true;
+  markerMaterial.emissiveColor = MEASURE_COLOR;
+
+  const snapMarker = MeshBuilder.CreateSphere("measure-snap-marker", { diameter: 1, segments: 8 }, layerScene);
+  const snapMaterial = new StandardMaterial("measure-snap-material", layerScene);
+  snapMaterial.disableLighting = true;
+  snapMarker.material = snapMaterial;
+  snapMarker.isPickable = false;
+  snapMarker.setEnabled(false);
+
+  // Keep markers a constant size on screen
+  const getMarkerSize = (point: Vector3): number => {
+    const camera = scene.activeCamera;
+    if (!camera) return 0.05;
+    return Vector3.Distance(camera.globalPosition, point) * 0.008;
+  };
+
+  const formatLength = (metres: number): string => {
+    const value = metres / lengthScale;
+    const decimals = lengthScale >= 1 ? 3 : lengthScale >= 0.1 ? 2 : lengthScale >= 0.01 ? 1 : 0;
+    return value.toFixed(decimals);
+  };
+
+  const formatArea = (squareMetres: number): string => {
+    const value = squareMetres / (lengthScale * lengthScale);
+    return value.toFixed(lengthScale >= 0.1 ? 2 : 0);
+  };
+
+  const createLines = (name: string, points: Vector3[]): LinesMesh => {
+    const lines = MeshBuilder.CreateLines(name, { points }, layerScene);
+    lines.color = MEASURE_COLOR;
+    lines.isPickable = false;
+    return lines;
+  };
+
+  const createMarker = (name: string, point: Vector3): Mesh => {
+    const marker = MeshBuilder.CreateSphere(name, { diameter: 1, segments: 8 }, layerScene);
+    marker.material = markerMaterial;
+    marker.position.copyFrom(point);
+    marker.isPickable = false;
+    marker.metadata = { measureMarker: true };
+    return marker;
+  };
+
+  const createLabel = (text: string): HTMLElement => {
+    const label = document.createElement("div");
+    label.className = "measure-label";
+    label.textContent = text;
+    labelContainer.appendChild(label);
+    return label;
+  };
+
+  // Place labels over their 3D anchors and scale markers
+  const updateOverlay = () => {
+    const camera = scene.activeCamera;
+    if (!camera) return;
+
+    const transform = scene.getTransformMatrix();
+    const viewport = camera.viewport.toGlobal(engine.getRenderWidth(), engine.getRenderHeight());
+    const cssScale = engine.getHardwareScalingLevel();
+    const canvasRect = engine.getRenderingCanvasClientRect();
+
+    graphics.forEach(({ label, anchor, meshes }) => {
+      const projected = Vector3.Project(anchor, Matrix.IdentityReadOnly, transform, viewport);
+      const visible = projected.z >= 0 && projected.z <= 1;
+      label.style.display = visible ? "block" : "none";
+      if (visible) {
+        label.style.left = `${(canvasRect?.left ?? 0) + projected.x * cssScale}px`;
+        label.style.top = `${(canvasRect?.top ?? 0) + projected.y * cssScale}px`;
+      }
+
+      meshes.forEach((mesh) => {
+        if (mesh.metadata?.measureMarker) mesh.scaling.setAll(getMarkerSize(mesh.position));
+      });
+    });
+
+    activeGraphics.forEach((mesh) => {
+      if (mesh.metadata?.measureMarker) mesh.scaling.setAll(getMarkerSize(mesh.position));
+    });
+  };
+  const renderObserver: Observer<Scene> = scene.onAfterRenderObservable.add(updateOverlay);
+
+  const snapAt = (x: number, y: number): IfcSnapResult | null => {
+    const pickInfo = pickAt(x, y);
+    if (!pickInfo || !pickInfo.hit) return null;
+    return snapPick(pickInfo, pickInfo.distance * snapFactor);
+  };
+
+  // Snap preview under the cursor while measuring
+  const pointerObserver = scene.onPointerObservable.add(() => {
+    if (!activeKind) {
+      snapMarker.setEnabled(false);
+      return;
+    }
+    const snapped = snapAt(scene.pointerX, scene.pointerY);
+    snapMarker.setEnabled(!!snapped);
+    if (snapped) {
+      snapMarker.position.copyFrom(snapped.point);
+      snapMarker.scaling.setAll(getMarkerSize(snapped.point) * 1.5);
+      snapMaterial.emissiveColor = SNAP_COLORS[snapped.snap];
+    }
+  });
+
+  const disposeActiveGraphics = () => {
+    activeGraphics.forEach((mesh) => mesh.dispose());
+    activeGraphics = [];
+  };
+
+  const resetActive = () => {
+    disposeActiveGraphics();
+    activePoints = [];
+  };
+
+  // Draw the picked points and the polyline of the measurement in progress
+  const drawActive = () => {
+    disposeActiveGraphics();
+    activePoints.forEach((picked, index) => activeGraphics.push(createMarker(`measure-active-point-${index}`, picked.point)));
+    if (activePoints.length >= 2 && activeKind !== "faceDistance") {
+      activeGraphics.push(createLines("measure-active-lines", activePoints.map((picked) => picked.point)));
+    }
+  };
+
+  const addMeasurement = (
+    kind: IfcMeasurementKind,
+    points: Vector3[],
+    linePoints: Vector3[][],
+    anchor: Vector3,
+    value: number | null,
+    unit: string,
+    label: string,
+    element?: IfcMeasurement["element"],
+  ) => {
+    const id = nextId++;
+    measurements.push({ id, kind, points: points.map(toVec3), value, unit, label, element });
+
+    const meshes: Mesh[] = [
+      ...points.map((point, index) => createMarker(`measure-${id}-point-${index}`, point)),
+      ...linePoints.map((line, index) => createLines(`measure-${id}-lines-${index}`, line)),
+    ];
+    graphics.set(id, { meshes, label: createLabel(label), anchor });
+
+    console.log(`📏 ${kind}: ${label}`);
+    onChange?.();
+  };
+
+  // Element quantities of the picked element, in their units
+  const addQuantities = async (picked: IfcSnapResult) => {
+    if (!picked.element) return;
+
+    const { modelID, expressID, ifcTypeName } = picked.element;
+    const properties = await getElementProperties(ifcAPI, modelID, expressID);
+    const units = (await getProjectUnits(ifcAPI, modelID)) ?? [];
+
+    const lines: string[] = [];
+    const seen = new Set<string>();
+    for (const quantitySet of properties.quantitySets) {
+      for (const quantity of quantitySet.quantities) {
+        if (seen.has(quantity.name) || !["length", "area", "volume"].includes(quantity.kind)) continue;
+        seen.add(quantity.name);
+
+        const unit =
+          quantity.unitID !== undefined
+            ? await getUnit(ifcAPI, modelID, quantity.unitID)
+            : findUnit(units, getUnitTypeForQuantity(quantity.kind) ?? "");
+        lines.push(`${quantity.name}: ${Number(quantity.value.toFixed(3))} ${getUnitSymbol(unit)}`.trim());
+      }
+    }
+
+    const label = [ifcTypeName, ...(lines.length > 0 ? lines : ["No quantities"])].join("\n");
+    addMeasurement("quantities", [picked.point], [], picked.point, null, "", label, { modelID, expressID });
+  };
+
+  const complete = () => {
+    const points = activePoints.map((picked) => picked.point);
+
+    switch (activeKind) {
+      case "distance": {
+        const distance = Vector3.Distance(points[0], points[1]);
+        addMeasurement(
+          "distance",
+          points,
+          [points],
+          Vector3.Center(points[0], points[1]),
+          Number(formatLength(distance)),
+          lengthSymbol,
+          `${formatLength(distance)} ${lengthSymbol}`,
+        );
+        break;
+      }
+      case "area": {
+        const area = getPolygonArea(points);
+        const centroid = points.reduce((sum, point) => sum.add(point), Vector3.Zero()).scale(1 / points.length);
+        addMeasurement(
+          "area",
+          points,
+          [[...points, points[0]]],
+          centroid,
+          Number(formatArea(area)),
+          `${lengthSymbol}²`,
+          `${formatArea(area)} ${lengthSymbol}²`,
+        );
+        break;
+      }
+      case "angle": {
+        const angle = getAngleDegrees(points[0], points[1], points[2]);
+        addMeasurement("angle", points, [points], points[1], Number(angle.toFixed(1)), "°", `${angle.toFixed(1)}°`);
+        break;
+      }
+      case "faceDistance": {
+        // Perpendicular distance from the second point to the plane of the first face
+        const [first, second] = activePoints;
+        const normal = first.normal.normalizeToNew();
+        const signed = Vector3.Dot(normal, second.point.subtract(first.point));
+        const foot = second.point.subtract(normal.scale(signed));
+        const faceAngle = getAngleDegrees(normal, Vector3.Zero(), second.normal.normalizeToNew());
+        const parallel = Math.min(faceAngle, 180 - faceAngle) < 1;
+        const suffix = parallel ? "" : ` (faces ${Math.min(faceAngle, 180 - faceAngle).toFixed(1)}° apart)`;
+        addMeasurement(
+          "faceDistance",
+          [first.point, second.point],
+          [[second.point, foot]],
+          Vector3.Center(second.point, foot),
+          Number(formatLength(Math.abs(signed))),
+          lengthSymbol,
+          `⟂ ${formatLength(Math.abs(signed))} ${lengthSymbol}${suffix}`,
+        );
+        break;
+      }
+      case "quantities":
+        addQuantities(activePoints[0]).catch((error) => console.warn("Could not read element quantities:", error));
+        break;
+    }
+
+    // Stay in the same mode for the next measurement
+    resetActive();
+  };
+
+  const start: IfcMeasureTool["start"] = (kind) => {
+    resetActive();
+    activeKind = kind;
+    onChange?.();
+  };
+
+  const cancel: IfcMeasureTool["cancel"] = () => {
+    resetActive();
+    activeKind = null;
+    snapMarker.setEnabled(false);
+    onChange?.();
+  };
+
+  const handlePick: IfcMeasureTool["handlePick"] = (x, y) => {
+    if (!activeKind) return false;
+
+    const snapped = snapAt(x, y);
+    if (!snapped) return false;
+
+    // Clicking the first point again closes an area polygon
+    if (
+      activeKind === "area" &&
+      activePoints.length >= 3 &&
+      Vector3.Distance(snapped.point, activePoints[0].point) <= getMarkerSize(snapped.point) * 2
+    ) {
+      return finish();
+    }
+
+    activePoints.push(snapped);
+    if (activePoints.length >= REQUIRED_POINTS[activeKind]) {
+      complete();
+    } else {
+      drawActive();
+    }
+    onChange?.();
+    return true;
+  };
+
+  const finish: IfcMeasureTool["finish"] = () => {
+    if (activeKind !== "area" || activePoints.length < 3) return false;
+    complete();
+    onChange?.();
+    return true;
+  };
+
+  const deleteMeasurement: IfcMeasureTool["deleteMeasurement"] = (id) => {
+    const index = measurements.findIndex((measurement) => measurement.id === id);
+    if (index === -1) return;
+    measurements.splice(index, 1);
+
+    const graphic = graphics.get(id);
+    graphic?.meshes.forEach((mesh) => mesh.dispose());
+    graphic?.label.remove();
+    graphics.delete(id);
+    onChange?.();
+  };
+
+  const clear: IfcMeasureTool["clear"] = () => {
+    measurements.map((measurement) => measurement.id).forEach(deleteMeasurement);
+  };
+
+  const useProjectUnits: IfcMeasureTool["useProjectUnits"] = async (modelID) => {
+    lengthUnit = findUnit(await getProjectUnits(ifcAPI, modelID), "LENGTHUNIT");
+    lengthScale = getLengthUnitScale(lengthUnit);
+    lengthSymbol = getUnitSymbol(lengthUnit) || "m";
+    onChange?.();
+  };
+
+  const exportJson: IfcMeasureTool["exportJson"] = () =>
+    JSON.stringify({ lengthUnit: lengthSymbol, measurements }, null, 2);
+
+  const dispose: IfcMeasureTool["dispose"] = () => {
+    cancel();
+    clear();
+    scene.onAfterRenderObservable.remove(renderObserver);
+    scene.onPointerObservable.remove(pointerObserver);
+    labelContainer.remove();
+    layer.dispose();
+  };
+
+  return {
+    start,
+    cancel,
+    getActiveKind: () => activeKind,
+    getActivePointCount: () => activePoints.length,
+    handlePick,
+    finish,
+    getMeasurements: () => measurements,
+    deleteMeasurement,
+    clear,
+    useProjectUnits,
+    getLengthUnitSymbol: () => lengthSymbol,
+    exportJson,
+    dispose,
+  };
+}
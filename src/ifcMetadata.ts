@@ -1,4 +1,5 @@
 import * as WebIFC from "web-ifc";
+import type { IfcUnitInfo } from "./ifcUnits";
 
 /**
  * Get building information from IFC file
@@ -41,13 +42,7 @@ export async function getProjectUnits(ifcAPI: WebIFC.IfcAPI, modelID: number) {
     for (const unitRef of unitAssignment.Units) {
       if (unitRef.value) {
         const unit = await ifcAPI.GetLine(modelID, unitRef.value);
-        units.push({
-          type: unit.type,
-          unitType: unit.UnitType?.value,
-          name: unit.Name?.value,
-          prefix: unit.Prefix?.value,
-          value: unit.Value?.value,
-        });
+        units.push(readUnit(unit));
       }
     }
   }
@@ -55,21 +50,198 @@ export async function getProjectUnits(ifcAPI: WebIFC.IfcAPI, modelID: number) {
   return units;
 }
 
+/**
+ * Convert an IfcNamedUnit / IfcDerivedUnit line into a plain unit description
+ */
+function readUnit(unit: any): IfcUnitInfo {
+  return {
+    type: unit.type,
+    unitType: unit.UnitType?.value,
+    name: unit.Name?.value,
+    prefix: unit.Prefix?.value,
+    value: unit.Value?.value,
+  };
+}
+
+/**
+ * Get a unit by express ID (for properties and quantities that override the project unit)
+ */
+export async function getUnit(ifcAPI: WebIFC.IfcAPI, modelID: number, unitID: number): Promise<IfcUnitInfo | null> {
+  try {
+    const unit = await ifcAPI.GetLine(modelID, unitID);
+    return unit ? readUnit(unit) : null;
+  } catch (error) {
+    console.warn(`Error reading unit ${unitID}:`, error);
+    return null;
+  }
+}
+
+/** A single property of a property set */
+export interface IfcPropertyValue {
+  name: string;
+  description?: string;
+  /** Nominal value; lists for enumerated/list values, `[lower, upper]` for bounded values */
+  value: any;
+  /** web-ifc value type (e.g. 1 = string, 4 = real) */
+  type?: number;
+  /** IFC measure/value type name (e.g. IFCLENGTHMEASURE, IFCLABEL) */
+  valueType?: string;
+  /** Express ID of an explicit IfcUnit, if the property overrides the project unit */
+  unitID?: number;
+}
+
+/** A property set attached to an element, either directly or through its type */
+export interface IfcElementPropertySet {
+  id: number;
+  name: string;
+  description?: string;
+  /** "instance" for IfcRelDefinesByProperties, "type" for properties inherited from IfcTypeObject */
+  source: "instance" | "type";
+  properties: IfcPropertyValue[];
+}
+
+export type IfcQuantityKind = "length" | "area" | "volume" | "count" | "weight" | "time";
+
+/** A single quantity of an IfcElementQuantity */
+export interface IfcQuantityValue {
+  name: string;
+  description?: string;
+  kind: IfcQuantityKind;
+  value: number;
+  /** Express ID of an explicit IfcNamedUnit, if the quantity overrides the project unit */
+  unitID?: number;
+}
+
+/** A quantity set (IfcElementQuantity) attached to an element */
+export interface IfcElementQuantitySet {
+  id: number;
+  name: string;
+  description?: string;
+  methodOfMeasurement?: string;
+  source: "instance" | "type";
+  quantities: IfcQuantityValue[];
+}
+
+/** Properties and quantities resolved for one element */
+export interface IfcElementProperties {
+  expressID: number;
+  /** Express ID of the IfcTypeObject assigned through IfcRelDefinesByType, if any */
+  typeObjectID: number | null;
+  /** Name of the assigned type object, if any */
+  typeObjectName: string | null;
+  propertySets: IfcElementPropertySet[];
+  quantitySets: IfcElementQuantitySet[];
+}
+
+/** One layer, constituent or profile of an element material */
+export interface IfcMaterialLayer {
+  material: string;
+  /** Layer thickness in project length units (layer sets) */
+  thickness?: number;
+  /** Constituent or layer name, if any */
+  name?: string;
+  category?: string;
+  /** Constituent fraction (IFC4 constituent sets) */
+  fraction?: number;
+}
+
+/** Material assigned through IfcRelAssociatesMaterial */
+export interface IfcElementMaterial {
+  kind: "material" | "layerSet" | "list" | "constituentSet" | "profileSet";
+  /** Set name (layer set name, constituent set name) or the material name */
+  name: string;
+  layers: IfcMaterialLayer[];
+  source: "instance" | "type";
+}
+
+/** Classification reference assigned through IfcRelAssociatesClassification */
+export interface IfcClassificationRef {
+  /** Item reference / identification code (e.g. "B10") */
+  identification: string;
+  name: string;
+  location?: string;
+  /** Name of the classification system (e.g. "Uniformat") */
+  system?: string;
+  edition?: string;
+  source: "instance" | "type";
+}
+
+/** Reverse index from element to its property definitions, type object and associations */
+interface PropertyIndex {
+  elementToDefinitions: Map<number, number[]>;
+  elementToType: Map<number, number>;
+  elementToMaterials: Map<number, number[]>;
+  elementToClassifications: Map<number, number[]>;
+}
+
+// Quantity entity type -> (kind, value attribute)
+const QUANTITY_TYPES = new Map<number, { kind: IfcQuantityKind; attribute: string }>([
+  [WebIFC.IFCQUANTITYLENGTH, { kind: "length", attribute: "LengthValue" }],
+  [WebIFC.IFCQUANTITYAREA, { kind: "area", attribute: "AreaValue" }],
+  [WebIFC.IFCQUANTITYVOLUME, { kind: "volume", attribute: "VolumeValue" }],
+  [WebIFC.IFCQUANTITYCOUNT, { kind: "count", attribute: "CountValue" }],
+  [WebIFC.IFCQUANTITYWEIGHT, { kind: "weight", attribute: "WeightValue" }],
+  [WebIFC.IFCQUANTITYTIME, { kind: "time", attribute: "TimeValue" }],
+]);
+
+// Property indexes are built once per model and reused for every lookup
+const propertyIndexCache = new Map<number, PropertyIndex>();
+
+/**
+ * Read the value of any IfcProperty subtype
+ */
+function readPropertyValue(prop: any): Pick<IfcPropertyValue, "value" | "type" | "valueType"> {
+  if (prop.NominalValue) {
+    return { value: prop.NominalValue.value, type: prop.NominalValue.type, valueType: prop.NominalValue.name };
+  }
+  if (prop.EnumerationValues) {
+    const values = prop.EnumerationValues.map((v: any) => v?.value);
+    return { value: values, type: prop.EnumerationValues[0]?.type, valueType: prop.EnumerationValues[0]?.name };
+  }
+  if (prop.ListValues) {
+    const values = prop.ListValues.map((v: any) => v?.value);
+    return { value: values, type: prop.ListValues[0]?.type, valueType: prop.ListValues[0]?.name };
+  }
+  if (prop.LowerBoundValue || prop.UpperBoundValue) {
+    const sample = prop.LowerBoundValue ?? prop.UpperBoundValue;
+    return {
+      value: [prop.LowerBoundValue?.value ?? null, prop.UpperBoundValue?.value ?? null],
+      type: sample.type,
+      valueType: sample.name,
+    };
+  }
+  return { value: undefined };
+}
+
 /**
  * Get properties from a property set
  */
-async function getPropertiesFromSet(ifcAPI: WebIFC.IfcAPI, modelID: number, propertySet: any) {
-  const properties = [];
+async function getPropertiesFromSet(
+  ifcAPI: WebIFC.IfcAPI,
+  modelID: number,
+  propertySet: any,
+): Promise<IfcPropertyValue[]> {
+  const properties: IfcPropertyValue[] = [];
 
   if (propertySet.HasProperties) {
     for (const propRef of propertySet.HasProperties) {
       if (propRef.value) {
         const prop = await ifcAPI.GetLine(modelID, propRef.value);
+
+        // Complex properties group nested properties; flatten them with a prefixed name
+        if (prop.type === WebIFC.IFCCOMPLEXPROPERTY) {
+          const nested = await getPropertiesFromSet(ifcAPI, modelID, prop);
+          nested.forEach((nestedProp) => {
+            properties.push({ ...nestedProp, name: `${prop.Name?.value}.${nestedProp.name}` });
+          });
+          continue;
+        }
+
         properties.push({
           name: prop.Name?.value,
           description: prop.Description?.value,
-          value: prop.NominalValue?.value,
-          type: prop.NominalValue?.type,
+          ...readPropertyValue(prop),
+          unitID: prop.Unit?.value,
         });
       }
     }
@@ -78,6 +250,39 @@ async function getPropertiesFromSet(ifcAPI: WebIFC.IfcAPI, modelID: number, prop
   return properties;
 }
 
+/**
+ * Get quantities from an IfcElementQuantity
+ */
+async function getQuantitiesFromSet(
+  ifcAPI: WebIFC.IfcAPI,
+  modelID: number,
+  quantitySet: any,
+): Promise<IfcQuantityValue[]> {
+  const quantities: IfcQuantityValue[] = [];
+
+  if (quantitySet.Quantities) {
+    for (const quantityRef of quantitySet.Quantities) {
+      if (!quantityRef.value) continue;
+
+      const quantity = await ifcAPI.GetLine(modelID, quantityRef.value);
+      const quantityType = QUANTITY_TYPES.get(quantity.type);
+
+      // Skip IfcPhysicalComplexQuantity and unknown quantity kinds
+      if (!quantityType) continue;
+
+      quantities.push({
+        name: quantity.Name?.value,
+        description: quantity.Description?.value,
+        kind: quantityType.kind,
+        value: quantity[quantityType.attribute]?.value,
+        unitID: quantity.Unit?.value,
+      });
+    }
+  }
+
+  return quantities;
+}
+
 /**
  * Get all property sets from IFC model
  */
@@ -114,7 +319,365 @@ export async function getAllPropertySets(ifcAPI: WebIFC.IfcAPI, modelID: number)
 }
 
 /**
- * Extract high-level IFC metadata (project, software, author, organization)
+ * Collect express IDs from a single reference or a list of references
+ */
+function collectRefs(refs: any): number[] {
+  if (!refs) return [];
+  const list = Array.isArray(refs) ? refs : [refs];
+  return list.filter((ref: any) => ref && ref.value).map((ref: any) => ref.value);
+}
+
+/**
+ * Append a value to a list stored in a map
+ */
+function pushToMap(map: Map<number, number[]>, key: number, values: number[]): void {
+  let list = map.get(key);
+  if (!list) {
+    list = [];
+    map.set(key, list);
+  }
+  list.push(...values);
+}
+
+/**
+ * Index IfcRelAssociates* relations: related object → relating definition
+ */
+function indexAssociations(
+  ifcAPI: WebIFC.IfcAPI,
+  modelID: number,
+  relType: number,
+  relatingKey: string,
+  target: Map<number, number[]>,
+): void {
+  const rels = ifcAPI.GetLineIDsWithType(modelID, relType);
+  for (let i = 0; i < rels.size(); i++) {
+    const rel = ifcAPI.GetLine(modelID, rels.get(i));
+    const relatingIDs = collectRefs(rel[relatingKey]);
+    if (relatingIDs.length === 0) continue;
+
+    collectRefs(rel.RelatedObjects).forEach((objectID) => pushToMap(target, objectID, relatingIDs));
+  }
+}
+
+/**
+ * Build (or return the cached) reverse index from elements to property definitions and type objects
+ */
+function getPropertyIndex(ifcAPI: WebIFC.IfcAPI, modelID: number): PropertyIndex {
+  const cached = propertyIndexCache.get(modelID);
+  if (cached) return cached;
+
+  const startTime = performance.now();
+  const index: PropertyIndex = {
+    elementToDefinitions: new Map<number, number[]>(),
+    elementToType: new Map<number, number>(),
+    elementToMaterials: new Map<number, number[]>(),
+    elementToClassifications: new Map<number, number[]>(),
+  };
+
+  try {
+    // Instance-level property sets and quantity sets
+    const relDefines = ifcAPI.GetLineIDsWithType(modelID, WebIFC.IFCRELDEFINESBYPROPERTIES);
+    for (let i = 0; i < relDefines.size(); i++) {
+      const rel = ifcAPI.GetLine(modelID, relDefines.get(i));
+      // IFC4 allows IfcPropertySetDefinitionSet here, so the relating definition may be a list
+      const definitionIDs = collectRefs(rel.RelatingPropertyDefinition);
+
+      collectRefs(rel.RelatedObjects).forEach((objectID) => {
+        pushToMap(index.elementToDefinitions, objectID, definitionIDs);
+      });
+    }
+
+    // Type objects
+    const relTypes = ifcAPI.GetLineIDsWithType(modelID, WebIFC.IFCRELDEFINESBYTYPE);
+    for (let i = 0; i < relTypes.size(); i++) {
+      const rel = ifcAPI.GetLine(modelID, relTypes.get(i));
+      const typeID = rel.RelatingType?.value;
+      if (!typeID) continue;
+
+      collectRefs(rel.RelatedObjects).forEach((objectID) => {
+        index.elementToType.set(objectID, typeID);
+      });
+    }
+
+    // Material and classification associations (elements and type objects)
+    indexAssociations(ifcAPI, modelID, WebIFC.IFCRELASSOCIATESMATERIAL, "RelatingMaterial", index.elementToMaterials);
+    indexAssociations(
+      ifcAPI,
+      modelID,
+      WebIFC.IFCRELASSOCIATESCLASSIFICATION,
+      "RelatingClassification",
+      index.elementToClassifications,
+    );
+  } catch (error) {
+    console.warn("Error building property index:", error);
+  }
+
+  console.log(
+    `🗂 Built property index for model ${modelID}: ${index.elementToDefinitions.size} elements with properties, ` +
+      `${index.elementToType.size} typed elements in ${(performance.now() - startTime).toFixed(2)}ms`,
+  );
+
+  propertyIndexCache.set(modelID, index);
+  return index;
+}
+
+/**
+ * Drop the cached property index of a model (call when the model is closed)
+ */
+export function clearPropertyIndex(modelID: number): void {
+  propertyIndexCache.delete(modelID);
+}
+
+/**
+ * Resolve a property definition into property sets or quantity sets
+ */
+async function addPropertyDefinition(
+  ifcAPI: WebIFC.IfcAPI,
+  modelID: number,
+  definitionID: number,
+  source: "instance" | "type",
+  result: IfcElementProperties,
+): Promise<void> {
+  const definition = await ifcAPI.GetLine(modelID, definitionID);
+  if (!definition) return;
+
+  if (definition.type === WebIFC.IFCELEMENTQUANTITY) {
+    result.quantitySets.push({
+      id: definitionID,
+      name: definition.Name?.value,
+      description: definition.Description?.value,
+      methodOfMeasurement: definition.MethodOfMeasurement?.value,
+      source,
+      quantities: await getQuantitiesFromSet(ifcAPI, modelID, definition),
+    });
+  } else if (definition.HasProperties) {
+    result.propertySets.push({
+      id: definitionID,
+      name: definition.Name?.value,
+      description: definition.Description?.value,
+      source,
+      properties: await getPropertiesFromSet(ifcAPI, modelID, definition),
+    });
+  }
+}
+
+/**
+ * Get property sets and quantity sets of a single element
+ * Resolves IfcRelDefinesByProperties (instance) and IfcRelDefinesByType (type-level) relations.
+ * The reverse index is built on the first call per model and cached.
+ */
+export async function getElementProperties(
+  ifcAPI: WebIFC.IfcAPI,
+  modelID: number,
+  expressID: number,
+): Promise<IfcElementProperties> {
+  const index = getPropertyIndex(ifcAPI, modelID);
+
+  const result: IfcElementProperties = {
+    expressID,
+    typeObjectID: index.elementToType.get(expressID) ?? null,
+    typeObjectName: null,
+    propertySets: [],
+    quantitySets: [],
+  };
+
+  try {
+    // Instance-level definitions
+    for (const definitionID of index.elementToDefinitions.get(expressID) ?? []) {
+      await addPropertyDefinition(ifcAPI, modelID, definitionID, "instance", result);
+    }
+
+    // Type-level definitions (IfcTypeObject.HasPropertySets)
+    if (result.typeObjectID !== null) {
+      const typeObject = await ifcAPI.GetLine(modelID, result.typeObjectID);
+      result.typeObjectName = typeObject?.Name?.value || null;
+
+      for (const definitionID of collectRefs(typeObject?.HasPropertySets)) {
+        await addPropertyDefinition(ifcAPI, modelID, definitionID, "type", result);
+      }
+    }
+  } catch (error) {
+    console.warn(`Error extracting properties for element ${expressID}:`, error);
+  }
+
+  return result;
+}
+
+/**
+ * Resolve an IfcMaterialSelect into a material description
+ */
+async function readMaterialSelect(
+  ifcAPI: WebIFC.IfcAPI,
+  modelID: number,
+  materialID: number,
+  source: "instance" | "type",
+): Promise<IfcElementMaterial | null> {
+  const select = await ifcAPI.GetLine(modelID, materialID, true);
+  if (!select) return null;
+
+  const materialName = (material: any) => material?.Name?.value || "";
+
+  switch (select.type) {
+    case WebIFC.IFCMATERIAL:
+      return { kind: "material", name: materialName(select), layers: [{ material: materialName(select) }], source };
+
+    case WebIFC.IFCMATERIALLAYERSETUSAGE:
+    case WebIFC.IFCMATERIALLAYERSET: {
+      const layerSet = select.type === WebIFC.IFCMATERIALLAYERSETUSAGE ? select.ForLayerSet : select;
+      return {
+        kind: "layerSet",
+        name: layerSet?.LayerSetName?.value || "",
+        layers: (layerSet?.MaterialLayers ?? []).map((layer: any) => ({
+          material: materialName(layer?.Material),
+          thickness: layer?.LayerThickness?.value,
+          name: layer?.Name?.value,
+          category: layer?.Category?.value,
+        })),
+        source,
+      };
+    }
+
+    case WebIFC.IFCMATERIALLIST:
+      return {
+        kind: "list",
+        name: "",
+        layers: (select.Materials ?? []).map((material: any) => ({ material: materialName(material) })),
+        source,
+      };
+
+    case WebIFC.IFCMATERIALCONSTITUENTSET:
+      return {
+        kind: "constituentSet",
+        name: select.Name?.value || "",
+        layers: (select.MaterialConstituents ?? []).map((constituent: any) => ({
+          material: materialName(constituent?.Material),
+          name: constituent?.Name?.value,
+          category: constituent?.Category?.value,
+          fraction: constituent?.Fraction?.value,
+        })),
+        source,
+      };
+
+    case WebIFC.IFCMATERIALPROFILESETUSAGE:
+    case WebIFC.IFCMATERIALPROFILESET: {
+      const profileSet = select.type === WebIFC.IFCMATERIALPROFILESETUSAGE ? select.ForProfileSet : select;
+      return {
+        kind: "profileSet",
+        name: profileSet?.Name?.value || "",
+        layers: (profileSet?.MaterialProfiles ?? []).map((profile: any) => ({
+          material: materialName(profile?.Material),
+          name: profile?.Name?.value || profile?.Profile?.ProfileName?.value,
+          category: profile?.Category?.value,
+        })),
+        source,
+      };
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Get the materials assigned to an element (IfcRelAssociatesMaterial), including materials of its type
+ */
+export async function getElementMaterials(
+  ifcAPI: WebIFC.IfcAPI,
+  modelID: number,
+  expressID: number,
+): Promise<IfcElementMaterial[]> {
+  const index = getPropertyIndex(ifcAPI, modelID);
+  const materials: IfcElementMaterial[] = [];
+
+  try {
+    for (const materialID of index.elementToMaterials.get(expressID) ?? []) {
+      const material = await readMaterialSelect(ifcAPI, modelID, materialID, "instance");
+      if (material) materials.push(material);
+    }
+
+    const typeID = index.elementToType.get(expressID);
+    if (typeID !== undefined) {
+      for (const materialID of index.elementToMaterials.get(typeID) ?? []) {
+        const material = await readMaterialSelect(ifcAPI, modelID, materialID, "type");
+        if (material) materials.push(material);
+      }
+    }
+  } catch (error) {
+    console.warn(`Error extracting materials for element ${expressID}:`, error);
+  }
+
+  return materials;
+}
+
+/**
+ * Resolve an IfcClassificationSelect into a classification reference
+ */
+async function readClassification(
+  ifcAPI: WebIFC.IfcAPI,
+  modelID: number,
+  classificationID: number,
+  source: "instance" | "type",
+): Promise<IfcClassificationRef | null> {
+  const classification = await ifcAPI.GetLine(modelID, classificationID, true);
+  if (!classification) return null;
+
+  // A classification system assigned directly instead of one of its references
+  if (classification.type === WebIFC.IFCCLASSIFICATION) {
+    return {
+      identification: "",
+      name: classification.Name?.value || "",
+      system: classification.Name?.value,
+      edition: classification.Edition?.value,
+      source,
+    };
+  }
+
+  const referencedSource = classification.ReferencedSource;
+  return {
+    // IFC4 renamed ItemReference to Identification
+    identification: classification.Identification?.value || classification.ItemReference?.value || "",
+    name: classification.Name?.value || "",
+    location: classification.Location?.value,
+    system: referencedSource?.Name?.value,
+    edition: referencedSource?.Edition?.value,
+    source,
+  };
+}
+
+/**
+ * Get the classification references of an element (IfcRelAssociatesClassification), including those of its type
+ */
+export async function getElementClassifications(
+  ifcAPI: WebIFC.IfcAPI,
+  modelID: number,
+  expressID: number,
+): Promise<IfcClassificationRef[]> {
+  const index = getPropertyIndex(ifcAPI, modelID);
+  const classifications: IfcClassificationRef[] = [];
+
+  try {
+    for (const classificationID of index.elementToClassifications.get(expressID) ?? []) {
+      const classification = await readClassification(ifcAPI, modelID, classificationID, "instance");
+      if (classification) classifications.push(classification);
+    }
+
+    const typeID = index.elementToType.get(expressID);
+    if (typeID !== undefined) {
+      for (const classificationID of index.elementToClassifications.get(typeID) ?? []) {
+        const classification = await readClassification(ifcAPI, modelID, classificationID, "type");
+        if (classification) classifications.push(classification);
+      }
+    }
+  } catch (error) {
+    console.warn(`Error extracting classifications for element ${expressID}:`, error);
+  }
+
+  return classifications;
+}
+
+/**
+ * Extract high-level IFC metadata (project, software, author, organization, schema)
+ * Only the first application, person and organization; see getIfcModelInfo for all of them and the header.
  */
 export function extractIfcMetadata(ifcAPI: WebIFC.IfcAPI, modelID: number): any {
   const metadata: any = {
@@ -123,7 +686,7 @@ export function extractIfcMetadata(ifcAPI: WebIFC.IfcAPI, modelID: number): any
     software: null,
     author: null,
     organization: null,
-    // schema: null,
+    schema: null,
   };
 
   try {
@@ -175,10 +738,170 @@ export function extractIfcMetadata(ifcAPI: WebIFC.IfcAPI, modelID: number): any
       }
     }
 
-    // Schema information is not directly exposed by web-ifc; could be inferred if needed
+    metadata.schema = ifcAPI.GetModelSchema(modelID) || null;
   } catch (error) {
     console.warn("Error extracting IFC metadata:", error);
   }
 
   return metadata;
 }
+
+/** STEP file header: FILE_DESCRIPTION, FILE_NAME and FILE_SCHEMA */
+export interface IfcFileHeader {
+  /** FILE_DESCRIPTION description lines, e.g. "ViewDefinition [CoordinationView]" */
+  description: string[];
+  /** FILE_DESCRIPTION implementation level, e.g. "2;1" */
+  implementationLevel: string;
+  /** FILE_NAME name */
+  name: string;
+  /** FILE_NAME time stamp as written (ISO 8601) */
+  timeStamp: string;
+  author: string[];
+  organization: string[];
+  preprocessorVersion: string;
+  originatingSystem: string;
+  authorization: string;
+  /** FILE_SCHEMA identifiers as written, e.g. "IFC4X3_ADD2" */
+  schemaIdentifiers: string[];
+}
+
+/** Application named in IfcOwnerHistory */
+export interface IfcApplicationInfo {
+  expressID: number;
+  name: string;
+  identifier: string;
+  version: string;
+  developer: string;
+}
+
+/** Person and organization named in IfcOwnerHistory */
+export interface IfcPersonInfo {
+  expressID: number;
+  name: string;
+  identification: string;
+  organization: string;
+}
+
+/** Schema, header and authoring information of a model */
+export interface IfcModelInfo {
+  /** Schema family web-ifc reads the model with: "IFC2X3", "IFC4" or "IFC4X3" */
+  schema: string;
+  /** Schema as named in the file, e.g. "IFC4X3_ADD2" */
+  schemaIdentifier: string;
+  header: IfcFileHeader;
+  /** Model view definitions from FILE_DESCRIPTION, e.g. ["CoordinationView"] */
+  modelViewDefinitions: string[];
+  /** Owning and last modifying applications of all IfcOwnerHistory entries */
+  applications: IfcApplicationInfo[];
+  /** Owning and last modifying users of all IfcOwnerHistory entries */
+  people: IfcPersonInfo[];
+}
+
+// Header arguments are { value } objects, lists of them, or null for "$"
+const headerText = (argument: any): string => (typeof argument?.value === "string" ? argument.value : "");
+const headerList = (argument: any): string[] =>
+  Array.isArray(argument) ? argument.map(headerText).filter(Boolean) : [headerText(argument)].filter(Boolean);
+
+/**
+ * Read a STEP header line, or its empty arguments if the file has none
+ */
+function getHeaderArguments(ifcAPI: WebIFC.IfcAPI, modelID: number, headerType: number): any[] {
+  try {
+    return ifcAPI.GetHeaderLine(modelID, headerType)?.arguments ?? [];
+  } catch (error) {
+    return [];
+  }
+}
+
+/**
+ * Read the schema, the STEP header and every application and person of the IfcOwnerHistory entries
+ */
+export function getIfcModelInfo(ifcAPI: WebIFC.IfcAPI, modelID: number): IfcModelInfo {
+  const description = getHeaderArguments(ifcAPI, modelID, WebIFC.FILE_DESCRIPTION);
+  const fileName = getHeaderArguments(ifcAPI, modelID, WebIFC.FILE_NAME);
+  const fileSchema = getHeaderArguments(ifcAPI, modelID, WebIFC.FILE_SCHEMA);
+
+  const header: IfcFileHeader = {
+    description: headerList(description[0]),
+    implementationLevel: headerText(description[1]),
+    name: headerText(fileName[0]),
+    timeStamp: headerText(fileName[1]),
+    author: headerList(fileName[2]),
+    organization: headerList(fileName[3]),
+    preprocessorVersion: headerText(fileName[4]),
+    originatingSystem: headerText(fileName[5]),
+    authorization: headerText(fileName[6]),
+    schemaIdentifiers: headerList(fileSchema[0]),
+  };
+
+  // SchemaNames lists the identifiers of each schema web-ifc reads, the family name first
+  const schemaIdentifier = ifcAPI.GetModelSchema(modelID) ?? header.schemaIdentifiers[0] ?? "";
+  const family = WebIFC.SchemaNames.find((names) => names?.includes(schemaIdentifier.toUpperCase()));
+
+  // "ViewDefinition [CoordinationView, QuantityTakeOffAddOnView]" may span several description lines
+  const views = /ViewDefinition\s*\[([^\]]*)\]/i.exec(header.description.join(" "))?.[1] ?? "";
+  const modelViewDefinitions = views
+    .split(",")
+    .map((view) => view.trim())
+    .filter(Boolean);
+
+  // Owner histories often repeat the same application and user, so read each one once
+  const applicationIDs = new Set<number>();
+  const userIDs = new Set<number>();
+  try {
+    const histories = ifcAPI.GetLineIDsWithType(modelID, WebIFC.IFCOWNERHISTORY);
+    for (let i = 0; i < histories.size(); i++) {
+      const history = ifcAPI.GetLine(modelID, histories.get(i));
+      [history.OwningApplication, history.LastModifyingApplication].forEach((ref) => {
+        if (ref?.value) applicationIDs.add(ref.value);
+      });
+      [history.OwningUser, history.LastModifyingUser].forEach((ref) => {
+        if (ref?.value) userIDs.add(ref.value);
+      });
+    }
+  } catch (error) {
+    console.warn("Error reading IfcOwnerHistory:", error);
+  }
+
+  const applications: IfcApplicationInfo[] = [];
+  applicationIDs.forEach((expressID) => {
+    try {
+      const application = ifcAPI.GetLine(modelID, expressID, true);
+      applications.push({
+        expressID,
+        name: application.ApplicationFullName?.value ?? "",
+        identifier: application.ApplicationIdentifier?.value ?? "",
+        version: application.Version?.value ?? "",
+        developer: application.ApplicationDeveloper?.Name?.value ?? "",
+      });
+    } catch (error) {
+      console.warn(`Error reading IfcApplication ${expressID}:`, error);
+    }
+  });
+
+  const people: IfcPersonInfo[] = [];
+  userIDs.forEach((expressID) => {
+    try {
+      const { ThePerson: person, TheOrganization: organization } = ifcAPI.GetLine(modelID, expressID, true);
+      const name = [person?.GivenName?.value, person?.FamilyName?.value].filter(Boolean).join(" ");
+      people.push({
+        expressID,
+        name,
+        // IFC2X3 calls it Id, IFC4 Identification
+        identification: person?.Identification?.value ?? person?.Id?.value ?? "",
+        organization: organization?.Name?.value ?? "",
+      });
+    } catch (error) {
+      console.warn(`Error reading IfcPersonAndOrganization ${expressID}:`, error);
+    }
+  });
+
+  return {
+    schema: family?.[0] ?? schemaIdentifier,
+    schemaIdentifier,
+    header,
+    modelViewDefinitions,
+    applications,
+    people,
+  };
+}
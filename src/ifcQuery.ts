@@ -0,0 +1,347 @@
+import * as WebIFC from "web-ifc";
+import type { IfcModel, IfcMeshMetadata } from "./ifcLoader";
+import { getIfcElementMeshes, type IfcElementMesh } from "./ifcElements";
+import { getElementProperties, type IfcElementProperties } from "./ifcMetadata";
+
+/** Comparison operators of query conditions */
+export type IfcQueryOperator = "=" | "!=" | ">" | ">=" | "<" | "<=" | "contains" | "startsWith" | "exists";
+
+/**
+ * One query condition
+ * - `type`: IFC type name (e.g. "IfcWall"), subtypes included
+ * - `attribute`: direct attribute of the element (Name, Tag, ObjectType, PredefinedType, ...)
+ * - `property` / `quantity`: value in a property set or quantity set; any set when `set` is omitted
+ */
+export type IfcQueryCondition =
+  | { kind: "type"; typeName: string }
+  | { kind: "attribute"; name: string; operator: IfcQueryOperator; value?: IfcQueryValue }
+  | { kind: "property" | "quantity"; set?: string; name: string; operator: IfcQueryOperator; value?: IfcQueryValue };
+
+/** Value compared by a condition; numeric strings compare as numbers */
+export type IfcQueryValue = string | number | boolean;
+
+/** Condition tree combined with AND/OR */
+export type IfcQuery = IfcQueryCondition | { and: IfcQuery[] } | { or: IfcQuery[] };
+
+/** Matching expressIDs per modelID */
+export type IfcQueryResult = Map<number, number[]>;
+
+// Per-element data, read on first use so cheap conditions can short-circuit
+interface ElementContext {
+  ifcAPI: WebIFC.IfcAPI;
+  metadata: IfcMeshMetadata;
+  typeCodes: (typeName: string) => Set<number>;
+  line?: Promise<any>;
+  properties?: Promise<IfcElementProperties>;
+}
+
+const OPERATORS: IfcQueryOperator[] = ["!=", ">=", "<=", "=", ">", "<"];
+
+/**
+ * Get the type code of an IFC type name and the codes of all its subtypes in a model's schema
+ */
+function getTypeCodesWithSubtypes(ifcAPI: WebIFC.IfcAPI, modelID: number, typeName: string): Set<number> {
+  const code = ifcAPI.GetTypeCodeFromName(typeName.toUpperCase());
+  const schemaName = ifcAPI.GetModelSchema(modelID)?.toUpperCase();
+  const schema = WebIFC.SchemaNames.findIndex((names) => names.includes(schemaName));
+  const subtypes: number[] = (schema >= 0 && WebIFC.InheritanceDef[schema]?.[code]) || [];
+  return new Set([code, ...subtypes]);
+}
+
+/**
+ * Normalize an IFC value for comparison: unwrap `{ value }`, booleans and logicals as "true"/"false"
+ */
+function normalizeValue(value: any): string | number | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "object" && "value" in value) return normalizeValue(value.value);
+  if (typeof value === "boolean") return value ? "true" : "false";
+  if (value === "T" || value === ".T.") return "true";
+  if (value === "F" || value === ".F.") return "false";
+  return typeof value === "number" ? value : String(value);
+}
+
+/**
+ * Compare one value against a condition; lists match when any item matches (every item for `!=`)
+ * Missing values fail every operator; use `exists` to test for presence.
+ */
+function compareValue(raw: any, operator: IfcQueryOperator, expected: IfcQueryValue | undefined): boolean {
+  if (Array.isArray(raw)) {
+    return operator === "!="
+      ? raw.every((item) => compareValue(item, operator, expected))
+      : raw.some((item) => compareValue(item, operator, expected));
+  }
+
+  const value = normalizeValue(raw);
+  if (operator === "exists") return value !== null && value !== "";
+  if (value === null) return false;
+
+  const target = normalizeValue(expected);
+  if (target === null) return false;
+
+  // Numeric comparison when both sides are numbers
+  const a = typeof value === "number" ? value : Number(value);
+  const b = typeof target === "number" ? target : Number(target);
+  const numeric = value !== "" && target !== "" && Number.isFinite(a) && Number.isFinite(b);
+
+  const left = String(value).toLowerCase();
+  const right = String(target).toLowerCase();
+
+  switch (operator) {
+    case "=":
+      return numeric ? a === b : left === right;
+    case "!=":
+      return numeric ? a !== b : left !== right;
+    case ">":
+      return numeric && a > b;
+    case ">=":
+      return numeric && a >= b;
+    case "<":
+      return numeric && a < b;
+    case "<=":
+      return numeric && a <= b;
+    case "contains":
+      return left.includes(right);
+    case "startsWith":
+      return left.startsWith(right);
+  }
+}
+
+const sameName = (a: string | undefined, b: string) => (a ?? "").toLowerCase() === b.toLowerCase();
+
+/**
+ * Evaluate one condition for an element
+ */
+async function matchCondition(condition: IfcQueryCondition, context: ElementContext): Promise<boolean> {
+  const { ifcAPI, metadata } = context;
+
+  switch (condition.kind) {
+    case "type":
+      return context.typeCodes(condition.typeName).has(metadata.ifcType);
+
+    case "attribute": {
+      context.line ??= Promise.resolve(ifcAPI.GetLine(metadata.modelID, metadata.expressID));
+      const line = await context.line;
+      const key = Object.keys(line ?? {}).find((attribute) => sameName(attribute, condition.name));
+      return compareValue(key ? line[key] : null, condition.operator, condition.value);
+    }
+
+    case "property":
+    case "quantity": {
+      context.properties ??= getElementProperties(ifcAPI, metadata.modelID, metadata.expressID);
+      const properties = await context.properties;
+      const values =
+        condition.kind === "property"
+          ? properties.propertySets
+              .filter((set) => condition.set === undefined || sameName(set.name, condition.set))
+              .flatMap((set) => set.properties.filter((property) => sameName(property.name, condition.name)))
+              .map((property) => property.value)
+          : properties.quantitySets
+              .filter((set) => condition.set === undefined || sameName(set.name, condition.set))
+              .flatMap((set) => set.quantities.filter((quantity) => sameName(quantity.name, condition.name)))
+              .map((quantity) => quantity.value);
+      if (values.length === 0) return false;
+      return condition.operator === "!="
+        ? values.every((value) => compareValue(value, condition.operator, condition.value))
+        : values.some((value) => compareValue(value, condition.operator, condition.value));
+    }
+  }
+}
+
+/**
+ * Evaluate a query tree for an element, left to right with short-circuiting
+ */
+async function matchQuery(query: IfcQuery, context: ElementContext): Promise<boolean> {
+  if ("and" in query) {
+    for (const part of query.and) {
+      if (!(await matchQuery(part, context))) return false;
+    }
+    return true;
+  }
+  if ("or" in query) {
+    for (const part of query.or) {
+      if (await matchQuery(part, context)) return true;
+    }
+    return false;
+  }
+  return matchCondition(query, context);
+}
+
+/**
+ * Find the elements of the given models matching a query
+ * Only elements with geometry are searched; put type conditions first in an AND to skip property lookups.
+ */
+export async function queryIfcElements(
+  ifcAPI: WebIFC.IfcAPI,
+  models: IfcModel[],
+  query: IfcQuery,
+): Promise<IfcQueryResult> {
+  const startTime = performance.now();
+  const result: IfcQueryResult = new Map();
+
+  for (const model of models) {
+    const typeCodeCache = new Map<string, Set<number>>();
+    const typeCodes = (typeName: string) => {
+      const key = typeName.toUpperCase();
+      let codes = typeCodeCache.get(key);
+      if (!codes) {
+        codes = getTypeCodesWithSubtypes(ifcAPI, model.modelID, key);
+        typeCodeCache.set(key, codes);
+      }
+      return codes;
+    };
+
+    // One entry per element, even when it spans several meshes
+    const elements = new Map<number, IfcMeshMetadata>();
+    getIfcElementMeshes(model.meshes).forEach(({ metadata }) => elements.set(metadata.expressID, metadata));
+
+    const matches: number[] = [];
+    for (const metadata of elements.values()) {
+      if (await matchQuery(query, { ifcAPI, metadata, typeCodes })) matches.push(metadata.expressID);
+    }
+    if (matches.length > 0) result.set(model.modelID, matches);
+  }
+
+  const count = Array.from(result.values()).reduce((sum, expressIDs) => sum + expressIDs.length, 0);
+  console.log(`🔎 Query matched ${count} elements in ${(performance.now() - startTime).toFixed(2)}ms`);
+  return result;
+}
+
+/**
+ * Get the element meshes (and batch ranges) of a query result
+ */
+export function getQueryResultElements(models: IfcModel[], result: IfcQueryResult): IfcElementMesh[] {
+  return models.flatMap((model) => {
+    const expressIDs = new Set(result.get(model.modelID) ?? []);
+    return getIfcElementMeshes(model.meshes).filter(({ metadata }) => expressIDs.has(metadata.expressID));
+  });
+}
+
+/**
+ * Tokenize a query string: words, quoted strings, operators and parentheses
+ */
+function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /\s*("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|!=|>=|<=|=|>|<|~|\(|\)|&&|\|\||[^\s()=!<>~"']+)/y;
+  let match: RegExpExecArray | null;
+  while (pattern.lastIndex < text.length && (match = pattern.exec(text))) {
+    tokens.push(match[1]);
+  }
+  if (text.slice(pattern.lastIndex).trim() !== "") {
+    throw new Error(`Unexpected input in query at "${text.slice(pattern.lastIndex).trim()}"`);
+  }
+  return tokens;
+}
+
+/**
+ * Turn a field of the text syntax into conditions
+ * `Set.Name` looks in that property or quantity set; a bare name is an attribute, property or quantity.
+ */
+function fieldCondition(field: string, operator: IfcQueryOperator, value?: IfcQueryValue): IfcQuery {
+  const dot = field.indexOf(".");
+  if (dot > 0) {
+    const set = field.slice(0, dot);
+    const name = field.slice(dot + 1);
+    return {
+      or: [
+        { kind: "property", set, name, operator, value },
+        { kind: "quantity", set, name, operator, value },
+      ],
+    };
+  }
+  return {
+    or: [
+      { kind: "attribute", name: field, operator, value },
+      { kind: "property", name: field, operator, value },
+      { kind: "quantity", name: field, operator, value },
+    ],
+  };
+}
+
+/**
+ * Parse the text syntax of the search box into a query
+ *
+ *   IfcDoor AND Pset_DoorCommon.FireRating = EI30
+ *   IfcWall AND Name contains EXT
+ *   (IfcSlab OR IfcRoof) AND Qto_SlabBaseQuantities.Width >= 0.2
+ *
+ * Operators: = != > >= < <= contains (~) startsWith exists; AND/&&, OR/||, parentheses.
+ * A lone word starting with "Ifc" is a type condition, any other lone word searches the Name. Values may be quoted.
+ */
+export function parseIfcQuery(text: string): IfcQuery {
+  const tokens = tokenize(text);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const isKeyword = (token: string | undefined, ...keywords: string[]) =>
+    token !== undefined && keywords.some((keyword) => token.toLowerCase() === keyword.toLowerCase());
+  const unquote = (token: string) =>
+    /^(["']).*\1$/.test(token) ? token.slice(1, -1).replace(/\\(.)/g, "$1") : token;
+
+  const parseOperator = (): IfcQueryOperator | null => {
+    const token = peek();
+    let operator: IfcQueryOperator | null = null;
+    if ((OPERATORS as (string | undefined)[]).includes(token)) {
+      operator = token as IfcQueryOperator;
+    } else if (token === "~" || isKeyword(token, "contains")) {
+      operator = "contains";
+    } else if (isKeyword(token, "startsWith")) {
+      operator = "startsWith";
+    } else if (isKeyword(token, "exists")) {
+      operator = "exists";
+    }
+    if (operator) position++;
+    return operator;
+  };
+
+  const parseCondition = (): IfcQuery => {
+    const token = next();
+    if (token === undefined) throw new Error("Query ends where a condition was expected");
+    if (token === "(") {
+      const inner = parseOr();
+      if (next() !== ")") throw new Error("Missing closing parenthesis in query");
+      return inner;
+    }
+    if (token === ")" || isKeyword(token, "and", "or", "&&", "||")) {
+      throw new Error(`Unexpected "${token}" in query`);
+    }
+
+    const field = unquote(token);
+    const operator = parseOperator();
+    if (!operator) {
+      return /^ifc\w+$/i.test(field)
+        ? { kind: "type", typeName: field }
+        : { kind: "attribute", name: "Name", operator: "contains", value: field };
+    }
+    if (operator === "exists") return fieldCondition(field, operator);
+
+    const value = next();
+    if (value === undefined || value === "(" || value === ")") {
+      throw new Error(`Expected a value after "${field} ${operator}"`);
+    }
+    return fieldCondition(field, operator, unquote(value));
+  };
+
+  const parseAnd = (): IfcQuery => {
+    const parts = [parseCondition()];
+    while (isKeyword(peek(), "and", "&&")) {
+      next();
+      parts.push(parseCondition());
+    }
+    return parts.length === 1 ? parts[0] : { and: parts };
+  };
+
+  const parseOr = (): IfcQuery => {
+    const parts = [parseAnd()];
+    while (isKeyword(peek(), "or", "||")) {
+      next();
+      parts.push(parseAnd());
+    }
+    return parts.length === 1 ? parts[0] : { or: parts };
+  };
+
+  if (tokens.length === 0) throw new Error("Empty query");
+  const query = parseOr();
+  if (position < tokens.length) throw new Error(`Unexpected "${tokens[position]}" in query`);
+  return query;
+}
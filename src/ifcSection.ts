@@ -0,0 +1,374 @@
+import {
+  Scene,
+  Mesh,
+  InstancedMesh,
+  AbstractMesh,
+  Material,
+  StandardMaterial,
+  TransformNode,
+  Vector3,
+  Color3,
+  Plane,
+  AxisDragGizmo,
+  UtilityLayerRenderer,
+  type PickingInfo,
+  type Observer,
+} from "@babylonjs/core";
+import { createIfcMeshProxy, getModelBounds } from "./ifcLoader";
+
+/** Babylon supports six scene clip planes (clipPlane … clipPlane6) */
+export const MAX_SECTION_PLANES = 6;
+
+type Vec3 = [number, number, number];
+
+/** JSON-serializable section state, stored in viewpoints */
+export interface IfcSectionState {
+  /** Axis-aligned section box (uses all six clip planes) */
+  box: { min: Vec3; max: Vec3 } | null;
+  /** Free planes; geometry on the side the normal points to is cut away */
+  planes: { point: Vec3; normal: Vec3 }[];
+  capping: boolean;
+}
+
+/**
+ * Sectioning tool: section box and free clip planes with drag gizmos and optional caps
+ */
+export interface IfcSectionTool {
+  /** Enable the section box, fitted to the given meshes (default: all IFC meshes); replaces free planes */
+  enableBox(meshes?: AbstractMesh[]): boolean;
+  /**
+   * Add a free plane through `point`; geometry on the side `normal` points to is cut away
+   * @returns false when all clip planes are in use
+   */
+  addPlane(point: Vector3, normal: Vector3): boolean;
+  /** Add a plane on a picked face, cutting away the side facing the camera */
+  addPlaneFromPick(pickInfo: PickingInfo): boolean;
+  /** Whether a world position is cut away by any plane */
+  isClipped(point: Vector3): boolean;
+  /** Pick the nearest visible mesh at screen coordinates, skipping hits in cut-away geometry */
+  pick(x: number, y: number): PickingInfo | null;
+  /** Remove every plane and the section box */
+  clear(): void;
+  /** Render cut surfaces of solids with a flat cap color */
+  setCapping(enabled: boolean): void;
+  isCapping(): boolean;
+  setGizmosVisible(visible: boolean): void;
+  areGizmosVisible(): boolean;
+  /** Number of active clip planes (box faces included) */
+  getPlaneCount(): number;
+  hasBox(): boolean;
+  getState(): IfcSectionState;
+  setState(state: IfcSectionState | null): void;
+  /** Pick up meshes of models added or removed since capping was enabled */
+  refresh(): void;
+  dispose(): void;
+}
+
+// One clip plane with its drag handle
+interface SectionPlane {
+  point: Vector3;
+  normal: Vector3;
+  handle: TransformNode;
+  gizmo: AxisDragGizmo;
+  /** Box face: axis (0 = x, 1 = y, 2 = z) and side */
+  boxFace?: { axis: number; side: "min" | "max" };
+}
+
+// Cap color for cut surfaces
+const CAP_COLOR = new Color3(0.85, 0.35, 0.3);
+
+const toVec3 = (vector: Vector3): Vec3 => [vector.x, vector.y, vector.z];
+
+const AXES = [Vector3.Right(), Vector3.Up(), Vector3.Forward()];
+
+const getAxis = (vector: Vector3, axis: number): number => vector.asArray()[axis];
+
+const setAxis = (vector: Vector3, axis: number, value: number): void => {
+  const values = vector.asArray();
+  values[axis] = value;
+  vector.copyFromFloats(values[0], values[1], values[2]);
+};
+
+/**
+ * Create the sectioning tool for a scene
+ * @param getMeshes Returns the IFC meshes that can be sectioned (used for box fitting and caps)
+ * @param onChange Called after planes or capping change, including gizmo drags
+ */
+export function createSectionTool(
+  scene: Scene,
+  getMeshes: () => AbstractMesh[],
+  onChange?: () => void,
+): IfcSectionTool {
+  const gizmoLayer = new UtilityLayerRenderer(scene);
+  let planes: SectionPlane[] = [];
+  let box: { min: Vector3; max: Vector3 } | null = null;
+  let gizmosVisible = true;
+
+  // Capping: a back-face-only clone per mesh, shown through the cut
+  let capping = false;
+  let capMaterial: StandardMaterial | null = null;
+  const caps = new Map<AbstractMesh, Mesh>();
+  const culledMaterials = new Map<Material, boolean>();
+  let capObserver: Observer<Scene> | null = null;
+
+  const applyClipPlanes = () => {
+    const clipPlanes = planes.map((plane) => Plane.FromPositionAndNormal(plane.point, plane.normal));
+    scene.clipPlane = clipPlanes[0] ?? null;
+    scene.clipPlane2 = clipPlanes[1] ?? null;
+    scene.clipPlane3 = clipPlanes[2] ?? null;
+    scene.clipPlane4 = clipPlanes[3] ?? null;
+    scene.clipPlane5 = clipPlanes[4] ?? null;
+    scene.clipPlane6 = clipPlanes[5] ?? null;
+    onChange?.();
+  };
+
+  // Keep box face handles centred on their face
+  const updateBoxHandles = () => {
+    if (!box) return;
+    const center = box.min.add(box.max).scale(0.5);
+    planes.forEach((plane) => {
+      if (!plane.boxFace) return;
+      const position = center.clone();
+      const value = plane.boxFace.side === "min" ? box!.min : box!.max;
+      setAxis(position, plane.boxFace.axis, getAxis(value, plane.boxFace.axis));
+      plane.handle.position.copyFrom(position);
+      plane.point.copyFrom(position);
+    });
+  };
+
+  const createPlane = (point: Vector3, normal: Vector3, boxFace?: SectionPlane["boxFace"]): SectionPlane => {
+    const handle = new TransformNode(`section-handle-${planes.length}`, scene);
+    handle.position.copyFrom(point);
+
+    const gizmo = new AxisDragGizmo(normal, boxFace ? Color3.Red() : Color3.Teal(), gizmoLayer);
+    gizmo.updateGizmoRotationToMatchAttachedMesh = false;
+    gizmo.attachedNode = handle;
+    gizmo.isEnabled = gizmosVisible;
+
+    const plane: SectionPlane = { point: point.clone(), normal: normal.clone(), handle, gizmo, boxFace };
+
+    gizmo.dragBehavior.onDragObservable.add(() => {
+      plane.point.copyFrom(handle.position);
+
+      if (box && boxFace) {
+        // Move the box face, without letting it pass the opposite face
+        const value = getAxis(handle.position, boxFace.axis);
+        if (boxFace.side === "min") {
+          setAxis(box.min, boxFace.axis, Math.min(value, getAxis(box.max, boxFace.axis)));
+        } else {
+          setAxis(box.max, boxFace.axis, Math.max(value, getAxis(box.min, boxFace.axis)));
+        }
+        updateBoxHandles();
+      }
+
+      applyClipPlanes();
+    });
+
+    return plane;
+  };
+
+  const disposePlanes = () => {
+    planes.forEach((plane) => {
+      plane.gizmo.dispose();
+      plane.handle.dispose();
+    });
+    planes = [];
+    box = null;
+  };
+
+  const setBox = (min: Vector3, max: Vector3) => {
+    disposePlanes();
+    box = { min: min.clone(), max: max.clone() };
+
+    AXES.forEach((axis, index) => {
+      planes.push(createPlane(box!.min, axis.negate(), { axis: index, side: "min" }));
+      planes.push(createPlane(box!.max, axis, { axis: index, side: "max" }));
+    });
+    updateBoxHandles();
+  };
+
+  const createCaps = () => {
+    if (!capMaterial) {
+      capMaterial = new StandardMaterial("section-cap-material", scene);
+      capMaterial.diffuseColor = Color3.Black();
+      capMaterial.specularColor = Color3.Black();
+      capMaterial.emissiveColor = CAP_COLOR;
+      capMaterial.disableLighting = true;
+      // Render back faces only: they are visible exactly where a solid is cut open
+      capMaterial.backFaceCulling = true;
+      capMaterial.cullBackFaces = false;
+    }
+
+    getMeshes().forEach((mesh) => {
+      if (caps.has(mesh) || !(mesh instanceof Mesh || mesh instanceof InstancedMesh)) return;
+
+      // Front faces come from the original mesh, so its material must cull back faces
+      const material = mesh.material;
+      if (material && !culledMaterials.has(material)) {
+        culledMaterials.set(material, material.backFaceCulling);
+        material.backFaceCulling = true;
+      }
+
+      // Proxies share the vertex buffers of the original
+      const cap = createIfcMeshProxy(mesh, `${mesh.name}-cap`);
+      cap.material = capMaterial;
+      caps.set(mesh, cap);
+    });
+  };
+
+  const disposeCaps = () => {
+    caps.forEach((cap) => cap.dispose());
+    caps.clear();
+    culledMaterials.forEach((backFaceCulling, material) => (material.backFaceCulling = backFaceCulling));
+    culledMaterials.clear();
+  };
+
+  // Caps follow visibility and ghosting of their source mesh; models may be removed at any time
+  const syncCaps = () => {
+    caps.forEach((cap, mesh) => {
+      if (mesh.isDisposed()) {
+        caps.delete(mesh);
+        return;
+      }
+      cap.isVisible = mesh.isVisible && mesh.visibility === 1;
+    });
+  };
+
+  const enableBox: IfcSectionTool["enableBox"] = (meshes) => {
+    const bounds = getModelBounds(meshes ?? getMeshes());
+    if (!bounds) return false;
+
+    // Small margin so the fitted box does not clip anything yet
+    const margin = new Vector3(1, 1, 1).scale(bounds.diagonal * 0.01);
+    setBox(bounds.min.subtract(margin), bounds.max.add(margin));
+    applyClipPlanes();
+    console.log(`✂️ Section box enabled (${bounds.size.x.toFixed(2)} × ${bounds.size.y.toFixed(2)} × ${bounds.size.z.toFixed(2)})`);
+    return true;
+  };
+
+  const addPlane: IfcSectionTool["addPlane"] = (point, normal) => {
+    if (planes.length >= MAX_SECTION_PLANES) {
+      console.warn(`⚠ All ${MAX_SECTION_PLANES} clip planes are in use`);
+      return false;
+    }
+
+    planes.push(createPlane(point, normal.normalizeToNew()));
+    applyClipPlanes();
+    return true;
+  };
+
+  const addPlaneFromPick: IfcSectionTool["addPlaneFromPick"] = (pickInfo) => {
+    if (!pickInfo.hit || !pickInfo.pickedPoint) return false;
+
+    const normal = pickInfo.getNormal(true, false);
+    if (!normal) return false;
+
+    // Face normals in IFC geometry are not always outward, so orient the plane towards the viewer
+    if (pickInfo.ray && Vector3.Dot(normal, pickInfo.ray.direction) > 0) {
+      normal.negateInPlace();
+    }
+
+    return addPlane(pickInfo.pickedPoint, normal);
+  };
+
+  const isClipped: IfcSectionTool["isClipped"] = (point) =>
+    planes.some((plane) => Vector3.Dot(plane.normal, point.subtract(plane.point)) > 1e-6);
+
+  const pick: IfcSectionTool["pick"] = (x, y) => {
+    // Scene picking ignores clip planes, so walk all hits front to back
+    const hits = scene.multiPick(x, y, (mesh) => mesh.isPickable && mesh.isVisible && mesh.isEnabled()) ?? [];
+    return (
+      hits
+        .filter((hit) => hit.hit && hit.pickedPoint && !isClipped(hit.pickedPoint))
+        .sort((a, b) => a.distance - b.distance)[0] ?? null
+    );
+  };
+
+  const clear: IfcSectionTool["clear"] = () => {
+    disposePlanes();
+    applyClipPlanes();
+  };
+
+  const setCapping: IfcSectionTool["setCapping"] = (enabled) => {
+    if (enabled === capping) return;
+    capping = enabled;
+
+    if (enabled) {
+      createCaps();
+      capObserver = scene.onBeforeRenderObservable.add(syncCaps);
+    } else {
+      scene.onBeforeRenderObservable.remove(capObserver);
+      capObserver = null;
+      disposeCaps();
+    }
+    onChange?.();
+  };
+
+  const isCapping: IfcSectionTool["isCapping"] = () => capping;
+
+  const setGizmosVisible: IfcSectionTool["setGizmosVisible"] = (visible) => {
+    gizmosVisible = visible;
+    planes.forEach((plane) => (plane.gizmo.isEnabled = visible));
+  };
+
+  const areGizmosVisible: IfcSectionTool["areGizmosVisible"] = () => gizmosVisible;
+
+  const getPlaneCount: IfcSectionTool["getPlaneCount"] = () => planes.length;
+
+  const hasBox: IfcSectionTool["hasBox"] = () => box !== null;
+
+  const getState: IfcSectionTool["getState"] = () => ({
+    box: box ? { min: toVec3(box.min), max: toVec3(box.max) } : null,
+    planes: planes
+      .filter((plane) => !plane.boxFace)
+      .map((plane) => ({ point: toVec3(plane.point), normal: toVec3(plane.normal) })),
+    capping,
+  });
+
+  const setState: IfcSectionTool["setState"] = (state) => {
+    disposePlanes();
+    if (state?.box) {
+      setBox(Vector3.FromArray(state.box.min), Vector3.FromArray(state.box.max));
+    }
+    state?.planes.forEach((plane) => {
+      if (planes.length < MAX_SECTION_PLANES) {
+        planes.push(createPlane(Vector3.FromArray(plane.point), Vector3.FromArray(plane.normal)));
+      }
+    });
+    applyClipPlanes();
+    setCapping(state?.capping ?? false);
+  };
+
+  const refresh: IfcSectionTool["refresh"] = () => {
+    if (!capping) return;
+    syncCaps();
+    createCaps();
+  };
+
+  const dispose: IfcSectionTool["dispose"] = () => {
+    setCapping(false);
+    clear();
+    capMaterial?.dispose();
+    capMaterial = null;
+    gizmoLayer.dispose();
+  };
+
+  return {
+    enableBox,
+    addPlane,
+    addPlaneFromPick,
+    isClipped,
+    pick,
+    clear,
+    setCapping,
+    isCapping,
+    setGizmosVisible,
+    areGizmosVisible,
+    getPlaneCount,
+    hasBox,
+    getState,
+    setState,
+    refresh,
+    dispose,
+  };
+}
@@ -0,0 +1,210 @@
+import { Matrix, Observable, Vector3, type Scene } from "@babylonjs/core";
+import { isIfcModelVisible, type IfcModel } from "./ifcLoader";
+import {
+  getIfcElementMeshes,
+  isIfcElementVisible,
+  getIfcElementBoundingBox,
+  type IfcElementMesh,
+} from "./ifcElements";
+
+/** One selectable IFC element */
+export interface IfcElementRef {
+  modelID: number;
+  expressID: number;
+}
+
+/** How a selection call combines with the current selection */
+export type IfcSelectionMode = "replace" | "add" | "toggle" | "remove";
+
+/** Payload of `onSelectionChangedObservable` */
+export interface IfcSelectionChangedEvent {
+  added: IfcElementRef[];
+  removed: IfcElementRef[];
+  /** Selected expressIDs per modelID after the change */
+  selection: Map<number, number[]>;
+}
+
+/**
+ * Set of selected IFC elements across models, with modifier-aware picking helpers
+ * Elements are identified by modelID and expressID, so all meshes of an element are selected together.
+ */
+export interface IfcSelectionManager {
+  /** Fired once per call that changed the selection */
+  onSelectionChangedObservable: Observable<IfcSelectionChangedEvent>;
+  select(elements: IfcElementRef[], mode?: IfcSelectionMode): void;
+  /** Select elements whose bounding box centre projects into a screen rectangle (scene pointer coordinates) */
+  selectInBox(x1: number, y1: number, x2: number, y2: number, mode?: IfcSelectionMode): void;
+  /** Select every element sharing an IFC type with the current selection */
+  selectSameType(mode?: IfcSelectionMode): void;
+  /** Select every element of the given storeys of a model */
+  selectByStorey(modelID: number, storeyIDs: number[], mode?: IfcSelectionMode): void;
+  /** Select every element sharing a storey with the current selection */
+  selectSameStorey(mode?: IfcSelectionMode): void;
+  clear(): void;
+  /** Drop the elements of a model, e.g. before removing it */
+  deselectModel(modelID: number): void;
+  isSelected(element: IfcElementRef): boolean;
+  getCount(): number;
+  /** Selected expressIDs per modelID */
+  getSelectedExpressIDs(): Map<number, number[]>;
+  /** Element meshes (and batch ranges) of the selected elements */
+  getSelectedElements(): IfcElementMesh[];
+}
+
+/**
+ * Selection mode for a click: shift adds, ctrl/cmd toggles, otherwise replace
+ */
+export function getSelectionModeFromEvent(evt: {
+  shiftKey: boolean;
+  ctrlKey: boolean;
+  metaKey: boolean;
+}): IfcSelectionMode {
+  if (evt.ctrlKey || evt.metaKey) return "toggle";
+  return evt.shiftKey ? "add" : "replace";
+}
+
+/**
+ * Create a selection manager over the models returned by getModels
+ */
+export function createSelectionManager(scene: Scene, getModels: () => IfcModel[]): IfcSelectionManager {
+  const onSelectionChangedObservable = new Observable<IfcSelectionChangedEvent>();
+  // Selected expressIDs per modelID
+  const selected = new Map<number, Set<number>>();
+
+  const has = ({ modelID, expressID }: IfcElementRef) => selected.get(modelID)?.has(expressID) ?? false;
+
+  const getSelectedExpressIDs = () => {
+    const result = new Map<number, number[]>();
+    selected.forEach((expressIDs, modelID) => result.set(modelID, Array.from(expressIDs)));
+    return result;
+  };
+
+  const getElements = () => getModels().flatMap((model) => getIfcElementMeshes(model.meshes));
+
+  const select = (elements: IfcElementRef[], mode: IfcSelectionMode = "replace") => {
+    const added: IfcElementRef[] = [];
+    const removed: IfcElementRef[] = [];
+
+    const add = ({ modelID, expressID }: IfcElementRef) => {
+      let expressIDs = selected.get(modelID);
+      if (!expressIDs) {
+        expressIDs = new Set();
+        selected.set(modelID, expressIDs);
+      }
+      if (expressIDs.has(expressID)) return;
+      expressIDs.add(expressID);
+      added.push({ modelID, expressID });
+    };
+    const remove = ({ modelID, expressID }: IfcElementRef) => {
+      const expressIDs = selected.get(modelID);
+      if (!expressIDs?.delete(expressID)) return;
+      if (expressIDs.size === 0) selected.delete(modelID);
+      removed.push({ modelID, expressID });
+    };
+
+    // Elements spanning several meshes come in once per mesh
+    const unique = new Map<string, IfcElementRef>();
+    elements.forEach((element) => unique.set(`${element.modelID}:${element.expressID}`, element));
+    const refs = Array.from(unique.values());
+
+    if (mode === "replace") {
+      const keep = new Set(unique.keys());
+      getSelectedExpressIDs().forEach((expressIDs, modelID) =>
+        expressIDs.forEach((expressID) => {
+          if (!keep.has(`${modelID}:${expressID}`)) remove({ modelID, expressID });
+        }),
+      );
+    }
+    refs.forEach((ref) => {
+      if (mode === "remove" || (mode === "toggle" && has(ref))) {
+        remove(ref);
+      } else {
+        add(ref);
+      }
+    });
+
+    if (added.length > 0 || removed.length > 0) {
+      onSelectionChangedObservable.notifyObservers({ added, removed, selection: getSelectedExpressIDs() });
+    }
+  };
+
+  const getSelectedElements = () => getElements().filter(({ metadata }) => has(metadata));
+
+  return {
+    onSelectionChangedObservable,
+    select,
+
+    selectInBox(x1, y1, x2, y2, mode) {
+      const camera = scene.activeCamera;
+      if (!camera) return;
+
+      // Project in render pixels, then back to pointer coordinates
+      const engine = scene.getEngine();
+      const scaling = engine.getHardwareScalingLevel();
+      const viewport = camera.viewport.toGlobal(engine.getRenderWidth(), engine.getRenderHeight());
+      const transform = scene.getTransformMatrix();
+      const [minX, maxX] = [Math.min(x1, x2), Math.max(x1, x2)];
+      const [minY, maxY] = [Math.min(y1, y2), Math.max(y1, y2)];
+
+      const inBox = getModels()
+        .filter((model) => isIfcModelVisible(model))
+        .flatMap((model) => getIfcElementMeshes(model.meshes))
+        .filter((element) => {
+          if (!isIfcElementVisible(element)) return false;
+          const center = getIfcElementBoundingBox(element).centerWorld;
+          const screen = Vector3.Project(center, Matrix.IdentityReadOnly, transform, viewport);
+          const x = screen.x * scaling;
+          const y = screen.y * scaling;
+          return screen.z >= 0 && screen.z <= 1 && x >= minX && x <= maxX && y >= minY && y <= maxY;
+        });
+      select(inBox.map(({ metadata }) => metadata), mode);
+    },
+
+    selectSameType(mode) {
+      const types = new Set(getSelectedElements().map(({ metadata }) => metadata.ifcType));
+      select(
+        getElements()
+          .filter(({ metadata }) => types.has(metadata.ifcType))
+          .map(({ metadata }) => metadata),
+        mode,
+      );
+    },
+
+    selectByStorey(modelID, storeyIDs, mode) {
+      const storeys = new Set(storeyIDs);
+      select(
+        getElements()
+          .filter(({ metadata }) => metadata.modelID === modelID && storeys.has(metadata.storeyID ?? -1))
+          .map(({ metadata }) => metadata),
+        mode,
+      );
+    },
+
+    selectSameStorey(mode) {
+      const storeys = new Set(
+        getSelectedElements()
+          .filter(({ metadata }) => metadata.storeyID !== undefined)
+          .map(({ metadata }) => `${metadata.modelID}:${metadata.storeyID}`),
+      );
+      select(
+        getElements()
+          .filter(({ metadata }) => storeys.has(`${metadata.modelID}:${metadata.storeyID}`))
+          .map(({ metadata }) => metadata),
+        mode,
+      );
+    },
+
+    clear: () => select([], "replace"),
+
+    deselectModel(modelID) {
+      const expressIDs = selected.get(modelID);
+      if (!expressIDs) return;
+      select(Array.from(expressIDs, (expressID) => ({ modelID, expressID })), "remove");
+    },
+
+    isSelected: has,
+    getCount: () => Array.from(selected.values()).reduce((sum, expressIDs) => sum + expressIDs.size, 0),
+    getSelectedExpressIDs,
+    getSelectedElements,
+  };
+}
@@ -0,0 +1,259 @@
+import * as WebIFC from "web-ifc";
+
+/**
+ * Node of the spatial structure tree (Project → Site → Building → Storey → Space → Element)
+ */
+export interface IfcSpatialNode {
+  expressID: number;
+  /** IFC type code */
+  type: number;
+  /** IFC type name as returned by web-ifc (e.g. IfcBuildingStorey) */
+  typeName: string;
+  name: string;
+  longName?: string;
+  /** Storey elevation (IfcBuildingStorey.Elevation) */
+  elevation?: number;
+  /** True for spatial structure elements (project, site, building, storey, space, facilities) */
+  isSpatial: boolean;
+  children: IfcSpatialNode[];
+  /** Number of non-spatial elements in this subtree, excluding the node itself */
+  elementCount: number;
+}
+
+/** Spatial structure element that contains an element */
+export interface IfcSpatialContainerRef {
+  expressID: number;
+  typeName: string;
+  name: string;
+  longName?: string;
+  elevation?: number;
+}
+
+/** Spatial containers of an element, from the nearest space up to the site */
+export interface IfcSpatialContext {
+  space: IfcSpatialContainerRef | null;
+  storey: IfcSpatialContainerRef | null;
+  building: IfcSpatialContainerRef | null;
+  site: IfcSpatialContainerRef | null;
+}
+
+// Child → parent lookups, built once per model
+const parentIndexCache = new Map<number, Map<number, number>>();
+
+// Types treated as spatial structure; everything else is an element
+const SPATIAL_TYPES = new Set<number>([
+  WebIFC.IFCPROJECT,
+  WebIFC.IFCSITE,
+  WebIFC.IFCBUILDING,
+  WebIFC.IFCBUILDINGSTOREY,
+  WebIFC.IFCSPACE,
+  WebIFC.IFCFACILITY,
+  WebIFC.IFCFACILITYPART,
+  WebIFC.IFCBRIDGE,
+  WebIFC.IFCROAD,
+  WebIFC.IFCRAILWAY,
+  WebIFC.IFCMARINEFACILITY,
+  WebIFC.IFCSPATIALZONE,
+  WebIFC.IFCEXTERNALSPATIALELEMENT,
+]);
+
+/**
+ * Collect parent → children relations from a relationship type
+ */
+function collectRelations(
+  ifcAPI: WebIFC.IfcAPI,
+  modelID: number,
+  relType: number,
+  relatingKey: string,
+  relatedKey: string,
+  children: Map<number, number[]>,
+): void {
+  const rels = ifcAPI.GetLineIDsWithType(modelID, relType);
+
+  for (let i = 0; i < rels.size(); i++) {
+    const rel = ifcAPI.GetLine(modelID, rels.get(i));
+    const parentID = rel[relatingKey]?.value;
+    if (!parentID || !rel[relatedKey]) continue;
+
+    let list = children.get(parentID);
+    if (!list) {
+      list = [];
+      children.set(parentID, list);
+    }
+
+    rel[relatedKey].forEach((child: any) => {
+      if (child && child.value) {
+        list!.push(child.value);
+      }
+    });
+  }
+}
+
+/**
+ * Build the spatial structure tree of a model from IfcRelAggregates and IfcRelContainedInSpatialStructure
+ * @returns The IfcProject node, or null if the model has no project
+ */
+export function getSpatialTree(ifcAPI: WebIFC.IfcAPI, modelID: number): IfcSpatialNode | null {
+  const projects = ifcAPI.GetLineIDsWithType(modelID, WebIFC.IFCPROJECT);
+  if (projects.size() === 0) return null;
+
+  const startTime = performance.now();
+  const children = new Map<number, number[]>();
+
+  try {
+    // Decomposition (project → site → building → storey → space, and element parts)
+    collectRelations(ifcAPI, modelID, WebIFC.IFCRELAGGREGATES, "RelatingObject", "RelatedObjects", children);
+    // Containment (storey/space → elements)
+    collectRelations(
+      ifcAPI,
+      modelID,
+      WebIFC.IFCRELCONTAINEDINSPATIALSTRUCTURE,
+      "RelatingStructure",
+      "RelatedElements",
+      children,
+    );
+  } catch (error) {
+    console.warn("Error collecting spatial relations:", error);
+  }
+
+  // Guard against cyclic or duplicated relations in malformed files
+  const visited = new Set<number>();
+
+  const buildNode = (expressID: number): IfcSpatialNode => {
+    visited.add(expressID);
+
+    const line = ifcAPI.GetLine(modelID, expressID);
+    const type = line.type;
+
+    const node: IfcSpatialNode = {
+      expressID,
+      type,
+      typeName: ifcAPI.GetNameFromTypeCode(type),
+      name: line.Name?.value || "",
+      longName: line.LongName?.value || undefined,
+      elevation: line.Elevation?.value,
+      isSpatial: SPATIAL_TYPES.has(type),
+      children: [],
+      elementCount: 0,
+    };
+
+    for (const childID of children.get(expressID) ?? []) {
+      if (visited.has(childID)) continue;
+
+      const child = buildNode(childID);
+      node.children.push(child);
+      node.elementCount += child.elementCount + (child.isSpatial ? 0 : 1);
+    }
+
+    // Spatial children first (ordered by elevation for storeys), then elements by type
+    node.children.sort((a, b) => {
+      if (a.isSpatial !== b.isSpatial) return a.isSpatial ? -1 : 1;
+      if (a.elevation !== undefined && b.elevation !== undefined) return a.elevation - b.elevation;
+      return a.typeName.localeCompare(b.typeName) || a.name.localeCompare(b.name);
+    });
+
+    return node;
+  };
+
+  const tree = buildNode(projects.get(0));
+
+  console.log(
+    `🌳 Built spatial tree for model ${modelID}: ${tree.elementCount} elements in ${(performance.now() - startTime).toFixed(2)}ms`,
+  );
+
+  return tree;
+}
+
+/**
+ * Collect the express IDs of a node and all of its descendants
+ */
+export function collectSpatialExpressIDs(node: IfcSpatialNode, result: number[] = []): number[] {
+  result.push(node.expressID);
+  node.children.forEach((child) => collectSpatialExpressIDs(child, result));
+  return result;
+}
+
+/**
+ * Find a node by express ID
+ */
+export function findSpatialNode(node: IfcSpatialNode, expressID: number): IfcSpatialNode | null {
+  if (node.expressID === expressID) return node;
+
+  for (const child of node.children) {
+    const found = findSpatialNode(child, expressID);
+    if (found) return found;
+  }
+
+  return null;
+}
+
+/**
+ * Build (or return the cached) child → parent lookup from aggregation and containment relations
+ */
+function getParentIndex(ifcAPI: WebIFC.IfcAPI, modelID: number): Map<number, number> {
+  const cached = parentIndexCache.get(modelID);
+  if (cached) return cached;
+
+  const children = new Map<number, number[]>();
+  try {
+    collectRelations(ifcAPI, modelID, WebIFC.IFCRELAGGREGATES, "RelatingObject", "RelatedObjects", children);
+    collectRelations(
+      ifcAPI,
+      modelID,
+      WebIFC.IFCRELCONTAINEDINSPATIALSTRUCTURE,
+      "RelatingStructure",
+      "RelatedElements",
+      children,
+    );
+  } catch (error) {
+    console.warn("Error collecting spatial relations:", error);
+  }
+
+  const parents = new Map<number, number>();
+  children.forEach((childIDs, parentID) => {
+    childIDs.forEach((childID) => parents.set(childID, parentID));
+  });
+
+  parentIndexCache.set(modelID, parents);
+  return parents;
+}
+
+/**
+ * Drop the cached parent lookup of a model (call when the model is closed)
+ */
+export function clearSpatialIndex(modelID: number): void {
+  parentIndexCache.delete(modelID);
+}
+
+/**
+ * Find the space, storey, building and site that contain an element
+ * Walks up containment and aggregation, so parts of aggregated elements resolve too.
+ */
+export function getSpatialContext(ifcAPI: WebIFC.IfcAPI, modelID: number, expressID: number): IfcSpatialContext {
+  const context: IfcSpatialContext = { space: null, storey: null, building: null, site: null };
+  const parents = getParentIndex(ifcAPI, modelID);
+  const visited = new Set<number>([expressID]);
+
+  let currentID = parents.get(expressID);
+  while (currentID !== undefined && !visited.has(currentID)) {
+    visited.add(currentID);
+
+    const line = ifcAPI.GetLine(modelID, currentID);
+    const ref: IfcSpatialContainerRef = {
+      expressID: currentID,
+      typeName: ifcAPI.GetNameFromTypeCode(line.type),
+      name: line.Name?.value || "",
+      longName: line.LongName?.value || undefined,
+      elevation: line.Elevation?.value,
+    };
+
+    if (line.type === WebIFC.IFCSPACE && !context.space) context.space = ref;
+    if (line.type === WebIFC.IFCBUILDINGSTOREY && !context.storey) context.storey = ref;
+    if (line.type === WebIFC.IFCBUILDING && !context.building) context.building = ref;
+    if (line.type === WebIFC.IFCSITE && !context.site) context.site = ref;
+
+    currentID = parents.get(currentID);
+  }
+
+  return context;
+}
@@ -0,0 +1,238 @@
+import * as WebIFC from "web-ifc";
+import { AbstractMesh, ArcRotateCamera, Camera, Vector3, type Observer, type Scene } from "@babylonjs/core";
+import { getModelBounds, type IfcModel } from "./ifcLoader";
+import { getProjectUnits } from "./ifcMetadata";
+import { findUnit, getLengthUnitScale, getUnitSymbol } from "./ifcUnits";
+import type { IfcSectionState, IfcSectionTool } from "./ifcSection";
+import { getIfcElementMeshes, setIfcElementsVisible, type IfcElementMesh } from "./ifcElements";
+import { ifcToSceneCoordinates } from "./ifcGeoreference";
+
+/**
+ * Building storey of a loaded model with its meshes
+ */
+export interface IfcStorey {
+  modelID: number;
+  expressID: number;
+  name: string;
+  longName?: string;
+  /** IfcBuildingStorey.Elevation in project length units (relative to the building) */
+  elevation: number;
+  /** Symbol of the project length unit (e.g. "mm") */
+  elevationUnit: string;
+  /**
+   * Height of the storey placement as a scene Y coordinate (after coordinateToOrigin and the model transform);
+   * the lowest point of its meshes if the placement cannot be read
+   */
+  sceneElevation: number;
+  /** Meshes drawing elements of the storey (batched meshes may hold other storeys too) */
+  meshes: AbstractMesh[];
+}
+
+/** Storey filter: only the storey, or the storey and everything below it */
+export type IfcStoreyFilterMode = "only" | "upTo";
+
+export interface IfcPlanViewOptions {
+  /** Height of the horizontal cut above the storey elevation, in metres (default 1.2) */
+  cutHeight?: number;
+  /** Extra space around the storey bounds, as a fraction of their size (default 0.05) */
+  margin?: number;
+}
+
+/**
+ * Active top-down orthographic plan view
+ */
+export interface IfcPlanView {
+  storey: IfcStorey;
+  /** Restore the previous camera and section state */
+  exit(): void;
+}
+
+/**
+ * Get the scene Y of a storey from its placement, else from its meshes, else from its Elevation
+ * The model's coordination matrix is the one the loader returned: the main-thread API never streams
+ * geometry when a worker or the cache built the model, so its own matrix lacks the shift to the origin.
+ */
+function getStoreySceneElevation(
+  ifcAPI: WebIFC.IfcAPI,
+  model: IfcModel,
+  line: any,
+  lengthScale: number,
+  meshes: AbstractMesh[],
+): number {
+  try {
+    if (line.ObjectPlacement?.value) {
+      // IFC world transform of the placement, Z up, in project length units
+      const placement = ifcAPI.GetWorldTransformMatrix(model.modelID, line.ObjectPlacement.value);
+      const origin = new Vector3(placement[12], placement[13], placement[14]).scaleInPlace(lengthScale);
+      return ifcToSceneCoordinates(model, origin).y;
+    }
+  } catch (error) {
+    console.warn(`Could not read the placement of storey ${line.expressID}:`, error);
+  }
+
+  const bounds = getModelBounds(meshes);
+  if (bounds) return bounds.min.y;
+  return ifcToSceneCoordinates(model, new Vector3(0, 0, (line.Elevation?.value ?? 0) * lengthScale)).y;
+}
+
+/**
+ * List the building storeys of a model, sorted by elevation
+ * Meshes are matched through `metadata.storeyID`, recorded at load time.
+ */
+export async function getStoreys(ifcAPI: WebIFC.IfcAPI, model: IfcModel): Promise<IfcStorey[]> {
+  const { modelID } = model;
+  const storeyIDs = ifcAPI.GetLineIDsWithType(modelID, WebIFC.IFCBUILDINGSTOREY);
+  if (storeyIDs.size() === 0) return [];
+
+  // Elevations and placements are in project units; geometry is in metres, moved by the coordination matrix
+  const lengthUnit = findUnit(await getProjectUnits(ifcAPI, modelID), "LENGTHUNIT");
+  const scale = getLengthUnitScale(lengthUnit);
+  const elevationUnit = getUnitSymbol(lengthUnit);
+
+  const meshesByStorey = new Map<number, Set<AbstractMesh>>();
+  getIfcElementMeshes(model.meshes).forEach(({ mesh, metadata }) => {
+    if (metadata.storeyID === undefined) return;
+    let meshes = meshesByStorey.get(metadata.storeyID);
+    if (!meshes) {
+      meshes = new Set();
+      meshesByStorey.set(metadata.storeyID, meshes);
+    }
+    meshes.add(mesh);
+  });
+
+  const storeys: IfcStorey[] = [];
+  for (let i = 0; i < storeyIDs.size(); i++) {
+    const expressID = storeyIDs.get(i);
+    const line = ifcAPI.GetLine(modelID, expressID);
+    const elevation = line.Elevation?.value ?? 0;
+    const meshes = Array.from(meshesByStorey.get(expressID) ?? []);
+
+    storeys.push({
+      modelID,
+      expressID,
+      name: line.Name?.value || "",
+      longName: line.LongName?.value || undefined,
+      elevation,
+      elevationUnit,
+      sceneElevation: getStoreySceneElevation(ifcAPI, model, line, scale, meshes),
+      meshes,
+    });
+  }
+
+  return storeys.sort((a, b) => a.sceneElevation - b.sceneElevation);
+}
+
+/**
+ * Show one storey, or a storey and everything below it, across all models
+ * Storeys of other models are compared by scene elevation. Meshes without a storey
+ * (site, terrain) are hidden in "only" mode and kept in "upTo" mode.
+ */
+export function showStorey(
+  models: IfcModel[],
+  storeys: IfcStorey[],
+  storey: IfcStorey,
+  mode: IfcStoreyFilterMode = "only",
+): void {
+  const visibleStoreys = new Set<string>();
+  storeys.forEach((candidate) => {
+    const visible = mode === "only" ? candidate === storey : candidate.sceneElevation <= storey.sceneElevation + 1e-3;
+    if (visible) visibleStoreys.add(`${candidate.modelID}:${candidate.expressID}`);
+  });
+
+  const elements = models.flatMap((model) => getIfcElementMeshes(model.meshes));
+  const isShown = ({ metadata }: IfcElementMesh) =>
+    metadata.storeyID === undefined ? mode === "upTo" : visibleStoreys.has(`${metadata.modelID}:${metadata.storeyID}`);
+
+  setIfcElementsVisible(elements.filter(isShown), true);
+  setIfcElementsVisible(
+    elements.filter((element) => !isShown(element)),
+    false,
+  );
+}
+
+/**
+ * Show every mesh of the given models again
+ */
+export function showAllStoreys(models: IfcModel[]): void {
+  setIfcElementsVisible(
+    models.flatMap((model) => getIfcElementMeshes(model.meshes)),
+    true,
+  );
+}
+
+/**
+ * Switch to a top-down orthographic view of a storey, cut at `cutHeight` above its elevation
+ * The section tool holds the cut plane; its previous state comes back on exit.
+ */
+export function enterPlanView(
+  camera: ArcRotateCamera,
+  storey: IfcStorey,
+  section: IfcSectionTool,
+  options: IfcPlanViewOptions = {},
+): IfcPlanView {
+  const { cutHeight = 1.2, margin = 0.05 } = options;
+  const scene: Scene = camera.getScene();
+  const engine = scene.getEngine();
+
+  const previousCamera = {
+    target: camera.target.clone(),
+    alpha: camera.alpha,
+    beta: camera.beta,
+    radius: camera.radius,
+    mode: camera.mode,
+    lowerBetaLimit: camera.lowerBetaLimit,
+    upperBetaLimit: camera.upperBetaLimit,
+  };
+  const previousSection: IfcSectionState = section.getState();
+
+  // Cut everything above the plan height
+  const cutY = storey.sceneElevation + cutHeight;
+  section.setState({
+    box: null,
+    planes: [{ point: [0, cutY, 0], normal: [0, 1, 0] }],
+    capping: previousSection.capping,
+  });
+
+  // Look straight down at the storey centre; alpha keeps +Z pointing up on screen
+  const bounds = getModelBounds(storey.meshes);
+  const center = bounds ? bounds.center.clone() : camera.target.clone();
+  center.y = storey.sceneElevation;
+  const halfExtent = bounds ? Math.max(bounds.size.x, bounds.size.z) * (0.5 + margin) : camera.radius / 2;
+
+  camera.lowerBetaLimit = 0;
+  camera.upperBetaLimit = 0;
+  camera.setTarget(center);
+  camera.alpha = -Math.PI / 2;
+  camera.beta = 0;
+  camera.mode = Camera.ORTHOGRAPHIC_CAMERA;
+  // Radius drives the orthographic extents so wheel zoom keeps working
+  camera.radius = halfExtent / Math.tan(camera.fov / 2);
+
+  const updateExtents = () => {
+    const halfHeight = camera.radius * Math.tan(camera.fov / 2);
+    const aspect = engine.getAspectRatio(camera);
+    camera.orthoTop = halfHeight;
+    camera.orthoBottom = -halfHeight;
+    camera.orthoLeft = -halfHeight * aspect;
+    camera.orthoRight = halfHeight * aspect;
+  };
+  updateExtents();
+  const observer: Observer<Scene> = scene.onBeforeRenderObservable.add(updateExtents);
+
+  console.log(`🗺️ Plan view of ${storey.name || storey.expressID} cut at ${cutY.toFixed(2)}`);
+
+  return {
+    storey,
+    exit: () => {
+      scene.onBeforeRenderObservable.remove(observer);
+      camera.mode = previousCamera.mode;
+      camera.lowerBetaLimit = previousCamera.lowerBetaLimit;
+      camera.upperBetaLimit = previousCamera.upperBetaLimit;
+      camera.setTarget(previousCamera.target);
+      camera.alpha = previousCamera.alpha;
+      camera.beta = previousCamera.beta;
+      camera.radius = previousCamera.radius;
+      section.setState(previousSection);
+    },
+  };
+}
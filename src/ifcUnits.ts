@@ -0,0 +1,154 @@
+/** Unit as returned by getProjectUnits */
+export interface IfcUnitInfo {
+  type?: number;
+  unitType?: string;
+  name?: string;
+  prefix?: string;
+  value?: any;
+}
+
+// IfcSIUnitName → symbol
+const SI_SYMBOLS: Record<string, string> = {
+  METRE: "m",
+  SQUARE_METRE: "m²",
+  CUBIC_METRE: "m³",
+  GRAM: "g",
+  SECOND: "s",
+  RADIAN: "rad",
+  STERADIAN: "sr",
+  DEGREE_CELSIUS: "°C",
+  KELVIN: "K",
+  AMPERE: "A",
+  VOLT: "V",
+  WATT: "W",
+  NEWTON: "N",
+  PASCAL: "Pa",
+  JOULE: "J",
+  HERTZ: "Hz",
+  LUX: "lx",
+  LUMEN: "lm",
+  CANDELA: "cd",
+  MOLE: "mol",
+  OHM: "Ω",
+  COULOMB: "C",
+  FARAD: "F",
+  HENRY: "H",
+  SIEMENS: "S",
+  TESLA: "T",
+  WEBER: "Wb",
+  BECQUEREL: "Bq",
+  GRAY: "Gy",
+  SIEVERT: "Sv",
+};
+
+// IfcSIPrefix → symbol and factor
+const SI_PREFIXES: Record<string, { symbol: string; factor: number }> = {
+  EXA: { symbol: "E", factor: 1e18 },
+  PETA: { symbol: "P", factor: 1e15 },
+  TERA: { symbol: "T", factor: 1e12 },
+  GIGA: { symbol: "G", factor: 1e9 },
+  MEGA: { symbol: "M", factor: 1e6 },
+  KILO: { symbol: "k", factor: 1e3 },
+  HECTO: { symbol: "h", factor: 1e2 },
+  DECA: { symbol: "da", factor: 1e1 },
+  DECI: { symbol: "d", factor: 1e-1 },
+  CENTI: { symbol: "c", factor: 1e-2 },
+  MILLI: { symbol: "m", factor: 1e-3 },
+  MICRO: { symbol: "µ", factor: 1e-6 },
+  NANO: { symbol: "n", factor: 1e-9 },
+  PICO: { symbol: "p", factor: 1e-12 },
+  FEMTO: { symbol: "f", factor: 1e-15 },
+  ATTO: { symbol: "a", factor: 1e-18 },
+};
+
+// Common conversion-based length units → metres
+const CONVERSION_LENGTH_FACTORS: Record<string, number> = {
+  INCH: 0.0254,
+  FOOT: 0.3048,
+  YARD: 0.9144,
+  MILE: 1609.344,
+};
+
+// IFC measure type → IfcUnitEnum used to look up the project unit
+const MEASURE_UNIT_TYPES: Record<string, string> = {
+  IFCLENGTHMEASURE: "LENGTHUNIT",
+  IFCPOSITIVELENGTHMEASURE: "LENGTHUNIT",
+  IFCNONNEGATIVELENGTHMEASURE: "LENGTHUNIT",
+  IFCAREAMEASURE: "AREAUNIT",
+  IFCVOLUMEMEASURE: "VOLUMEUNIT",
+  IFCMASSMEASURE: "MASSUNIT",
+  IFCPLANEANGLEMEASURE: "PLANEANGLEUNIT",
+  IFCPOSITIVEPLANEANGLEMEASURE: "PLANEANGLEUNIT",
+  IFCTIMEMEASURE: "TIMEUNIT",
+  IFCTHERMODYNAMICTEMPERATUREMEASURE: "THERMODYNAMICTEMPERATUREUNIT",
+  IFCELECTRICCURRENTMEASURE: "ELECTRICCURRENTUNIT",
+  IFCELECTRICVOLTAGEMEASURE: "ELECTRICVOLTAGEUNIT",
+  IFCPOWERMEASURE: "POWERUNIT",
+  IFCFORCEMEASURE: "FORCEUNIT",
+  IFCPRESSUREMEASURE: "PRESSUREUNIT",
+  IFCENERGYMEASURE: "ENERGYUNIT",
+  IFCFREQUENCYMEASURE: "FREQUENCYUNIT",
+  IFCILLUMINANCEMEASURE: "ILLUMINANCEUNIT",
+  IFCLUMINOUSFLUXMEASURE: "LUMINOUSFLUXUNIT",
+  IFCLUMINOUSINTENSITYMEASURE: "LUMINOUSINTENSITYUNIT",
+};
+
+// Quantity kind (see IfcQuantityValue) → IfcUnitEnum
+const QUANTITY_UNIT_TYPES: Record<string, string> = {
+  length: "LENGTHUNIT",
+  area: "AREAUNIT",
+  volume: "VOLUMEUNIT",
+  weight: "MASSUNIT",
+  time: "TIMEUNIT",
+};
+
+/**
+ * Get a display symbol for a unit (e.g. "mm", "m²", "kg"); conversion-based units use their lowercase name
+ */
+export function getUnitSymbol(unit: IfcUnitInfo | null | undefined): string {
+  if (!unit || !unit.name) return "";
+
+  const siSymbol = SI_SYMBOLS[unit.name];
+  if (siSymbol) {
+    const prefix = unit.prefix ? (SI_PREFIXES[unit.prefix]?.symbol ?? "") : "";
+    return `${prefix}${siSymbol}`;
+  }
+
+  // Conversion-based units (FOOT, DEGREE, ...) carry a free-form name
+  return unit.name.toLowerCase().replace(/_/g, " ");
+}
+
+/**
+ * Get the factor that converts a value in this length unit to metres (1 if unknown)
+ */
+export function getLengthUnitScale(unit: IfcUnitInfo | null | undefined): number {
+  if (!unit || !unit.name) return 1;
+
+  if (unit.name === "METRE") {
+    return unit.prefix ? (SI_PREFIXES[unit.prefix]?.factor ?? 1) : 1;
+  }
+
+  return CONVERSION_LENGTH_FACTORS[unit.name.toUpperCase()] ?? 1;
+}
+
+/**
+ * Find the project unit for an IfcUnitEnum value (e.g. "LENGTHUNIT")
+ */
+export function findUnit(units: IfcUnitInfo[] | null | undefined, unitType: string): IfcUnitInfo | null {
+  return units?.find((unit) => unit.unitType === unitType) ?? null;
+}
+
+/**
+ * Get the IfcUnitEnum for an IFC measure type name (e.g. IFCLENGTHMEASURE → LENGTHUNIT)
+ */
+export function getUnitTypeForMeasure(measureType: string | undefined): string | null {
+  if (!measureType) return null;
+  return MEASURE_UNIT_TYPES[measureType.toUpperCase()] ?? null;
+}
+
+/**
+ * Get the IfcUnitEnum for a quantity kind (e.g. "area" → AREAUNIT); counts have no unit
+ */
+export function getUnitTypeForQuantity(kind: string): string | null {
+  return QUANTITY_UNIT_TYPES[kind] ?? null;
+}
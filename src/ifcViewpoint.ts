@@ -0,0 +1,74 @@
+import { ArcRotateCamera, Camera, Vector3, type TargetCamera } from "@babylonjs/core";
+import type { IfcSectionState, IfcSectionTool } from "./ifcSection";
+
+/**
+ * Saved view: camera placement and section state (JSON-serializable)
+ */
+export interface IfcViewpoint {
+  name: string;
+  camera: {
+    position: [number, number, number];
+    target: [number, number, number];
+    /** Vertical field of view in radians */
+    fov: number;
+    /** Projection; plan views are orthographic */
+    mode: "perspective" | "orthographic";
+    /** Visible height of an orthographic view; the width follows the aspect ratio on restore */
+    orthoHeight: number | null;
+  };
+  section: IfcSectionState | null;
+}
+
+/**
+ * Capture the current camera and section state
+ */
+export function captureViewpoint(name: string, camera: TargetCamera, section?: IfcSectionTool | null): IfcViewpoint {
+  const target = camera.getTarget();
+
+  return {
+    name,
+    camera: {
+      position: [camera.position.x, camera.position.y, camera.position.z],
+      target: [target.x, target.y, target.z],
+      fov: camera.fov,
+      mode: camera.mode === Camera.ORTHOGRAPHIC_CAMERA ? "orthographic" : "perspective",
+      orthoHeight:
+        camera.mode === Camera.ORTHOGRAPHIC_CAMERA ? (camera.orthoTop ?? 0) - (camera.orthoBottom ?? 0) : null,
+    },
+    section: section ? section.getState() : null,
+  };
+}
+
+/**
+ * Move the camera to a viewpoint and restore its section state
+ */
+export function restoreViewpoint(viewpoint: IfcViewpoint, camera: TargetCamera, section?: IfcSectionTool | null): void {
+  const position = Vector3.FromArray(viewpoint.camera.position);
+  const target = Vector3.FromArray(viewpoint.camera.target);
+
+  if (camera instanceof ArcRotateCamera) {
+    // Arc rotate cameras derive their position from target, alpha, beta and radius
+    camera.setTarget(target);
+    camera.setPosition(position);
+  } else {
+    camera.position.copyFrom(position);
+    camera.setTarget(target);
+  }
+  camera.fov = viewpoint.camera.fov;
+
+  if (viewpoint.camera.mode === "orthographic") {
+    const halfHeight = (viewpoint.camera.orthoHeight ?? Vector3.Distance(position, target)) / 2;
+    const aspect = camera.getEngine().getAspectRatio(camera);
+    camera.mode = Camera.ORTHOGRAPHIC_CAMERA;
+    camera.orthoTop = halfHeight;
+    camera.orthoBottom = -halfHeight;
+    camera.orthoLeft = -halfHeight * aspect;
+    camera.orthoRight = halfHeight * aspect;
+  } else {
+    camera.mode = Camera.PERSPECTIVE_CAMERA;
+  }
+
+  section?.setState(viewpoint.section);
+
+  console.log(`📷 Restored viewpoint "${viewpoint.name}"`);
+}
@@ -0,0 +1,140 @@
+import type { IfcModel } from "./ifcLoader";
+import {
+  getIfcElementMeshes,
+  setIfcElementsVisible,
+  isIfcElementVisible,
+  setIfcElementsGhosted,
+  getIfcElementAlpha,
+  type IfcElementMesh,
+} from "./ifcElements";
+
+/** Number of elements and meshes of one IFC type across the given models */
+export interface IfcTypeCount {
+  ifcType: number;
+  ifcTypeName: string;
+  elementCount: number;
+  /** Element meshes of this type (batch ranges count as meshes) */
+  meshCount: number;
+  /** Meshes of this type that are currently visible */
+  visibleMeshCount: number;
+  /** Meshes of this type that are currently ghosted */
+  ghostedMeshCount: number;
+}
+
+/** Mesh visibility used for ghosted meshes */
+export const DEFAULT_GHOST_ALPHA = 0.15;
+
+/**
+ * List every IFC element mesh of the given models
+ */
+function getModelElements(models: IfcModel[]): IfcElementMesh[] {
+  return models.flatMap((model) => getIfcElementMeshes(model.meshes));
+}
+
+/**
+ * Count elements, meshes, visible and ghosted meshes per IFC type, sorted by type name
+ */
+export function getTypeCounts(models: IfcModel[]): IfcTypeCount[] {
+  const counts = new Map<number, IfcTypeCount & { elements: Set<string> }>();
+
+  getModelElements(models).forEach((element) => {
+    const { metadata } = element;
+    let count = counts.get(metadata.ifcType);
+    if (!count) {
+      count = {
+        ifcType: metadata.ifcType,
+        ifcTypeName: metadata.ifcTypeName,
+        elementCount: 0,
+        meshCount: 0,
+        visibleMeshCount: 0,
+        ghostedMeshCount: 0,
+        elements: new Set<string>(),
+      };
+      counts.set(metadata.ifcType, count);
+    }
+
+    count.meshCount++;
+    if (isIfcElementVisible(element)) count.visibleMeshCount++;
+    if (getIfcElementAlpha(element) < 1) count.ghostedMeshCount++;
+    count.elements.add(`${metadata.modelID}:${metadata.expressID}`);
+  });
+
+  return Array.from(counts.values())
+    .map(({ elements, ...count }) => ({ ...count, elementCount: elements.size }))
+    .sort((a, b) => a.ifcTypeName.localeCompare(b.ifcTypeName));
+}
+
+/**
+ * Get all element meshes of the given IFC types
+ */
+export function getElementsByType(models: IfcModel[], ifcTypes: number[]): IfcElementMesh[] {
+  const types = new Set(ifcTypes);
+  return getModelElements(models).filter((element) => types.has(element.metadata.ifcType));
+}
+
+/**
+ * Show or hide all meshes of the given IFC types
+ */
+export function setTypeVisibility(models: IfcModel[], ifcTypes: number[], visible: boolean): void {
+  setIfcElementsVisible(getElementsByType(models, ifcTypes), visible);
+}
+
+/**
+ * Show only the given IFC types and hide everything else
+ */
+export function isolateTypes(models: IfcModel[], ifcTypes: number[]): void {
+  const types = new Set(ifcTypes);
+  const elements = getModelElements(models);
+  setIfcElementsVisible(
+    elements.filter((element) => types.has(element.metadata.ifcType)),
+    true,
+  );
+  setIfcElementsVisible(
+    elements.filter((element) => !types.has(element.metadata.ifcType)),
+    false,
+  );
+}
+
+/**
+ * Show only the given elements (expressIDs per modelID, e.g. a query result) and hide everything else
+ */
+export function isolateElements(models: IfcModel[], expressIDs: Map<number, number[]>): void {
+  const keep = new Set(
+    Array.from(expressIDs, ([modelID, ids]) => ids.map((expressID) => `${modelID}:${expressID}`)).flat(),
+  );
+  const elements = getModelElements(models);
+  const isKept = ({ metadata }: IfcElementMesh) => keep.has(`${metadata.modelID}:${metadata.expressID}`);
+  setIfcElementsVisible(elements.filter(isKept), true);
+  setIfcElementsVisible(
+    elements.filter((element) => !isKept(element)),
+    false,
+  );
+}
+
+/**
+ * Make meshes of the given IFC types semi-transparent and unpickable, or restore them
+ */
+export function setTypeGhosted(
+  models: IfcModel[],
+  ifcTypes: number[],
+  ghosted: boolean,
+  alpha = DEFAULT_GHOST_ALPHA,
+): void {
+  setIfcElementsGhosted(getElementsByType(models, ifcTypes), ghosted ? alpha : null);
+}
+
+/**
+ * Show every IFC element again (ghosting is kept)
+ */
+export function showAllElements(models: IfcModel[]): void {
+  setIfcElementsVisible(getModelElements(models), true);
+}
+
+/**
+ * Show and un-ghost every IFC mesh
+ */
+export function resetTypeFilters(models: IfcModel[]): void {
+  const elements = getModelElements(models);
+  setIfcElementsVisible(elements, true);
+  setIfcElementsGhosted(elements, null);
+}
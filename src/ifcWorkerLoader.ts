@@ -0,0 +1,164 @@
+import type * as WebIFC from "web-ifc";
+import type { IfcGeometryFailure, IfcGeometryPart } from "./ifcGeometry";
+
+/** Messages sent from the main thread to the geometry worker */
+export type IfcWorkerRequest = {
+  type: "load";
+  requestId: number;
+  wasmPath: string;
+  data: ArrayBuffer;
+  settings: WebIFC.LoaderSettings;
+  batchSize: number;
+};
+
+/** Messages sent from the geometry worker back to the main thread */
+export type IfcWorkerResponse =
+  | { type: "parts"; requestId: number; parts: IfcGeometryPart[]; current: number; total: number }
+  | {
+      type: "done";
+      requestId: number;
+      partCount: number;
+      timeMs: number;
+      coordinationMatrix: number[];
+      failures: IfcGeometryFailure[];
+    }
+  | { type: "error"; requestId: number; message: string };
+
+/** Result of a worker load once all geometry has been streamed */
+export interface IfcWorkerStreamResult {
+  /** Matrix web-ifc applied to the geometry */
+  coordinationMatrix: number[];
+  /** Placed geometries that could not be read */
+  failures: IfcGeometryFailure[];
+}
+
+/**
+ * Handle to a Web Worker that runs web-ifc and streams geometry parts to the main thread
+ */
+export interface IfcGeometryWorker {
+  /**
+   * Tessellate an IFC file in the worker.
+   * `onParts` receives batches of parts with transferred buffers as soon as they are produced.
+   * Resolves with the coordination matrix and the failed geometries once all geometry has been streamed;
+   * rejects on error or cancellation.
+   */
+  stream(
+    data: ArrayBuffer,
+    settings: WebIFC.LoaderSettings,
+    batchSize: number,
+    onParts: (parts: IfcGeometryPart[], current: number, total: number) => void,
+  ): Promise<IfcWorkerStreamResult>;
+  /** Abort the running load; the worker is restarted on the next call to stream() */
+  cancel(): void;
+  /** Whether a load is currently running */
+  isBusy(): boolean;
+  /** Stop the worker for good */
+  terminate(): void;
+}
+
+/** Error thrown when a worker load is cancelled */
+export const IFC_WORKER_CANCELLED = "IFC geometry streaming cancelled";
+
+/**
+ * Create a geometry worker
+ * @param wasmPath Folder containing web-ifc.wasm, relative to the page (same value as initializeWebIFC)
+ */
+export function createIfcGeometryWorker(wasmPath = "./"): IfcGeometryWorker {
+  // Workers resolve relative URLs against the worker script, so pass an absolute folder
+  const absoluteWasmPath = new URL(wasmPath, location.href).href;
+
+  let worker: Worker | null = null;
+  let nextRequestId = 1;
+  let pending: { requestId: number; reject: (error: Error) => void } | null = null;
+
+  const getWorker = (): Worker => {
+    if (!worker) {
+      worker = new Worker(new URL("./ifcGeometryWorker.ts", import.meta.url), { type: "module" });
+      console.log("🧵 IFC geometry worker started");
+    }
+    return worker;
+  };
+
+  const stream: IfcGeometryWorker["stream"] = (data, settings, batchSize, onParts) => {
+    if (pending) {
+      return Promise.reject(new Error("IFC geometry worker is busy with another load"));
+    }
+
+    const activeWorker = getWorker();
+    const requestId = nextRequestId++;
+
+    return new Promise<IfcWorkerStreamResult>((resolve, reject) => {
+      pending = { requestId, reject };
+
+      const finish = () => {
+        activeWorker.removeEventListener("message", onMessage);
+        activeWorker.removeEventListener("error", onError);
+        pending = null;
+      };
+
+      const onMessage = (event: MessageEvent<IfcWorkerResponse>) => {
+        const message = event.data;
+        if (message.requestId !== requestId) return;
+
+        switch (message.type) {
+          case "parts":
+            onParts(message.parts, message.current, message.total);
+            break;
+          case "done":
+            console.log(`🧵 Worker streamed ${message.partCount} parts in ${message.timeMs.toFixed(2)}ms`);
+            finish();
+            resolve({ coordinationMatrix: message.coordinationMatrix, failures: message.failures });
+            break;
+          case "error":
+            finish();
+            reject(new Error(message.message));
+            break;
+        }
+      };
+
+      const onError = (event: ErrorEvent) => {
+        finish();
+        reject(new Error(`IFC geometry worker failed: ${event.message}`));
+      };
+
+      activeWorker.addEventListener("message", onMessage);
+      activeWorker.addEventListener("error", onError);
+
+      const request: IfcWorkerRequest = {
+        type: "load",
+        requestId,
+        wasmPath: absoluteWasmPath,
+        data,
+        settings,
+        batchSize,
+      };
+      activeWorker.postMessage(request, [data]);
+    });
+  };
+
+  const terminate = () => {
+    worker?.terminate();
+    worker = null;
+  };
+
+  const cancel = () => {
+    if (!pending) return;
+
+    // web-ifc streams synchronously inside the worker, so the only reliable way to stop it is to terminate it
+    const { reject } = pending;
+    pending = null;
+    terminate();
+    console.log("🧵 IFC geometry worker cancelled");
+    reject(new Error(IFC_WORKER_CANCELLED));
+  };
+
+  return {
+    stream,
+    cancel,
+    isBusy: () => pending !== null,
+    terminate: () => {
+      cancel();
+      terminate();
+    },
+  };
+}
@@ -0,0 +1,147 @@
+import type { IfcModel } from "./ifcLoader";
+import { IFC_LOAD_ERROR_LABELS, IfcLoadError } from "./ifcErrors";
+import type { IfcLoadReport, IfcReportElement } from "./ifcLoadReport";
+
+/** Outcome of one load shown in the panel: a model with a non-empty report, or an error */
+export interface LoadReportEntry {
+  /** File name or URL */
+  name: string;
+  model?: IfcModel;
+  error?: unknown;
+  /** Caption of a failed action other than a load, e.g. "BCF export failed" (default "Load failed") */
+  failure?: string;
+}
+
+/** Callbacks from the load report panel to the viewer */
+export interface LoadReportPanelHandlers {
+  /** Select and frame an element listed in a report */
+  onShowElement: (model: IfcModel, expressID: number) => void;
+  /** Remove an entry from the panel */
+  onDismiss: (entry: LoadReportEntry) => void;
+}
+
+// Elements listed at most per category
+const MAX_ROWS = 100;
+
+const CATEGORIES: { key: Exclude<keyof IfcLoadReport, "warnings">; label: string; title: string }[] = [
+  { key: "failedElements", label: "Failed to tessellate", title: "web-ifc could not process their geometry" },
+  {
+    key: "elementsWithoutGeometry",
+    label: "No geometry",
+    title: "Elements with a shape representation that produced no geometry",
+  },
+  {
+    key: "uncontainedElements",
+    label: "Not in a spatial structure",
+    title: "Elements without a site, building, storey or space; storey filters and the spatial tree miss them",
+  },
+];
+
+// Panel state, kept across refreshes: open categories per entry
+const expandedSections = new Set<string>();
+
+/**
+ * Create or refresh the load report panel; hidden while there is nothing to report
+ * Failed loads and other failed actions show the error kind and message, loaded models the elements
+ * that need attention.
+ */
+export function updateLoadReportPanel(entries: LoadReportEntry[], handlers: LoadReportPanelHandlers): void {
+  let panel = document.getElementById("load-report-panel");
+  if (!panel) {
+    panel = document.createElement("div");
+    panel.id = "load-report-panel";
+    panel.className = "load-report-panel";
+    document.body.appendChild(panel);
+  }
+
+  panel.innerHTML = "";
+  panel.style.display = entries.length > 0 ? "block" : "none";
+  const rerender = () => updateLoadReportPanel(entries, handlers);
+
+  const title = document.createElement("div");
+  title.className = "load-report-title";
+  title.textContent = "Report";
+  panel.appendChild(title);
+
+  entries.forEach((entry) => {
+    const item = document.createElement("div");
+    item.className = "load-report-entry";
+    item.classList.toggle("failed", !entry.model);
+    panel!.appendChild(item);
+
+    const header = document.createElement("div");
+    header.className = "load-report-header";
+    item.appendChild(header);
+
+    const name = document.createElement("span");
+    name.className = "load-report-name";
+    name.textContent = `${entry.model ? "⚠" : "❌"} ${entry.name}`;
+    name.title = entry.name;
+    header.appendChild(name);
+
+    const dismiss = document.createElement("button");
+    dismiss.textContent = "✕";
+    dismiss.title = "Dismiss";
+    dismiss.onclick = () => handlers.onDismiss(entry);
+    header.appendChild(dismiss);
+
+    if (!entry.model) {
+      const { error } = entry;
+      const kind = document.createElement("div");
+      kind.className = "load-report-kind";
+      kind.textContent =
+        error instanceof IfcLoadError ? IFC_LOAD_ERROR_LABELS[error.kind] : (entry.failure ?? "Load failed");
+      item.appendChild(kind);
+
+      const message = document.createElement("div");
+      message.className = "load-report-message";
+      message.textContent = error instanceof Error ? error.message : String(error);
+      item.appendChild(message);
+      return;
+    }
+
+    const model = entry.model;
+    const report = model.loadReport;
+    report.warnings.forEach((warning) => {
+      const message = document.createElement("div");
+      message.className = "load-report-message";
+      message.textContent = warning;
+      item.appendChild(message);
+    });
+
+    CATEGORIES.forEach(({ key, label, title: sectionTitle }) => {
+      const elements: (IfcReportElement & { messages?: string[] })[] = report[key];
+      if (elements.length === 0) return;
+
+      const sectionKey = `${model.modelID}:${key}`;
+      const expanded = expandedSections.has(sectionKey);
+      const section = document.createElement("div");
+      section.className = "load-report-section";
+      section.textContent = `${expanded ? "▾" : "▸"} ${label} (${elements.length})`;
+      section.title = sectionTitle;
+      section.onclick = () => {
+        if (expanded) expandedSections.delete(sectionKey);
+        else expandedSections.add(sectionKey);
+        rerender();
+      };
+      item.appendChild(section);
+      if (!expanded) return;
+
+      elements.slice(0, MAX_ROWS).forEach((element) => {
+        const row = document.createElement("div");
+        row.className = "load-report-element";
+        row.textContent = `${element.ifcTypeName} ${element.name || `#${element.expressID}`}`;
+        row.title = [`#${element.expressID}`, element.globalId, ...(element.messages ?? [])].filter(Boolean).join(" · ");
+        row.onclick = () => handlers.onShowElement(model, element.expressID);
+        item.appendChild(row);
+      });
+
+      if (elements.length > MAX_ROWS) {
+        const more = document.createElement("div");
+        more.className = "load-report-message";
+        more.textContent = `… ${elements.length - MAX_ROWS} more`;
+        item.appendChild(more);
+      }
+    });
+  });
+}
@@ -1,22 +1,149 @@
-import { initializeWebIFC, loadAndRenderIfc, disposeIfcScene, cleanupIfcModel } from "./ifcLoader";
-import { Engine, Scene, ArcRotateCamera, HemisphericLight, Vector3, AbstractMesh, Color3 } from "@babylonjs/core";
+import {
+  initializeWebIFC,
+  loadAndRenderIfc,
+  disposeIfcModel,
+  setIfcModelVisible,
+  isIfcModelVisible,
+  type IfcModel,
+  type IfcLoaderOptions,
+} from "./ifcLoader";
+import { createIfcGeometryWorker, type IfcGeometryWorker } from "./ifcWorkerLoader";
+import { createIfcGeometryCache, type IfcGeometryCache } from "./ifcCache";
+import { updateSpatialTreePanel } from "./spatialTreePanel";
+import { showPropertiesPanel, hidePropertiesPanel, clearPropertiesPanelCache } from "./propertiesPanel";
+import { updateTypeFilterPanel } from "./typeFilterPanel";
+import { exportIfcSceneToGlb, downloadBlob } from "./ifcExport";
+import { createSectionTool, type IfcSectionTool } from "./ifcSection";
+import { captureViewpoint, restoreViewpoint, type IfcViewpoint } from "./ifcViewpoint";
+import { updateSectionPanel } from "./sectionPanel";
+import { updateStoreyPanel, exitStoreyPlanView } from "./storeyPanel";
+import { createMeasureTool, type IfcMeasureTool } from "./ifcMeasure";
+import { updateMeasurePanel } from "./measurePanel";
+import type { IfcBatchMode } from "./ifcBatching";
+import { getPickedIfcElement } from "./ifcElements";
+import { createHighlighter, type IfcHighlighter } from "./ifcHighlight";
+import { updateHighlightPanel } from "./highlightPanel";
+import { createSelectionManager, getSelectionModeFromEvent, type IfcSelectionManager } from "./ifcSelection";
+import { updateSelectionPanel, startBoxSelection } from "./selectionPanel";
+import { updateSearchPanel } from "./searchPanel";
+import { isolateElements, showAllElements } from "./ifcVisibility";
+import { createColorBy, type IfcColorBy, type IfcElementColors } from "./ifcColorBy";
+import { updateColorByPanel } from "./colorByPanel";
+import {
+  captureBcfViewpoint,
+  createBcfProject,
+  exportBcf,
+  importBcf,
+  restoreBcfViewpoint,
+  type BcfProject,
+  type BcfViewContext,
+} from "./ifcBcf";
+import { updateBcfPanel } from "./bcfPanel";
+import { frameIfcElements, selectIfcElementsByGlobalId } from "./ifcGlobalId";
+import {
+  applyIfcDiffView,
+  clearIfcDiffView,
+  compareIfcModels,
+  getIfcDiffReportCsv,
+  type IfcModelDiff,
+} from "./ifcDiff";
+import { updateComparePanel } from "./comparePanel";
+import { updateProgressOverlay } from "./progressOverlay";
+import { isIfcLoadReportEmpty } from "./ifcLoadReport";
+import { updateLoadReportPanel, type LoadReportEntry } from "./loadReportPanel";
+import { getIfcModelInfo, type IfcModelInfo } from "./ifcMetadata";
+import { updateModelInfoPanel } from "./modelInfoPanel";
+import {
+  alignIfcModel,
+  sceneToIfcCoordinates,
+  sceneToMapCoordinates,
+  shareIfcGeoreference,
+} from "./ifcGeoreference";
+import {
+  Engine,
+  Scene,
+  ArcRotateCamera,
+  HemisphericLight,
+  Vector3,
+  Color3,
+  AbstractMesh,
+} from "@babylonjs/core";
 import { ShowInspector } from "@babylonjs/inspector";
 
 // Initialize web-ifc API
 let ifcAPI: any = null;
 
-// Store currently loaded meshes and model ID for cleanup when loading new files
-let currentIfcMeshes: AbstractMesh[] = [];
-let currentModelID: number | null = null;
+// All models currently loaded in the scene (federated models)
+const loadedModels: IfcModel[] = [];
 
-// Store currently highlighted mesh
-let currentHighlightedMesh: AbstractMesh | null = null;
+// Tessellate geometry in a Web Worker so the page stays responsive while loading
+const USE_GEOMETRY_WORKER = true;
+let geometryWorker: IfcGeometryWorker | null = null;
+
+// Keep processed geometry in IndexedDB so reloading a file skips tessellation
+const USE_GEOMETRY_CACHE = true;
+let geometryCache: IfcGeometryCache | null = null;
+
+// Draw repeated geometry (windows, bolts, ...) as instances of one mesh
+const USE_INSTANCING = true;
+
+// Combine element meshes per material ("material") or per material and storey for very large models
+const BATCH_MODE: IfcBatchMode = "none";
+
+// Section box / planes, and whether the next click places a plane
+let sectionTool: IfcSectionTool | null = null;
+let placingSectionPlane = false;
+
+// Distance, area, angle and quantity measurements
+let measureTool: IfcMeasureTool | null = null;
+
+// Viewpoints saved from the section panel
+const savedViewpoints: IfcViewpoint[] = [];
+
+// Selected elements across models (picks, spatial tree nodes, boxes, storeys)
+let selectionManager: IfcSelectionManager | null = null;
+
+// Highlights the selection
+let highlighter: IfcHighlighter | null = null;
+
+// Cancels the armed box selection, if any
+let stopBoxSelection: (() => void) | null = null;
+
+// Highlight the element under the cursor
+let hoverHighlight = true;
+
+// Thematic colours by type, storey, material or property
+let colorBy: IfcColorBy | null = null;
+
+// Colour of search results coloured from the search box
+const SEARCH_RESULT_COLOR = Color3.FromHexString("#edc948");
+
+// BCF topics, comments and viewpoints of the coordination workflow
+let bcfProject: BcfProject = createBcfProject();
+
+// Changes between two loaded revisions, and whether a comparison is running
+let modelDiff: IfcModelDiff | null = null;
+let comparingModels = false;
+
+// Failed loads and models whose load report lists problems
+let loadReports: LoadReportEntry[] = [];
+
+// Model shown in the model info panel, with its header read once
+let modelInfo: { model: IfcModel; info: IfcModelInfo } | null = null;
 
 try {
   // Set WASM path to "./" so web-ifc can find web-ifc.wasm in production
   // In dev, Vite serves from node_modules; in prod, vite-plugin-static-copy puts it at dist root
   ifcAPI = await initializeWebIFC("./");
   console.log("✓ web-ifc initialized successfully!");
+
+  if (USE_GEOMETRY_WORKER && typeof Worker !== "undefined") {
+    // Same WASM folder as the main thread
+    geometryWorker = createIfcGeometryWorker("./");
+  }
+  if (USE_GEOMETRY_CACHE && typeof indexedDB !== "undefined") {
+    geometryCache = createIfcGeometryCache();
+  }
 } catch (error) {
   console.error("⚠ Failed to initialize web-ifc:", error);
   console.log("  The Babylon.js scene will still work, but IFC loading will not be available");
@@ -28,134 +155,39 @@ const canvas = document.getElementById("renderCanvas") as HTMLCanvasElement;
 // Create the Babylon.js engine
 const engine = new Engine(canvas, true);
 
-// Helper function to show properties panel
-// @ts-ignore: Kept for future use
-const showPropertiesPanel = (element: any) => {
-  // Get or create properties panel
-  let panel = document.getElementById("properties-panel");
-  if (!panel) {
-    panel = document.createElement("div");
-    panel.id = "properties-panel";
-    panel.style.cssText = `
-      position: fixed;
-      top: 10px;
-      right: 10px;
-      width: 400px;
-      max-height: 80vh;
-      background: rgba(0, 0, 0, 0.85);
-      color: white;
-      padding: 20px;
-      border-radius: 8px;
-      font-family: 'Courier New', monospace;
-      font-size: 12px;
-      overflow-y: auto;
-      z-index: 1000;
-      box-shadow: 0 4px 6px rgba(0, 0, 0, 0.3);
-    `;
-    document.body.appendChild(panel);
-
-    // Add close button
-    const closeBtn = document.createElement("button");
-    closeBtn.textContent = "✕";
-    closeBtn.style.cssText = `
-      position: absolute;
-      top: 10px;
-      right: 10px;
-      background: rgba(255, 255, 255, 0.2);
-      border: none;
-      color: white;
-      width: 24px;
-      height: 24px;
-      border-radius: 4px;
-      cursor: pointer;
-      font-size: 16px;
-    `;
-    closeBtn.onclick = () => {
-      panel!.style.display = "none";
-    };
-    panel.appendChild(closeBtn);
-  }
+// Setup picking handler for IFC elements
+const setupPickingHandler = (scene: Scene, ifcAPI: any) => {
+  scene.onPointerDown = (evt, pickResult) => {
+    // Only handle left click; box selection handles its own drag
+    if (evt.button !== 0 || stopBoxSelection) return;
 
-  panel.style.display = "block";
+    // Scene picking ignores clip planes, so pick past cut-away geometry while sectioning
+    const pick =
+      sectionTool && sectionTool.getPlaneCount() > 0 ? sectionTool.pick(scene.pointerX, scene.pointerY) : pickResult;
 
-  // Format the element data
-  const formatValue = (value: any, indent = 0): string => {
-    const indentStr = "  ".repeat(indent);
-    if (value === null || value === undefined) {
-      return `${indentStr}<span style="color: #888">null</span>`;
+    // Measurement clicks pick their own (snapped) points
+    if (measureTool?.getActiveKind()) {
+      measureTool.handlePick(scene.pointerX, scene.pointerY);
+      return;
     }
-    if (typeof value === "object") {
-      if (Array.isArray(value)) {
-        if (value.length === 0) return `${indentStr}[]`;
-        return `${indentStr}[\n` + value.map((v) => formatValue(v, indent + 1)).join(",\n") + `\n${indentStr}]`;
+
+    // Place a section plane on the picked face
+    if (placingSectionPlane) {
+      if (pick?.hit && sectionTool) {
+        sectionTool.addPlaneFromPick(pick);
+        placingSectionPlane = false;
+        refreshSectionPanel();
       }
-      const entries = Object.entries(value);
-      if (entries.length === 0) return `${indentStr}{}`;
-      return (
-        `${indentStr}{\n` +
-        entries
-          .map(([k, v]) => `${indentStr}  <span style="color: #4EC9B0">${k}</span>: ${formatValue(v, 0)}`)
-          .join(",\n") +
-        `\n${indentStr}}`
-      );
-    }
-    if (typeof value === "string") {
-      return `${indentStr}<span style="color: #CE9178">"${value}"</span>`;
-    }
-    if (typeof value === "number") {
-      return `${indentStr}<span style="color: #B5CEA8">${value}</span>`;
-    }
-    if (typeof value === "boolean") {
-      return `${indentStr}<span style="color: #569CD6">${value}</span>`;
+      return;
     }
-    return `${indentStr}${value}`;
-  };
-
-  // Build HTML content
-  let html = `<div style="margin-bottom: 30px;">`;
-  html += `<h3 style="margin: 0 0 15px 0; color: #4EC9B0; font-size: 16px;">IFC Element Properties</h3>`;
-  html += `<div style="line-height: 1.6;">`;
-  html += formatValue(element);
-  html += `</div>`;
-  html += `</div>`;
-
-  panel.innerHTML = html;
-
-  // Re-add close button
-  const closeBtn = document.createElement("button");
-  closeBtn.textContent = "✕";
-  closeBtn.style.cssText = `
-    position: absolute;
-    top: 10px;
-    right: 10px;
-    background: rgba(255, 255, 255, 0.2);
-    border: none;
-    color: white;
-    width: 24px;
-    height: 24px;
-    border-radius: 4px;
-    cursor: pointer;
-    font-size: 16px;
-  `;
-  closeBtn.onclick = () => {
-    panel!.style.display = "none";
-  };
-  panel.appendChild(closeBtn);
-};
-
-// Setup picking handler for IFC elements
-const setupPickingHandler = (scene: Scene, ifcAPI: any) => {
-  scene.onPointerDown = (evt, pickResult) => {
-    // Only handle left click
-    if (evt.button !== 0) return;
 
-    if (pickResult.hit && pickResult.pickedMesh) {
-      const pickedMesh = pickResult.pickedMesh;
-      const metadata = pickedMesh.metadata;
+    if (pick && pick.hit && pick.pickedMesh) {
+      const pickedMesh = pick.pickedMesh;
+      // Batched meshes resolve the element from the picked face
+      const pickedElement = getPickedIfcElement(pick);
 
-      if (metadata && metadata.expressID !== undefined && metadata.modelID !== undefined) {
-        const expressID = metadata.expressID;
-        const modelID = metadata.modelID;
+      if (pickedElement) {
+        const { expressID, modelID } = pickedElement.metadata;
 
         console.log(`\n🎯 Picked IFC Element:`);
         console.log(`  Mesh: ${pickedMesh.name}`);
@@ -170,41 +202,71 @@ const setupPickingHandler = (scene: Scene, ifcAPI: any) => {
           console.log(`  Element type name:`, typeName);
           console.log(`  Element data:`, element);
           console.log(`  Element type:`, element.type);
-          console.log(`  Element name:`, element.Name.value);
+          console.log(`  Element name:`, element.Name?.value);
 
-          // Remove previous highlight
-          if (currentHighlightedMesh) {
-            currentHighlightedMesh.renderOverlay = false;
-          }
-
-          // Add teal overlay to picked mesh
-          pickedMesh.renderOverlay = true;
-          pickedMesh.overlayColor = Color3.Teal();
-          pickedMesh.overlayAlpha = 0.3;
-          currentHighlightedMesh = pickedMesh;
+          // Select the picked element; shift adds, ctrl toggles
+          selectionManager?.select([pickedElement.metadata], getSelectionModeFromEvent(evt));
 
           // Update upper text with element info
           const upperText = document.getElementById("upper-text");
           if (upperText) {
             const elementName = element.Name?.value || "Unnamed";
-            upperText.innerHTML = `<strong>${typeName}</strong> | ${elementName} | ID: ${expressID}`;
+            const coordinates = formatPickedPoint(modelID, pick.pickedPoint);
+            upperText.innerHTML = `<strong>${typeName}</strong> | ${elementName} | ID: ${expressID}${coordinates}`;
             upperText.style.display = "block";
           }
 
           // Show properties panel
-          //   showPropertiesPanel(element);
+          showPropertiesPanel(ifcAPI, modelID, expressID);
         } catch (error) {
           console.error(`  Failed to get element data:`, error);
         }
       } else {
-        // Clicked on mesh without IFC metadata - hide upper text and remove highlight
-        hideUpperTextAndClearHighlight();
+        // Clicked on mesh without IFC metadata - hide upper text and clear the selection
+        if (getSelectionModeFromEvent(evt) === "replace") hideUpperTextAndClearHighlight();
       }
-    } else {
-      // Clicked outside the model - hide upper text and remove highlight
+    } else if (getSelectionModeFromEvent(evt) === "replace") {
+      // Clicked outside the model - hide upper text and clear the selection
       hideUpperTextAndClearHighlight();
     }
   };
+
+  // Hover highlight, paused while dragging, measuring or placing a section plane
+  scene.onPointerMove = (evt, pickResult) => {
+    if (!highlighter) return;
+    const busy = measureTool?.getActiveKind() || placingSectionPlane || stopBoxSelection;
+    if (!hoverHighlight || evt.buttons !== 0 || busy) {
+      highlighter.setHovered(null);
+      return;
+    }
+
+    const pick =
+      sectionTool && sectionTool.getPlaneCount() > 0 ? sectionTool.pick(scene.pointerX, scene.pointerY) : pickResult;
+    highlighter.setHovered(getPickedIfcElement(pick));
+  };
+};
+
+// Picked point in map coordinates of the model's CRS, or in project coordinates without a georeference
+const formatPickedPoint = (modelID: number, point: Vector3 | null): string => {
+  const model = loadedModels.find((candidate) => candidate.modelID === modelID);
+  if (!model || !point) return "";
+
+  const format = (value: number) => value.toFixed(3);
+  const map = sceneToMapCoordinates(model, point);
+  if (map) {
+    const crs = model.georeference.crs;
+    return ` | E ${format(map.x)} N ${format(map.y)} H ${format(map.z)} ${crs?.mapUnit ?? ""} ${crs?.name ?? ""}`;
+  }
+  const ifcPoint = sceneToIfcCoordinates(model, point);
+  return ` | X ${format(ifcPoint.x)} Y ${format(ifcPoint.y)} Z ${format(ifcPoint.z)} m`;
+};
+
+// Line a new model up with a loaded model in the same map CRS; other models keep their own shift to the origin
+const alignWithLoadedModels = (model: IfcModel) => {
+  const reference = loadedModels.find((candidate) => shareIfcGeoreference(candidate.georeference, model.georeference));
+  if (reference && alignIfcModel(model, reference)) {
+    console.log(`🌐 Aligned ${model.name} with ${reference.name} through ${model.georeference.crs?.name || "the map"}`);
+  }
 };
 
 // Helper function to hide upper text and clear highlight
@@ -214,9 +276,523 @@ const hideUpperTextAndClearHighlight = () => {
     upperText.style.display = "none";
   }
 
-  if (currentHighlightedMesh) {
-    currentHighlightedMesh.renderOverlay = false;
-    currentHighlightedMesh = null;
+  selectionManager?.clear();
+  hidePropertiesPanel();
+};
+
+// Loader options shared by the default load and dropped files
+const getLoaderOptions = (): IfcLoaderOptions => ({
+  instancing: USE_INSTANCING,
+  batching: BATCH_MODE,
+  ...(geometryWorker ? { worker: geometryWorker } : {}),
+  ...(geometryCache ? { cache: geometryCache } : {}),
+});
+
+// Loads run one at a time: the geometry worker and the progress overlay serve a single load
+let loadQueue: Promise<unknown> = Promise.resolve();
+
+// Load a file or URL with the progress overlay once earlier loads are done; its cancel button aborts `controller`
+const loadModelWithProgress = (scene: Scene, source: string | File, controller: AbortController) => {
+  const name = typeof source === "string" ? source : source.name;
+  const handlers = { onCancel: () => controller.abort() };
+
+  const load = loadQueue.then(() => {
+    updateProgressOverlay({ name, phase: "download", current: 0, total: 0 }, handlers);
+    return loadAndRenderIfc(ifcAPI, source, scene, {
+      ...getLoaderOptions(),
+      signal: controller.signal,
+      onProgress: (current, total, phase) => updateProgressOverlay({ name, phase, current, total }, handlers),
+    }).finally(() => updateProgressOverlay(null, handlers));
+  });
+  loadQueue = load.catch(() => undefined);
+  return load;
+};
+
+// Collect meshes of all visible models
+const getVisibleModelMeshes = (): AbstractMesh[] =>
+  loadedModels.filter((model) => isIfcModelVisible(model)).flatMap((model) => model.meshes);
+
+// Remove a model from the scene and free its WASM memory
+const removeModel = (model: IfcModel) => {
+  const index = loadedModels.indexOf(model);
+  if (index === -1) return;
+
+  // Drop the model from the selection, keeping the other models' elements; the highlight is rebuilt without the model
+  if (selectionManager?.getSelectedExpressIDs().has(model.modelID)) {
+    selectionManager.deselectModel(model.modelID);
+    if (selectionManager.getCount() === 0) hideUpperTextAndClearHighlight();
+  }
+  highlighter?.clear();
+  // A comparison needs both revisions
+  if (modelDiff?.beforeModelID === model.modelID || modelDiff?.afterModelID === model.modelID) clearModelDiff();
+  // Colours are reapplied by the user; the legend would still count the removed model
+  colorBy?.reset();
+
+  clearPropertiesPanelCache(model.modelID);
+  disposeIfcModel(ifcAPI, model);
+  loadedModels.splice(index, 1);
+  highlighter?.setSelection(selectionManager?.getSelectedElements() ?? []);
+  updateModelsPanel();
+  refreshSpatialTree();
+  refreshTypeFilter();
+  sectionTool?.refresh();
+  refreshStoreyPanel();
+  refreshSearchPanel();
+  refreshColorByPanel();
+  refreshComparePanel();
+  loadReports = loadReports.filter((entry) => entry.model !== model);
+  refreshLoadReportPanel();
+  if (modelInfo?.model === model) showModelInfo(null);
+
+  // Measurements follow the project units of the first model
+  if (index === 0 && loadedModels.length > 0) useMeasureUnitsOf(loadedModels[0]);
+};
+
+// Measure in the project units of a model; unreadable units keep the current unit
+const useMeasureUnitsOf = (model: IfcModel) => {
+  measureTool?.useProjectUnits(model.modelID).catch((error) => {
+    console.warn(`⚠ Could not read the project units of ${model.name}:`, error);
+  });
+};
+
+// Helper function to refresh the spatial structure tree for the loaded models
+const refreshSpatialTree = () => {
+  updateSpatialTreePanel(ifcAPI, loadedModels, {
+    onSelect: (model, node, elements) => {
+      selectionManager?.select(elements.map(({ metadata }) => metadata));
+      showPropertiesPanel(ifcAPI, model.modelID, node.expressID);
+
+      const upperText = document.getElementById("upper-text");
+      if (upperText) {
+        const nodeName = node.name || node.longName || "Unnamed";
+        upperText.innerHTML = `<strong>${node.typeName}</strong> | ${nodeName} | ID: ${node.expressID} | ${elements.length} meshes`;
+        upperText.style.display = "block";
+      }
+    },
+    onVisibilityChange: () => refreshTypeFilter(),
+  });
+};
+
+// Helper function to refresh the IFC type checklist for the loaded models
+const refreshTypeFilter = () => {
+  updateTypeFilterPanel(loadedModels, {
+    onChange: () => refreshSpatialTree(),
+  });
+};
+
+// Helper function to refresh the search box; results can be selected, isolated or coloured
+const refreshSearchPanel = () => {
+  if (!ifcAPI) return;
+
+  updateSearchPanel(ifcAPI, loadedModels, {
+    onSelect: (result) =>
+      selectionManager?.select(
+        Array.from(result, ([modelID, expressIDs]) => expressIDs.map((expressID) => ({ modelID, expressID }))).flat(),
+      ),
+    onIsolate: (result) => {
+      isolateElements(loadedModels, result);
+      refreshSpatialTree();
+      refreshTypeFilter();
+    },
+    onColor: (result) => {
+      if (!colorBy) return;
+      // The search colours replace a comparison's colours
+      clearModelDiff();
+      const colors: IfcElementColors = new Map(
+        Array.from(result, ([modelID, expressIDs]) => [
+          modelID,
+          new Map(expressIDs.map((expressID) => [expressID, SEARCH_RESULT_COLOR])),
+        ]),
+      );
+      const count = Array.from(result.values()).reduce((sum, expressIDs) => sum + expressIDs.length, 0);
+      colorBy.colorElements(colors, {
+        kind: "categorical",
+        title: "Search results",
+        entries: [{ label: "Found", color: SEARCH_RESULT_COLOR, count }],
+      });
+      highlighter?.setSelection(selectionManager?.getSelectedElements() ?? []);
+      refreshColorByPanel();
+      refreshSpatialTree();
+      refreshTypeFilter();
+      refreshComparePanel();
+    },
+    onShowAll: () => {
+      showAllElements(loadedModels);
+      refreshSpatialTree();
+      refreshTypeFilter();
+    },
+  });
+};
+
+// Helper function to refresh the colour-by panel; the highlight is rebuilt on top of the new colours
+const refreshColorByPanel = () => {
+  if (!colorBy) return;
+
+  updateColorByPanel(colorBy, {
+    onChange: () => highlighter?.setSelection(selectionManager?.getSelectedElements() ?? []),
+  });
+};
+
+// Viewpoints use the loaded models, the active camera and the section tool
+const getBcfContext = (): BcfViewContext => ({
+  camera: scene.activeCamera as ArcRotateCamera,
+  models: loadedModels,
+  section: sectionTool,
+});
+
+// Helper function to refresh the BCF issues panel
+const refreshBcfPanel = () => {
+  if (!ifcAPI) return;
+
+  updateBcfPanel(bcfProject, {
+    onCaptureViewpoint: () =>
+      captureBcfViewpoint(getBcfContext(), selectionManager?.getSelectedExpressIDs() ?? new Map()),
+    onRestoreViewpoint: (viewpoint) => {
+      // The plan view locks the camera looking down
+      exitStoreyPlanView();
+      const selection = restoreBcfViewpoint(getBcfContext(), viewpoint);
+      selectionManager?.select(selection);
+      refreshSpatialTree();
+      refreshTypeFilter();
+      refreshSectionPanel();
+      refreshStoreyPanel();
+    },
+    onImport: async (file) => {
+      try {
+        bcfProject = await importBcf(file);
+      } catch (error) {
+        console.error("Failed to import BCF file:", error);
+        reportFailure(file.name, "BCF import failed", error);
+      }
+      refreshBcfPanel();
+    },
+    onExport: async (version) => {
+      try {
+        const blob = await exportBcf(bcfProject, version);
+        downloadBlob(blob, `${bcfProject.name || "issues"}.bcfzip`);
+      } catch (error) {
+        console.error("Failed to export BCF file:", error);
+        reportFailure(`${bcfProject.name || "issues"}.bcfzip`, "BCF export failed", error);
+      }
+    },
+  });
+};
+
+// Drop the revision comparison: IFC colours and every element of the old revision again
+const clearModelDiff = () => {
+  if (!modelDiff || !colorBy) return;
+  const before = loadedModels.find((model) => model.modelID === modelDiff!.beforeModelID);
+  clearIfcDiffView(before, colorBy);
+  modelDiff = null;
+};
+
+// Record the outcome of a load in the load report panel; clean loads are not listed
+const reportLoad = (entry: LoadReportEntry) => {
+  if (entry.model && isIfcLoadReportEmpty(entry.model.loadReport)) return;
+  loadReports.push(entry);
+  refreshLoadReportPanel();
+};
+
+// Show a failed action (import, export, comparison, ...) in the load report panel instead of an alert
+const reportFailure = (name: string, failure: string, error: unknown) => {
+  loadReports.push({ name, failure, error });
+  refreshLoadReportPanel();
+};
+
+// Helper function to refresh the load report panel
+const refreshLoadReportPanel = () => {
+  updateLoadReportPanel(loadReports, {
+    onShowElement: (model, expressID) => {
+      const element = { modelID: model.modelID, expressID };
+      selectionManager?.select([element]);
+      frameIfcElements(scene.activeCamera as ArcRotateCamera, loadedModels, [element]);
+      // Elements without geometry cannot be selected, but still have properties
+      showPropertiesPanel(ifcAPI, model.modelID, expressID);
+    },
+    onDismiss: (entry) => {
+      loadReports = loadReports.filter((candidate) => candidate !== entry);
+      refreshLoadReportPanel();
+    },
+  });
+};
+
+// Show the schema, file header and authoring of a model in the model info panel; null closes it
+const showModelInfo = (model: IfcModel | null) => {
+  modelInfo = model ? { model, info: getIfcModelInfo(ifcAPI, model.modelID) } : null;
+  const shown = modelInfo && {
+    name: modelInfo.model.name,
+    info: modelInfo.info,
+    georeference: modelInfo.model.georeference,
+  };
+  updateModelInfoPanel(shown, {
+    onClose: () => showModelInfo(null),
+  });
+};
+
+// Helper function to refresh the revision compare panel; changes are coloured through the colour-by tool
+const refreshComparePanel = () => {
+  if (!ifcAPI || !colorBy) return;
+
+  updateComparePanel(loadedModels, modelDiff, comparingModels, {
+    onCompare: async (before, after) => {
+      clearModelDiff();
+      comparingModels = true;
+      refreshComparePanel();
+      try {
+        modelDiff = await compareIfcModels(ifcAPI, before, after);
+        applyIfcDiffView(modelDiff, before, after, colorBy!);
+      } catch (error) {
+        console.error("Failed to compare models:", error);
+        reportFailure(`${before.name} → ${after.name}`, "Comparison failed", error);
+      }
+      comparingModels = false;
+      highlighter?.setSelection(selectionManager?.getSelectedElements() ?? []);
+      refreshColorByPanel();
+      refreshSpatialTree();
+      refreshTypeFilter();
+      refreshComparePanel();
+    },
+    onClear: () => {
+      clearModelDiff();
+      highlighter?.setSelection(selectionManager?.getSelectedElements() ?? []);
+      refreshColorByPanel();
+      refreshSpatialTree();
+      refreshTypeFilter();
+      refreshComparePanel();
+    },
+    onShowChange: (change) => {
+      // Removed elements are only in the old revision
+      const element =
+        change.afterExpressID !== undefined
+          ? { modelID: modelDiff!.afterModelID, expressID: change.afterExpressID }
+          : { modelID: modelDiff!.beforeModelID, expressID: change.beforeExpressID! };
+      selectionManager?.select([element]);
+      frameIfcElements(scene.activeCamera as ArcRotateCamera, loadedModels, [element]);
+    },
+    onExport: () => {
+      if (!modelDiff) return;
+      downloadBlob(new Blob([getIfcDiffReportCsv(modelDiff)], { type: "text/csv" }), "changes.csv");
+    },
+  });
+};
+
+// Helper function to refresh the storey navigator for the loaded models
+const refreshStoreyPanel = () => {
+  if (!sectionTool) return;
+
+  updateStoreyPanel(ifcAPI, loadedModels, scene.activeCamera as ArcRotateCamera, sectionTool, {
+    onVisibilityChange: () => {
+      refreshSpatialTree();
+      refreshTypeFilter();
+    },
+    onSelectStorey: (storey, evt) =>
+      selectionManager?.selectByStorey(storey.modelID, [storey.expressID], getSelectionModeFromEvent(evt)),
+  });
+};
+
+// Helper function to refresh the measurement toolbar and list
+const refreshMeasurePanel = () => {
+  if (measureTool) updateMeasurePanel(measureTool);
+};
+
+// Helper function to refresh the highlight mode panel
+const refreshHighlightPanel = () => {
+  if (!highlighter) return;
+
+  updateHighlightPanel(highlighter, hoverHighlight, {
+    onHoverChange: (enabled) => {
+      hoverHighlight = enabled;
+      if (!enabled) highlighter?.setHovered(null);
+      refreshHighlightPanel();
+    },
+  });
+};
+
+// Helper function to arm or cancel box selection; the camera stays still while a box is drawn
+const setBoxSelection = (active: boolean) => {
+  const camera = scene.activeCamera as ArcRotateCamera;
+  stopBoxSelection?.();
+  stopBoxSelection = null;
+  camera.attachControl(canvas, true);
+
+  if (active) {
+    camera.detachControl();
+    highlighter?.setHovered(null);
+    stopBoxSelection = startBoxSelection(canvas, (x1, y1, x2, y2, evt) => {
+      selectionManager?.selectInBox(x1, y1, x2, y2, getSelectionModeFromEvent(evt));
+      setBoxSelection(false);
+    });
+  }
+  refreshSelectionPanel();
+};
+
+// Helper function to refresh the selection panel
+const refreshSelectionPanel = () => {
+  if (!selectionManager) return;
+
+  updateSelectionPanel(selectionManager, stopBoxSelection !== null, {
+    onBoxSelect: (active) => setBoxSelection(active),
+    onFrame: () => {
+      const selection = selectionManager!.getSelectedElements().map(({ metadata }) => metadata);
+      frameIfcElements(scene.activeCamera as ArcRotateCamera, loadedModels, selection);
+    },
+    onCopyLink: () => {
+      const globalIds = new Set(selectionManager!.getSelectedElements().map(({ metadata }) => metadata.globalId));
+      globalIds.delete("");
+      // replaceState does not fire hashchange, so the view stays put
+      history.replaceState(null, "", `#guid=${Array.from(globalIds).join(",")}`);
+      navigator.clipboard?.writeText(location.href).catch(() => {});
+      console.log(`🔗 Link to ${globalIds.size} elements: ${location.href}`);
+    },
+  });
+};
+
+// Select and frame the elements of a `#guid=<GlobalId>,<GlobalId>` link, once their models are loaded
+const showElementsFromUrl = () => {
+  const guids = new URLSearchParams(location.hash.slice(1)).get("guid");
+  if (!guids || !selectionManager || loadedModels.length === 0) return;
+
+  const { elements } = selectIfcElementsByGlobalId(selectionManager, loadedModels, guids.split(","));
+  frameIfcElements(scene.activeCamera as ArcRotateCamera, loadedModels, elements);
+};
+
+// Helper function to refresh the section tools and saved viewpoints
+const refreshSectionPanel = () => {
+  if (!sectionTool) return;
+
+  updateSectionPanel(sectionTool, savedViewpoints, placingSectionPlane, {
+    onPlacePlane: (placing) => {
+      placingSectionPlane = placing;
+      refreshSectionPanel();
+    },
+    onSaveViewpoint: () => {
+      const camera = scene.activeCamera as ArcRotateCamera;
+      savedViewpoints.push(captureViewpoint(`View ${savedViewpoints.length + 1}`, camera, sectionTool));
+      refreshSectionPanel();
+    },
+    onRestoreViewpoint: (viewpoint) => {
+      // The plan view locks the camera looking down
+      exitStoreyPlanView();
+      restoreViewpoint(viewpoint, scene.activeCamera as ArcRotateCamera, sectionTool);
+      refreshSectionPanel();
+      refreshStoreyPanel();
+    },
+    onDeleteViewpoint: (viewpoint) => {
+      savedViewpoints.splice(savedViewpoints.indexOf(viewpoint), 1);
+      refreshSectionPanel();
+    },
+  });
+};
+
+// Helper function to render the list of loaded models with show/hide and remove controls
+const updateModelsPanel = () => {
+  let panel = document.getElementById("models-panel");
+  if (!panel) {
+    panel = document.createElement("div");
+    panel.id = "models-panel";
+    panel.className = "models-panel";
+    document.body.appendChild(panel);
+  }
+
+  panel.innerHTML = "";
+  panel.style.display = loadedModels.length > 0 ? "block" : "none";
+
+  const title = document.createElement("div");
+  title.className = "models-panel-title";
+
+  const titleText = document.createElement("span");
+  titleText.textContent = `Models (${loadedModels.length})`;
+
+  const exportBtn = document.createElement("button");
+  exportBtn.textContent = "⤓ GLB";
+  exportBtn.title = "Export loaded models to GLB";
+  exportBtn.onclick = () => exportModelsToGlb(exportBtn);
+
+  const actions = document.createElement("span");
+  actions.className = "models-panel-actions";
+  actions.appendChild(exportBtn);
+
+  if (geometryCache) {
+    const clearCacheBtn = document.createElement("button");
+    clearCacheBtn.textContent = "🗑 Cache";
+    clearCacheBtn.title = "Clear the geometry cache; the next load of every file tessellates it again";
+    clearCacheBtn.onclick = () => clearGeometryCache(clearCacheBtn);
+    actions.appendChild(clearCacheBtn);
+  }
+
+  title.appendChild(titleText);
+  title.appendChild(actions);
+  panel.appendChild(title);
+
+  loadedModels.forEach((model) => {
+    const row = document.createElement("div");
+    row.className = "models-panel-row";
+
+    const visibility = document.createElement("input");
+    visibility.type = "checkbox";
+    visibility.checked = isIfcModelVisible(model);
+    visibility.title = "Show/hide model";
+    visibility.onchange = () => {
+      setIfcModelVisible(model, visibility.checked);
+      if (!visibility.checked && selectionManager?.getSelectedExpressIDs().has(model.modelID)) {
+        hideUpperTextAndClearHighlight();
+      }
+    };
+
+    const label = document.createElement("span");
+    label.className = "models-panel-name";
+    label.textContent = model.name;
+    label.title = `${model.name} (Model ID: ${model.modelID}, ${model.meshes.length} meshes)`;
+
+    const infoBtn = document.createElement("button");
+    infoBtn.textContent = "ℹ";
+    infoBtn.title = "Model info: schema, file header and authoring applications";
+    infoBtn.onclick = () => showModelInfo(modelInfo?.model === model ? null : model);
+
+    const removeBtn = document.createElement("button");
+    removeBtn.textContent = "✕";
+    removeBtn.title = "Remove model";
+    removeBtn.onclick = () => removeModel(model);
+
+    row.appendChild(visibility);
+    row.appendChild(label);
+    row.appendChild(infoBtn);
+    row.appendChild(removeBtn);
+    panel!.appendChild(row);
+  });
+};
+
+// Export all loaded models to a GLB file and download it
+const exportModelsToGlb = async (button: HTMLButtonElement) => {
+  if (loadedModels.length === 0) return;
+
+  const fileName =
+    loadedModels.length === 1 ? loadedModels[0].name.replace(/^.*\//, "").replace(/\.ifc$/i, "") : "models";
+
+  button.disabled = true;
+  try {
+    const glb = await exportIfcSceneToGlb(ifcAPI, loadedModels, { fileName });
+    downloadBlob(glb, `${fileName}.glb`);
+  } catch (error) {
+    console.error("Failed to export GLB:", error);
+    reportFailure(`${fileName}.glb`, "GLB export failed", error);
+  } finally {
+    button.disabled = false;
+  }
+};
+
+// Remove every file from the geometry cache
+const clearGeometryCache = async (button: HTMLButtonElement) => {
+  if (!geometryCache) return;
+
+  button.disabled = true;
+  try {
+    await geometryCache.clear();
+  } catch (error) {
+    console.error("Failed to clear the geometry cache:", error);
+    reportFailure("Geometry cache", "Clearing the cache failed", error);
+  } finally {
+    button.disabled = false;
   }
 };
 
@@ -272,20 +848,61 @@ const createScene = async (): Promise<Scene> => {
   const light = new HemisphericLight("light", new Vector3(0, 1, 0), scene);
   light.intensity = 0.7;
 
+  // Section box and planes over all loaded models
+  sectionTool = createSectionTool(
+    scene,
+    () => loadedModels.flatMap((model) => model.meshes),
+    () => refreshSectionPanel(),
+  );
+
+  // Selection and hover highlight; the ghost mode fades every other loaded element
+  highlighter = createHighlighter(scene, () => loadedModels.flatMap((model) => model.meshes), {
+    onChange: () => refreshHighlightPanel(),
+  });
+  selectionManager = createSelectionManager(scene, () => loadedModels);
+  selectionManager.onSelectionChangedObservable.add(({ selection }) => {
+    highlighter?.setSelection(selectionManager!.getSelectedElements());
+    refreshSelectionPanel();
+    if (selection.size > 0) {
+      console.log(`🔷 Selected ${selectionManager!.getCount()} elements in ${selection.size} models`);
+    }
+  });
+
+  if (ifcAPI) {
+    colorBy = createColorBy(ifcAPI, () => loadedModels);
+  }
+
+  // Measurements snap to visible geometry and skip cut-away parts
+  if (ifcAPI) {
+    measureTool = createMeasureTool(ifcAPI, scene, {
+      pick: (x, y) => sectionTool!.pick(x, y),
+      onChange: () => refreshMeasurePanel(),
+    });
+  }
+
   // After creating the scene...
   if (ifcAPI) {
+    const controller = new AbortController();
     try {
-      const { meshes: initialMeshes, modelID } = await loadAndRenderIfc(ifcAPI, "/test.ifc", scene);
-      currentIfcMeshes = initialMeshes;
-      currentModelID = modelID;
-      console.log(`✓ Loaded ${currentIfcMeshes.length} IFC meshes (Model ID: ${modelID})`);
+      const model = await loadModelWithProgress(scene, "/test.ifc", controller);
+      loadedModels.push(model);
+      reportLoad({ name: model.name, model });
+      useMeasureUnitsOf(model);
+      updateModelsPanel();
+      refreshSpatialTree();
+      refreshTypeFilter();
+      console.log(`✓ Loaded ${model.meshes.length} IFC meshes (Model ID: ${model.modelID})`);
 
       // Adjust camera to view the loaded model
-      if (currentIfcMeshes.length > 0) {
-        adjustCameraToMeshes(currentIfcMeshes, camera);
+      if (model.meshes.length > 0) {
+        adjustCameraToMeshes(model.meshes, camera);
       }
     } catch (error) {
-      console.error("Failed to load IFC file:", error);
+      // Cancelling is logged by the loader
+      if (!controller.signal.aborted) {
+        console.error("Failed to load IFC file:", error);
+        reportLoad({ name: "/test.ifc", error });
+      }
     }
   }
 
@@ -302,6 +919,33 @@ const createScene = async (): Promise<Scene> => {
 // Create the scene
 const scene = await createScene();
 
+// Panels that need the scene camera
+refreshSectionPanel();
+refreshStoreyPanel();
+refreshMeasurePanel();
+refreshHighlightPanel();
+refreshSelectionPanel();
+refreshSearchPanel();
+refreshColorByPanel();
+refreshBcfPanel();
+refreshComparePanel();
+showElementsFromUrl();
+window.addEventListener("hashchange", showElementsFromUrl);
+
+// Escape stops measuring, box selection or placing a section plane; Enter closes an area polygon
+window.addEventListener("keydown", (e) => {
+  if (e.key === "Escape") {
+    measureTool?.cancel();
+    if (stopBoxSelection) setBoxSelection(false);
+    if (placingSectionPlane) {
+      placingSectionPlane = false;
+      refreshSectionPanel();
+    }
+  } else if (e.key === "Enter") {
+    measureTool?.finish();
+  }
+});
+
 // Run the render loop
 engine.runRenderLoop(() => {
   scene.render();
@@ -336,52 +980,49 @@ if (ifcAPI) {
     const files = e.dataTransfer?.files;
     if (!files || files.length === 0) return;
 
-    const file = files[0];
-
-    // Check if it's an IFC file
-    if (!file.name.toLowerCase().endsWith(".ifc")) {
+    // Only accept IFC files; every dropped file is added as a separate model
+    const ifcFiles = Array.from(files).filter((file) => file.name.toLowerCase().endsWith(".ifc"));
+    if (ifcFiles.length === 0) {
       console.error("Please drop an IFC file (.ifc extension)");
-      alert("Please drop an IFC file (.ifc extension)");
+      Array.from(files).forEach((file) =>
+        reportLoad({ name: file.name, error: new Error("Not an IFC file: only .ifc files can be loaded") }),
+      );
       return;
     }
 
-    try {
-      console.log(`\n📦 Loading dropped file: ${file.name}`);
-
-      // Dispose of previously loaded model
-      if (currentIfcMeshes.length > 0 || currentModelID !== null) {
-        console.log(`  Cleaning up previous model...`);
+    // Cancel stops the current file and skips the remaining ones
+    const controller = new AbortController();
+    for (const file of ifcFiles) {
+      if (controller.signal.aborted) break;
+      try {
+        console.log(`\n📦 Loading dropped file: ${file.name}`);
 
-        // Dispose all meshes, materials, and the ifc-root node
-        disposeIfcScene(scene);
-
-        // Close the IFC model and free WASM memory
-        if (currentModelID !== null) {
-          cleanupIfcModel(ifcAPI, currentModelID);
-        }
+        // Add the new IFC model next to the already loaded ones
+        const model = await loadModelWithProgress(scene, file, controller);
+        alignWithLoadedModels(model);
+        loadedModels.push(model);
+        reportLoad({ name: file.name, model });
+        if (loadedModels.length === 1) useMeasureUnitsOf(model);
+        updateModelsPanel();
+        refreshSpatialTree();
+        refreshTypeFilter();
+        sectionTool?.refresh();
+        refreshStoreyPanel();
+        refreshComparePanel();
 
-        currentIfcMeshes = [];
-        currentModelID = null;
-      }
-
-      // Hide upper text and clear highlight when loading new model
-      hideUpperTextAndClearHighlight();
-
-      // Load the new IFC file
-      const { meshes, modelID } = await loadAndRenderIfc(ifcAPI, file, scene);
-      currentIfcMeshes = meshes;
-      currentModelID = modelID;
-
-      // Adjust camera to view the loaded model
-      const camera = scene.activeCamera as ArcRotateCamera;
-      if (camera) {
-        adjustCameraToMeshes(meshes, camera);
+        console.log(`✅ Successfully loaded ${file.name} (${loadedModels.length} models in scene)\n`);
+      } catch (error) {
+        if (controller.signal.aborted) break;
+        console.error("Failed to load IFC file:", error);
+        reportLoad({ name: file.name, error });
       }
+    }
 
-      console.log(`✅ Successfully loaded ${file.name}\n`);
-    } catch (error) {
-      console.error("Failed to load IFC file:", error);
-      alert(`Failed to load IFC file: ${error}`);
+    // Adjust camera to view all loaded models
+    const camera = scene.activeCamera as ArcRotateCamera;
+    if (camera) {
+      adjustCameraToMeshes(getVisibleModelMeshes(), camera);
     }
+    showElementsFromUrl();
   });
 }
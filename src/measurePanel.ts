@@ -0,0 +1,121 @@
+import type { IfcMeasureTool, IfcMeasurementKind } from "./ifcMeasure";
+import { downloadBlob } from "./ifcExport";
+
+// Toolbar buttons: kind, caption, tooltip
+const MEASURE_MODES: [IfcMeasurementKind, string, string][] = [
+  ["distance", "↔", "Distance between two points"],
+  ["area", "▱", "Area of a polygon (click the first point or ✓ to close)"],
+  ["angle", "∠", "Angle between three points"],
+  ["faceDistance", "⟂", "Perpendicular distance between two faces"],
+  ["quantities", "Σ", "Quantities of an element"],
+];
+
+// Hint for the next click of the measurement in progress
+function getHint(kind: IfcMeasurementKind, pointCount: number): string {
+  switch (kind) {
+    case "distance":
+      return pointCount === 0 ? "Pick the start point" : "Pick the end point";
+    case "area":
+      return pointCount < 3 ? `Pick polygon point ${pointCount + 1}` : "Pick more points or close the polygon";
+    case "angle":
+      return ["Pick the first point", "Pick the vertex", "Pick the second point"][pointCount] ?? "";
+    case "faceDistance":
+      return pointCount === 0 ? "Pick the first face" : "Pick the second face";
+    case "quantities":
+      return "Pick an element";
+  }
+}
+
+/**
+ * Create or refresh the measurement toolbar and list
+ * Call again from the measure tool's onChange callback.
+ */
+export function updateMeasurePanel(tool: IfcMeasureTool): void {
+  let panel = document.getElementById("measure-panel");
+  if (!panel) {
+    panel = document.createElement("div");
+    panel.id = "measure-panel";
+    panel.className = "measure-panel";
+    document.body.appendChild(panel);
+  }
+
+  const activeKind = tool.getActiveKind();
+  const measurements = tool.getMeasurements();
+
+  panel.innerHTML = "";
+
+  const header = document.createElement("div");
+  header.className = "measure-header";
+
+  const title = document.createElement("span");
+  title.textContent = `Measure (${tool.getLengthUnitSymbol()})`;
+  header.appendChild(title);
+
+  MEASURE_MODES.forEach(([kind, caption, tooltip]) => {
+    const button = document.createElement("button");
+    button.textContent = caption;
+    button.title = tooltip;
+    button.classList.toggle("active", activeKind === kind);
+    button.onclick = () => {
+      if (activeKind === kind) {
+        tool.cancel();
+      } else {
+        tool.start(kind);
+      }
+    };
+    header.appendChild(button);
+  });
+  panel.appendChild(header);
+
+  if (activeKind) {
+    const hint = document.createElement("div");
+    hint.className = "measure-hint";
+    hint.textContent = `${getHint(activeKind, tool.getActivePointCount())} · Esc to stop`;
+
+    if (activeKind === "area" && tool.getActivePointCount() >= 3) {
+      const finishBtn = document.createElement("button");
+      finishBtn.textContent = "✓";
+      finishBtn.title = "Close the polygon";
+      finishBtn.onclick = () => tool.finish();
+      hint.appendChild(finishBtn);
+    }
+    panel.appendChild(hint);
+  }
+
+  measurements.forEach((measurement) => {
+    const row = document.createElement("div");
+    row.className = "measure-row";
+
+    const label = document.createElement("span");
+    label.className = "measure-name";
+    label.textContent = `${measurement.id}. ${measurement.label.split("\n").join(" · ")}`;
+    label.title = measurement.label;
+
+    const deleteBtn = document.createElement("button");
+    deleteBtn.textContent = "✕";
+    deleteBtn.title = "Delete measurement";
+    deleteBtn.onclick = () => tool.deleteMeasurement(measurement.id);
+
+    row.appendChild(label);
+    row.appendChild(deleteBtn);
+    panel!.appendChild(row);
+  });
+
+  if (measurements.length > 0) {
+    const footer = document.createElement("div");
+    footer.className = "measure-footer";
+
+    const exportBtn = document.createElement("button");
+    exportBtn.textContent = "Export JSON";
+    exportBtn.onclick = () =>
+      downloadBlob(new Blob([tool.exportJson()], { type: "application/json" }), "measurements.json");
+
+    const clearBtn = document.createElement("button");
+    clearBtn.textContent = "Clear";
+    clearBtn.onclick = () => tool.clear();
+
+    footer.appendChild(exportBtn);
+    footer.appendChild(clearBtn);
+    panel.appendChild(footer);
+  }
+}
@@ -0,0 +1,132 @@
+import type { IfcGeoreference } from "./ifcGeoreference";
+import type { IfcModelInfo } from "./ifcMetadata";
+
+/** Callbacks from the model info panel to the viewer */
+export interface ModelInfoPanelHandlers {
+  onClose: () => void;
+}
+
+/**
+ * Format a FILE_NAME time stamp in the local format; unparsable stamps are shown as written
+ */
+function formatTimeStamp(timeStamp: string): string {
+  const date = new Date(timeStamp);
+  return Number.isNaN(date.getTime()) ? timeStamp : date.toLocaleString();
+}
+
+/**
+ * Create or refresh the model info panel with the schema, file header, authoring and georeference of one model;
+ * null hides it
+ */
+export function updateModelInfoPanel(
+  model: { name: string; info: IfcModelInfo; georeference?: IfcGeoreference } | null,
+  handlers: ModelInfoPanelHandlers,
+): void {
+  let panel = document.getElementById("model-info-panel");
+  if (!panel) {
+    panel = document.createElement("div");
+    panel.id = "model-info-panel";
+    panel.className = "model-info-panel";
+    document.body.appendChild(panel);
+  }
+
+  panel.innerHTML = "";
+  panel.style.display = model ? "block" : "none";
+  if (!model) return;
+  const { header } = model.info;
+
+  const title = document.createElement("div");
+  title.className = "model-info-title";
+  const titleText = document.createElement("span");
+  titleText.textContent = "Model info";
+  titleText.title = model.name;
+  const close = document.createElement("button");
+  close.textContent = "✕";
+  close.title = "Close";
+  close.onclick = handlers.onClose;
+  title.appendChild(titleText);
+  title.appendChild(close);
+  panel.appendChild(title);
+
+  const addSection = (label: string) => {
+    const section = document.createElement("div");
+    section.className = "model-info-section";
+    section.textContent = label;
+    panel!.appendChild(section);
+  };
+
+  // Empty header fields ('' or $) are left out
+  const addRow = (label: string, value: string) => {
+    if (!value) return;
+    const row = document.createElement("div");
+    row.className = "model-info-row";
+    const key = document.createElement("span");
+    key.className = "model-info-key";
+    key.textContent = label;
+    const text = document.createElement("span");
+    text.className = "model-info-value";
+    text.textContent = value;
+    text.title = value;
+    row.appendChild(key);
+    row.appendChild(text);
+    panel!.appendChild(row);
+  };
+
+  addRow("File", model.name);
+  const schema = model.info.schema;
+  const identifier = model.info.schemaIdentifier;
+  addRow("Schema", identifier && identifier !== schema ? `${schema} (${identifier})` : schema);
+  addRow("View definition", model.info.modelViewDefinitions.join(", "));
+
+  addSection("File header");
+  addRow("Name", header.name);
+  addRow("Time stamp", formatTimeStamp(header.timeStamp));
+  addRow("Author", header.author.join(", "));
+  addRow("Organization", header.organization.join(", "));
+  addRow("Originating system", header.originatingSystem);
+  addRow("Preprocessor", header.preprocessorVersion);
+  addRow("Authorization", header.authorization);
+  addRow("Description", header.description.join("; "));
+  addRow("Implementation level", header.implementationLevel);
+
+  if (model.info.applications.length > 0) {
+    addSection(`Applications (${model.info.applications.length})`);
+    model.info.applications.forEach((application) => {
+      const name = [application.name || application.identifier, application.version].filter(Boolean).join(" ");
+      addRow(application.developer || "Application", name || `#${application.expressID}`);
+    });
+  }
+
+  if (model.info.people.length > 0) {
+    addSection(`People (${model.info.people.length})`);
+    model.info.people.forEach((person) => {
+      addRow(person.name || person.identification || `#${person.expressID}`, person.organization);
+    });
+  }
+
+  const { mapConversion, crs, site } = model.georeference ?? {};
+  if (mapConversion || site) {
+    addSection("Georeference");
+    if (crs) {
+      addRow("CRS", [crs.name, crs.description].filter(Boolean).join(" – "));
+      addRow("Geodetic datum", crs.geodeticDatum);
+      addRow("Vertical datum", crs.verticalDatum);
+      addRow("Projection", [crs.mapProjection, crs.mapZone].filter(Boolean).join(" "));
+    }
+    if (mapConversion) {
+      const { eastings, northings, orthogonalHeight, xAxisAbscissa, xAxisOrdinate, scaleX } = mapConversion;
+      const unit = crs?.mapUnit ?? "";
+      addRow("Origin", `E ${eastings} N ${northings} H ${orthogonalHeight} ${unit}`);
+      // Angle of the project X axis from map east, counter-clockwise
+      const rotation = (Math.atan2(xAxisOrdinate, xAxisAbscissa) * 180) / Math.PI;
+      addRow("Rotation", `${rotation.toFixed(4)}°`);
+      addRow("Scale", String(scaleX));
+    }
+    if (site) {
+      const format = (value: number | null, suffix: string) => (value === null ? "" : `${value.toFixed(6)}${suffix}`);
+      addRow("Site latitude", format(site.latitude, "°"));
+      addRow("Site longitude", format(site.longitude, "°"));
+      addRow("Site elevation", site.elevation === null ? "" : `${site.elevation} m`);
+    }
+  }
+}
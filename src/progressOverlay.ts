@@ -0,0 +1,71 @@
+import type { IfcLoadPhase } from "./ifcLoader";
+
+/** Progress of the file being loaded */
+export interface LoadProgress {
+  /** File name or URL */
+  name: string;
+  phase: IfcLoadPhase;
+  current: number;
+  /** 0 while unknown (downloads without a size) */
+  total: number;
+}
+
+/** Callbacks from the progress overlay to the viewer */
+export interface ProgressOverlayHandlers {
+  /** Abort the running load */
+  onCancel: () => void;
+}
+
+const PHASE_LABELS: Record<IfcLoadPhase, string> = {
+  download: "Reading file",
+  parse: "Parsing",
+  streaming: "Building geometry",
+  storeys: "Assigning storeys",
+  merging: "Merging meshes",
+};
+
+const formatMB = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+/**
+ * Show or update the loading overlay with a progress bar and a cancel button; null hides it
+ * The overlay is updated in place, as downloads report progress for every chunk.
+ */
+export function updateProgressOverlay(progress: LoadProgress | null, handlers: ProgressOverlayHandlers): void {
+  let overlay = document.getElementById("progress-overlay");
+  if (!progress) {
+    overlay?.remove();
+    return;
+  }
+
+  if (!overlay) {
+    overlay = document.createElement("div");
+    overlay.id = "progress-overlay";
+    overlay.className = "progress-overlay";
+    overlay.innerHTML =
+      '<div class="progress-name"></div><div class="progress-phase"></div>' +
+      '<div class="progress-bar"><div class="progress-fill"></div></div><button>Cancel</button>';
+    document.body.appendChild(overlay);
+  }
+
+  const { name, phase, current, total } = progress;
+  overlay.querySelector(".progress-name")!.textContent = name;
+
+  const ratio = total > 0 ? Math.min(current / total, 1) : 0;
+  let amount = `${current.toLocaleString()} / ${total.toLocaleString()}`;
+  if (phase === "download") amount = total > 0 ? `${formatMB(current)} / ${formatMB(total)}` : formatMB(current);
+  if (phase === "parse") amount = "";
+  overlay.querySelector(".progress-phase")!.textContent = [PHASE_LABELS[phase], amount].filter(Boolean).join(" · ");
+
+  // Unknown totals and parsing (one blocking call) get a moving bar instead of a percentage
+  const bar = overlay.querySelector<HTMLElement>(".progress-bar")!;
+  bar.classList.toggle("indeterminate", total === 0 || phase === "parse");
+  overlay.querySelector<HTMLElement>(".progress-fill")!.style.width = `${(ratio * 100).toFixed(1)}%`;
+
+  const cancel = overlay.querySelector("button")!;
+  cancel.title = "Stop loading; the partially loaded model is removed";
+  cancel.onclick = () => {
+    cancel.disabled = true;
+    cancel.textContent = "Cancelling…";
+    handlers.onCancel();
+  };
+}
@@ -0,0 +1,403 @@
+import type * as WebIFC from "web-ifc";
+import {
+  getElementProperties,
+  getElementMaterials,
+  getElementClassifications,
+  getProjectUnits,
+  getUnit,
+  type IfcElementProperties,
+  type IfcElementMaterial,
+  type IfcClassificationRef,
+} from "./ifcMetadata";
+import { getSpatialContext, type IfcSpatialContext } from "./ifcSpatial";
+import {
+  findUnit,
+  getUnitSymbol,
+  getUnitTypeForMeasure,
+  getUnitTypeForQuantity,
+  type IfcUnitInfo,
+} from "./ifcUnits";
+
+/** Everything shown in the properties panel for one element */
+interface ElementDetails {
+  expressID: number;
+  modelID: number;
+  typeName: string;
+  globalId: string;
+  name: string;
+  attributes: Record<string, string>;
+  spatial: IfcSpatialContext;
+  properties: IfcElementProperties;
+  materials: IfcElementMaterial[];
+  classifications: IfcClassificationRef[];
+}
+
+/** A single displayed row */
+interface PanelRow {
+  label: string;
+  value: string;
+}
+
+/** A titled group of rows */
+interface PanelSection {
+  title: string;
+  rows: PanelRow[];
+}
+
+// Project units are read once per model
+const projectUnitsCache = new Map<number, IfcUnitInfo[]>();
+
+// Incremented on every request so slow lookups for a previous pick are discarded
+let requestCounter = 0;
+
+// Current search filter, kept when another element is picked
+let currentFilter = "";
+
+/**
+ * Format a property value for display
+ */
+function formatValue(value: any): string {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) return value.map(formatValue).join(", ");
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? String(value) : String(Number(value.toFixed(4)));
+  }
+  return String(value);
+}
+
+/**
+ * Append a unit symbol to a formatted value
+ */
+function withUnit(value: string, unit: IfcUnitInfo | null): string {
+  const symbol = getUnitSymbol(unit);
+  return symbol && value !== "" ? `${value} ${symbol}` : value;
+}
+
+async function getCachedProjectUnits(ifcAPI: WebIFC.IfcAPI, modelID: number): Promise<IfcUnitInfo[]> {
+  let units = projectUnitsCache.get(modelID);
+  if (!units) {
+    units = (await getProjectUnits(ifcAPI, modelID)) ?? [];
+    projectUnitsCache.set(modelID, units);
+  }
+  return units;
+}
+
+/**
+ * Resolve the unit of a value: an explicit unit wins over the project default for the measure type
+ */
+async function resolveUnit(
+  ifcAPI: WebIFC.IfcAPI,
+  modelID: number,
+  units: IfcUnitInfo[],
+  unitID: number | undefined,
+  unitType: string | null,
+): Promise<IfcUnitInfo | null> {
+  if (unitID !== undefined) {
+    return getUnit(ifcAPI, modelID, unitID);
+  }
+  return unitType ? findUnit(units, unitType) : null;
+}
+
+/**
+ * Gather all data shown in the panel for one element
+ */
+async function collectElementDetails(
+  ifcAPI: WebIFC.IfcAPI,
+  modelID: number,
+  expressID: number,
+): Promise<ElementDetails> {
+  const element = ifcAPI.GetLine(modelID, expressID);
+
+  // Direct attributes worth showing besides type, GlobalId and name
+  const attributes: Record<string, string> = {};
+  ["Description", "ObjectType", "Tag", "PredefinedType", "LongName"].forEach((key) => {
+    const value = element[key]?.value;
+    if (value !== undefined && value !== null && value !== "") {
+      attributes[key] = formatValue(value);
+    }
+  });
+
+  return {
+    expressID,
+    modelID,
+    typeName: ifcAPI.GetNameFromTypeCode(element.type),
+    globalId: element.GlobalId?.value || "",
+    name: element.Name?.value || "",
+    attributes,
+    spatial: getSpatialContext(ifcAPI, modelID, expressID),
+    properties: await getElementProperties(ifcAPI, modelID, expressID),
+    materials: await getElementMaterials(ifcAPI, modelID, expressID),
+    classifications: await getElementClassifications(ifcAPI, modelID, expressID),
+  };
+}
+
+/**
+ * Turn element details into displayable sections, resolving units
+ */
+async function buildSections(ifcAPI: WebIFC.IfcAPI, details: ElementDetails): Promise<PanelSection[]> {
+  const { modelID } = details;
+  const units = await getCachedProjectUnits(ifcAPI, modelID);
+  const sections: PanelSection[] = [];
+
+  // Element identity and location
+  const elementRows: PanelRow[] = [
+    { label: "Type", value: details.typeName },
+    { label: "GlobalId", value: details.globalId },
+    { label: "Name", value: details.name },
+    { label: "Express ID", value: String(details.expressID) },
+  ];
+  Object.entries(details.attributes).forEach(([label, value]) => elementRows.push({ label, value }));
+  if (details.properties.typeObjectName) {
+    elementRows.push({ label: "Type object", value: details.properties.typeObjectName });
+  }
+  const { storey, building, space } = details.spatial;
+  if (space) elementRows.push({ label: "Space", value: space.name || space.longName || `#${space.expressID}` });
+  if (storey) {
+    const elevation =
+      storey.elevation !== undefined
+        ? ` (${withUnit(formatValue(storey.elevation), findUnit(units, "LENGTHUNIT"))})`
+        : "";
+    elementRows.push({ label: "Storey", value: `${storey.name || `#${storey.expressID}`}${elevation}` });
+  }
+  if (building) {
+    elementRows.push({ label: "Building", value: building.name || building.longName || `#${building.expressID}` });
+  }
+  sections.push({ title: "Element", rows: elementRows });
+
+  // Property sets
+  for (const propertySet of details.properties.propertySets) {
+    const rows: PanelRow[] = [];
+    for (const property of propertySet.properties) {
+      const unit = await resolveUnit(
+        ifcAPI,
+        modelID,
+        units,
+        property.unitID,
+        getUnitTypeForMeasure(property.valueType),
+      );
+      rows.push({ label: property.name, value: withUnit(formatValue(property.value), unit) });
+    }
+    const suffix = propertySet.source === "type" ? " (type)" : "";
+    sections.push({ title: `${propertySet.name}${suffix}`, rows });
+  }
+
+  // Quantity sets
+  for (const quantitySet of details.properties.quantitySets) {
+    const rows: PanelRow[] = [];
+    for (const quantity of quantitySet.quantities) {
+      const unit = await resolveUnit(ifcAPI, modelID, units, quantity.unitID, getUnitTypeForQuantity(quantity.kind));
+      rows.push({ label: quantity.name, value: withUnit(formatValue(quantity.value), unit) });
+    }
+    const suffix = quantitySet.source === "type" ? " (type)" : "";
+    sections.push({ title: `${quantitySet.name}${suffix}`, rows });
+  }
+
+  // Materials and layers
+  if (details.materials.length > 0) {
+    const lengthUnit = findUnit(units, "LENGTHUNIT");
+    const rows: PanelRow[] = [];
+    details.materials.forEach((material) => {
+      const suffix = material.source === "type" ? " (type)" : "";
+      if (material.name) {
+        rows.push({ label: `${material.kind}${suffix}`, value: material.name });
+      }
+      material.layers.forEach((layer, i) => {
+        const extras = [
+          layer.thickness !== undefined ? withUnit(formatValue(layer.thickness), lengthUnit) : "",
+          layer.fraction !== undefined ? `${formatValue(layer.fraction * 100)}%` : "",
+          layer.category ?? "",
+        ].filter(Boolean);
+        const label = material.layers.length > 1 ? `${i + 1}. ${layer.name || "Layer"}` : layer.name || "Material";
+        rows.push({ label, value: [layer.material, ...extras].join(" | ") });
+      });
+    });
+    sections.push({ title: "Materials", rows });
+  }
+
+  // Classifications
+  if (details.classifications.length > 0) {
+    sections.push({
+      title: "Classifications",
+      rows: details.classifications.map((classification) => {
+        const system = [classification.system, classification.edition].filter(Boolean).join(" ");
+        const value = [classification.identification, classification.name].filter(Boolean).join(" ");
+        return { label: system || "Classification", value };
+      }),
+    });
+  }
+
+  return sections;
+}
+
+/**
+ * Copy text to the clipboard, logging instead of failing where the Clipboard API is unavailable
+ */
+function copyToClipboard(text: string): void {
+  if (!navigator.clipboard) {
+    console.warn("Clipboard API not available");
+    return;
+  }
+  navigator.clipboard.writeText(text).then(
+    () => console.log("📋 Copied to clipboard"),
+    (error) => console.warn("Failed to copy to clipboard:", error),
+  );
+}
+
+/**
+ * Get or create the panel element
+ */
+function getPanel(): HTMLElement {
+  let panel = document.getElementById("properties-panel");
+  if (!panel) {
+    panel = document.createElement("div");
+    panel.id = "properties-panel";
+    panel.className = "properties-panel";
+    document.body.appendChild(panel);
+  }
+  return panel;
+}
+
+/**
+ * Show or hide rows and sections that do not match the search filter
+ */
+function applyFilter(panel: HTMLElement, filter: string): void {
+  const query = filter.trim().toLowerCase();
+
+  panel.querySelectorAll<HTMLElement>(".properties-section").forEach((section) => {
+    const title = section.dataset.title ?? "";
+    const titleMatches = query === "" || title.toLowerCase().includes(query);
+    let visibleRows = 0;
+
+    section.querySelectorAll<HTMLElement>(".properties-row").forEach((row) => {
+      const matches = titleMatches || (row.dataset.search ?? "").includes(query);
+      row.style.display = matches ? "" : "none";
+      if (matches) visibleRows++;
+    });
+
+    section.style.display = visibleRows > 0 || titleMatches ? "" : "none";
+  });
+}
+
+/**
+ * Render the panel contents
+ */
+function renderPanel(panel: HTMLElement, details: ElementDetails, sections: PanelSection[]): void {
+  panel.innerHTML = "";
+
+  // Header with title, copy and close buttons
+  const header = document.createElement("div");
+  header.className = "properties-header";
+
+  const title = document.createElement("div");
+  title.className = "properties-title";
+  title.textContent = `${details.typeName} | ${details.name || "Unnamed"}`;
+  title.title = title.textContent;
+
+  const copyBtn = document.createElement("button");
+  copyBtn.textContent = "📋";
+  copyBtn.title = "Copy all properties as text";
+  copyBtn.onclick = () => {
+    const text = sections
+      .map((section) => [`[${section.title}]`, ...section.rows.map((row) => `${row.label}\t${row.value}`)].join("\n"))
+      .join("\n\n");
+    copyToClipboard(text);
+  };
+
+  const closeBtn = document.createElement("button");
+  closeBtn.textContent = "✕";
+  closeBtn.title = "Close";
+  closeBtn.onclick = () => hidePropertiesPanel();
+
+  header.appendChild(title);
+  header.appendChild(copyBtn);
+  header.appendChild(closeBtn);
+  panel.appendChild(header);
+
+  // Search filter
+  const search = document.createElement("input");
+  search.type = "search";
+  search.className = "properties-search";
+  search.placeholder = "Filter properties...";
+  search.value = currentFilter;
+  search.oninput = () => {
+    currentFilter = search.value;
+    applyFilter(panel, currentFilter);
+  };
+  panel.appendChild(search);
+
+  // Sections (collapsible)
+  sections.forEach((section) => {
+    const details = document.createElement("details");
+    details.className = "properties-section";
+    details.dataset.title = section.title;
+    details.open = true;
+
+    const summary = document.createElement("summary");
+    summary.textContent = `${section.title} (${section.rows.length})`;
+    details.appendChild(summary);
+
+    section.rows.forEach((row) => {
+      const rowElement = document.createElement("div");
+      rowElement.className = "properties-row";
+      rowElement.dataset.search = `${row.label} ${row.value}`.toLowerCase();
+      rowElement.title = "Click to copy value";
+      rowElement.onclick = () => copyToClipboard(row.value);
+
+      const label = document.createElement("span");
+      label.className = "properties-label";
+      label.textContent = row.label;
+
+      const value = document.createElement("span");
+      value.className = "properties-value";
+      value.textContent = row.value;
+
+      rowElement.appendChild(label);
+      rowElement.appendChild(value);
+      details.appendChild(rowElement);
+    });
+
+    panel.appendChild(details);
+  });
+
+  applyFilter(panel, currentFilter);
+}
+
+/**
+ * Open the properties panel for an element
+ * Resolves property sets, quantity sets, materials, classifications and spatial context.
+ */
+export async function showPropertiesPanel(ifcAPI: WebIFC.IfcAPI, modelID: number, expressID: number): Promise<void> {
+  const requestId = ++requestCounter;
+  const panel = getPanel();
+
+  try {
+    const details = await collectElementDetails(ifcAPI, modelID, expressID);
+    const sections = await buildSections(ifcAPI, details);
+
+    // Another element was picked (or the panel closed) while loading
+    if (requestId !== requestCounter) return;
+
+    renderPanel(panel, details, sections);
+    panel.style.display = "block";
+  } catch (error) {
+    console.error(`Failed to show properties for element ${expressID}:`, error);
+  }
+}
+
+/**
+ * Hide the properties panel
+ */
+export function hidePropertiesPanel(): void {
+  requestCounter++;
+  const panel = document.getElementById("properties-panel");
+  if (panel) {
+    panel.style.display = "none";
+  }
+}
+
+/**
+ * Forget cached project units of a model (call when the model is removed)
+ */
+export function clearPropertiesPanelCache(modelID: number): void {
+  projectUnitsCache.delete(modelID);
+}
@@ -0,0 +1,113 @@
+import type * as WebIFC from "web-ifc";
+import type { IfcModel } from "./ifcLoader";
+import { parseIfcQuery, queryIfcElements, type IfcQueryResult } from "./ifcQuery";
+
+/** Callbacks from the search box to the viewer */
+export interface SearchPanelHandlers {
+  onSelect: (result: IfcQueryResult) => void;
+  onIsolate: (result: IfcQueryResult) => void;
+  /** Colour the found elements, replacing any other colouring */
+  onColor: (result: IfcQueryResult) => void;
+  /** Show everything again after isolating */
+  onShowAll: () => void;
+}
+
+// Last search, kept across refreshes
+let lastResult: IfcQueryResult | null = null;
+let statusText = "";
+let statusIsError = false;
+let searching = false;
+
+const countResult = (result: IfcQueryResult) =>
+  Array.from(result.values()).reduce((sum, expressIDs) => sum + expressIDs.length, 0);
+
+/**
+ * Create or refresh the search box shown above the upper-text banner
+ * Queries use the text syntax of parseIfcQuery, e.g. `IfcDoor AND Pset_DoorCommon.FireRating = EI30`.
+ */
+export function updateSearchPanel(ifcAPI: WebIFC.IfcAPI, models: IfcModel[], handlers: SearchPanelHandlers): void {
+  let panel = document.getElementById("search-panel");
+  let input = panel?.querySelector("input") ?? null;
+  if (!panel || !input) {
+    panel = document.createElement("div");
+    panel.id = "search-panel";
+    panel.className = "search-panel";
+    document.body.appendChild(panel);
+
+    input = document.createElement("input");
+    input.type = "search";
+    input.placeholder = "Search: IfcDoor AND FireRating = EI30";
+    input.title =
+      "Types (IfcWall), attributes (Name), properties (Pset.Prop) and quantities; " +
+      "= != > >= < <= contains exists; AND/OR";
+    panel.appendChild(input);
+
+    const actions = document.createElement("span");
+    actions.className = "search-actions";
+    panel.appendChild(actions);
+  }
+
+  const rerender = () => updateSearchPanel(ifcAPI, models, handlers);
+
+  // Drop results of removed models
+  if (lastResult) {
+    const modelIDs = new Set(models.map((model) => model.modelID));
+    lastResult.forEach((_, modelID) => {
+      if (!modelIDs.has(modelID)) lastResult!.delete(modelID);
+    });
+  }
+
+  const runSearch = async () => {
+    const text = input!.value.trim();
+    if (!text || searching) return;
+
+    try {
+      const query = parseIfcQuery(text);
+      searching = true;
+      statusText = "Searching…";
+      statusIsError = false;
+      rerender();
+
+      lastResult = await queryIfcElements(ifcAPI, models, query);
+      statusText = `${countResult(lastResult)} found`;
+    } catch (error) {
+      lastResult = null;
+      statusText = error instanceof Error ? error.message : String(error);
+      statusIsError = true;
+    }
+    searching = false;
+    rerender();
+  };
+
+  input.onkeydown = (e) => {
+    if (e.key === "Enter") runSearch();
+  };
+
+  const actions = panel.querySelector(".search-actions") as HTMLElement;
+  actions.innerHTML = "";
+
+  const createButton = (text: string, title: string, onClick: () => void, disabled = false) => {
+    const button = document.createElement("button");
+    button.textContent = text;
+    button.title = title;
+    button.disabled = disabled;
+    button.onclick = onClick;
+    actions.appendChild(button);
+  };
+
+  createButton("🔎", "Search (Enter)", runSearch, searching);
+
+  if (statusText) {
+    const status = document.createElement("span");
+    status.className = "search-status";
+    status.classList.toggle("error", statusIsError);
+    status.textContent = statusText;
+    actions.appendChild(status);
+  }
+
+  const hasResults = lastResult !== null && countResult(lastResult) > 0;
+  createButton("Select", "Select the found elements", () => handlers.onSelect(lastResult!), !hasResults);
+  createButton("Isolate", "Show only the found elements", () => handlers.onIsolate(lastResult!), !hasResults);
+  createButton("Colour", "Colour the found elements", () => handlers.onColor(lastResult!), !hasResults);
+  createButton("Show all", "Show all elements again", () => handlers.onShowAll());
+}
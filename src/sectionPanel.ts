@@ -0,0 +1,109 @@
+import { MAX_SECTION_PLANES, type IfcSectionTool } from "./ifcSection";
+import type { IfcViewpoint } from "./ifcViewpoint";
+
+/** Callbacks from the section panel to the viewer */
+export interface SectionPanelHandlers {
+  /** Start or cancel placing a plane on the next picked face */
+  onPlacePlane: (placing: boolean) => void;
+  onSaveViewpoint: () => void;
+  onRestoreViewpoint: (viewpoint: IfcViewpoint) => void;
+  onDeleteViewpoint: (viewpoint: IfcViewpoint) => void;
+}
+
+/**
+ * Create or refresh the section tools and saved viewpoints panel
+ * @param placingPlane Whether the next pick places a section plane
+ */
+export function updateSectionPanel(
+  tool: IfcSectionTool,
+  viewpoints: IfcViewpoint[],
+  placingPlane: boolean,
+  handlers: SectionPanelHandlers,
+): void {
+  let panel = document.getElementById("section-panel");
+  if (!panel) {
+    panel = document.createElement("div");
+    panel.id = "section-panel";
+    panel.className = "section-panel";
+    document.body.appendChild(panel);
+  }
+
+  panel.innerHTML = "";
+
+  const createButton = (text: string, title: string, onClick: () => void, active = false) => {
+    const button = document.createElement("button");
+    button.textContent = text;
+    button.title = title;
+    button.classList.toggle("active", active);
+    button.onclick = onClick;
+    return button;
+  };
+
+  const createToggle = (text: string, checked: boolean, onChange: (checked: boolean) => void) => {
+    const label = document.createElement("label");
+    const input = document.createElement("input");
+    input.type = "checkbox";
+    input.checked = checked;
+    input.onchange = () => onChange(input.checked);
+    label.appendChild(input);
+    label.appendChild(document.createTextNode(text));
+    return label;
+  };
+
+  const planeCount = tool.getPlaneCount();
+
+  // Section tools
+  const sectionRow = document.createElement("div");
+  sectionRow.className = "section-row";
+
+  const title = document.createElement("span");
+  title.className = "section-title";
+  title.textContent = `Section (${planeCount}/${MAX_SECTION_PLANES})`;
+
+  sectionRow.appendChild(title);
+  sectionRow.appendChild(
+    createButton(
+      "▣ Box",
+      "Fit a section box to the loaded models",
+      () => {
+        tool.enableBox();
+        handlers.onPlacePlane(false);
+      },
+      tool.hasBox(),
+    ),
+  );
+  sectionRow.appendChild(
+    createButton(
+      "✚ Plane",
+      placingPlane ? "Cancel placing a plane" : "Click a face to place a section plane",
+      () => handlers.onPlacePlane(!placingPlane),
+      placingPlane,
+    ),
+  );
+  sectionRow.appendChild(
+    createButton("✕ Clear", "Remove all section planes", () => {
+      tool.clear();
+      handlers.onPlacePlane(false);
+    }),
+  );
+  sectionRow.appendChild(createToggle("Cap", tool.isCapping(), (checked) => tool.setCapping(checked)));
+  sectionRow.appendChild(createToggle("Gizmos", tool.areGizmosVisible(), (checked) => tool.setGizmosVisible(checked)));
+  panel.appendChild(sectionRow);
+
+  // Saved viewpoints
+  const viewpointRow = document.createElement("div");
+  viewpointRow.className = "section-row";
+  viewpointRow.appendChild(createButton("📷 Save view", "Save camera and section state", handlers.onSaveViewpoint));
+
+  viewpoints.forEach((viewpoint) => {
+    const item = document.createElement("span");
+    item.className = "viewpoint-item";
+
+    item.appendChild(
+      createButton(viewpoint.name, "Restore viewpoint", () => handlers.onRestoreViewpoint(viewpoint)),
+    );
+    item.appendChild(createButton("✕", "Delete viewpoint", () => handlers.onDeleteViewpoint(viewpoint)));
+    viewpointRow.appendChild(item);
+  });
+  panel.appendChild(viewpointRow);
+}
@@ -0,0 +1,138 @@
+import { getSelectionModeFromEvent, type IfcSelectionManager, type IfcSelectionMode } from "./ifcSelection";
+
+/** Callbacks from the selection panel to the viewer */
+export interface SelectionPanelHandlers {
+  /** Arm or cancel box selection on the next drag */
+  onBoxSelect: (active: boolean) => void;
+  /** Move the camera to the selected elements */
+  onFrame: () => void;
+  /** Put the GlobalIds of the selected elements in the page URL */
+  onCopyLink: () => void;
+}
+
+/**
+ * Create or refresh the selection panel
+ * Shift-click a button to add to the selection, ctrl-click to toggle.
+ * @param boxSelecting Whether the next drag draws a selection box
+ */
+export function updateSelectionPanel(
+  manager: IfcSelectionManager,
+  boxSelecting: boolean,
+  handlers: SelectionPanelHandlers,
+): void {
+  let panel = document.getElementById("selection-panel");
+  if (!panel) {
+    panel = document.createElement("div");
+    panel.id = "selection-panel";
+    panel.className = "selection-panel";
+    document.body.appendChild(panel);
+  }
+
+  panel.innerHTML = "";
+  const count = manager.getCount();
+
+  const title = document.createElement("span");
+  title.className = "selection-title";
+  title.textContent = `Selection (${count})`;
+  panel.appendChild(title);
+
+  const createButton = (text: string, buttonTitle: string, onClick: (evt: MouseEvent) => void, active: boolean) => {
+    const button = document.createElement("button");
+    button.textContent = text;
+    button.title = buttonTitle;
+    button.classList.toggle("active", active);
+    button.onclick = onClick;
+    panel!.appendChild(button);
+    return button;
+  };
+
+  // Buttons extending the selection keep it unless shift or ctrl is held
+  const extendMode = (evt: MouseEvent): IfcSelectionMode => {
+    const mode = getSelectionModeFromEvent(evt);
+    return mode === "replace" ? "add" : mode;
+  };
+
+  createButton(
+    "▭ Box",
+    "Drag a box to select (shift: add, ctrl: toggle) · Esc to stop",
+    () => handlers.onBoxSelect(!boxSelecting),
+    boxSelecting,
+  );
+
+  const selectionButtons = [
+    createButton(
+      "Type",
+      "Select all elements of the selected types",
+      (evt) => manager.selectSameType(extendMode(evt)),
+      false,
+    ),
+    createButton(
+      "Storey",
+      "Select all elements of the selected storeys",
+      (evt) => manager.selectSameStorey(extendMode(evt)),
+      false,
+    ),
+    createButton("Frame", "Zoom to the selected elements", () => handlers.onFrame(), false),
+    createButton("Link", "Copy a link to the selected elements (by GlobalId)", () => handlers.onCopyLink(), false),
+    createButton("Clear", "Clear the selection", () => manager.clear(), false),
+  ];
+  selectionButtons.forEach((button) => (button.disabled = count === 0));
+}
+
+/**
+ * Draw a selection rectangle on the next left drag over the canvas
+ * onBox gets the corners in canvas pixels (like `scene.pointerX/Y`) and the pointer-up event.
+ * @returns Function cancelling the box selection
+ */
+export function startBoxSelection(
+  canvas: HTMLCanvasElement,
+  onBox: (x1: number, y1: number, x2: number, y2: number, evt: PointerEvent) => void,
+): () => void {
+  const box = document.createElement("div");
+  box.className = "selection-box";
+  box.style.display = "none";
+  document.body.appendChild(box);
+
+  let start: { x: number; y: number } | null = null;
+
+  const toCanvas = (evt: PointerEvent) => {
+    const rect = canvas.getBoundingClientRect();
+    return { x: evt.clientX - rect.left, y: evt.clientY - rect.top };
+  };
+
+  const onPointerDown = (evt: PointerEvent) => {
+    if (evt.button !== 0) return;
+    start = toCanvas(evt);
+  };
+
+  const onPointerMove = (evt: PointerEvent) => {
+    if (!start) return;
+    const rect = canvas.getBoundingClientRect();
+    const end = toCanvas(evt);
+    box.style.display = "block";
+    box.style.left = `${rect.left + Math.min(start.x, end.x)}px`;
+    box.style.top = `${rect.top + Math.min(start.y, end.y)}px`;
+    box.style.width = `${Math.abs(end.x - start.x)}px`;
+    box.style.height = `${Math.abs(end.y - start.y)}px`;
+  };
+
+  const onPointerUp = (evt: PointerEvent) => {
+    if (!start) return;
+    const end = toCanvas(evt);
+    const from = start;
+    start = null;
+    box.style.display = "none";
+    onBox(from.x, from.y, end.x, end.y, evt);
+  };
+
+  canvas.addEventListener("pointerdown", onPointerDown);
+  window.addEventListener("pointermove", onPointerMove);
+  window.addEventListener("pointerup", onPointerUp);
+
+  return () => {
+    canvas.removeEventListener("pointerdown", onPointerDown);
+    window.removeEventListener("pointermove", onPointerMove);
+    window.removeEventListener("pointerup", onPointerUp);
+    box.remove();
+  };
+}
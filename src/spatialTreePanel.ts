@@ -0,0 +1,225 @@
+import * as WebIFC from "web-ifc";
+import type { IfcModel } from "./ifcLoader";
+import { getSpatialTree, collectSpatialExpressIDs, type IfcSpatialNode } from "./ifcSpatial";
+import {
+  getIfcElementMeshes,
+  setIfcElementsVisible,
+  isIfcElementVisible,
+  type IfcElementMesh,
+} from "./ifcElements";
+
+/** Callbacks from the spatial tree panel to the viewer */
+export interface SpatialTreePanelHandlers {
+  /** Called when a node label is clicked with all element meshes under the node */
+  onSelect: (model: IfcModel, node: IfcSpatialNode, elements: IfcElementMesh[]) => void;
+  /** Called after meshes were hidden, shown or isolated from the panel */
+  onVisibilityChange?: () => void;
+}
+
+// Spatial trees and expressID → element meshes lookups, cached per model
+const treeCache = new Map<IfcModel, IfcSpatialNode | null>();
+const meshLookupCache = new Map<IfcModel, Map<number, IfcElementMesh[]>>();
+
+// Expanded nodes, keyed by `${modelID}:${expressID}`
+const expandedNodes = new Set<string>();
+
+// Types expanded by default so the storeys are visible on first load
+const DEFAULT_EXPANDED_TYPES = new Set<number>([WebIFC.IFCPROJECT, WebIFC.IFCSITE, WebIFC.IFCBUILDING]);
+
+const nodeKey = (model: IfcModel, node: IfcSpatialNode) => `${model.modelID}:${node.expressID}`;
+
+/**
+ * Build a lookup from expressID to the element meshes (or batch ranges) drawing it
+ */
+function getMeshLookup(model: IfcModel): Map<number, IfcElementMesh[]> {
+  let lookup = meshLookupCache.get(model);
+  if (!lookup) {
+    lookup = new Map<number, IfcElementMesh[]>();
+    getIfcElementMeshes(model.meshes).forEach((element) => {
+      const expressID = element.metadata.expressID;
+      let list = lookup!.get(expressID);
+      if (!list) {
+        list = [];
+        lookup!.set(expressID, list);
+      }
+      list.push(element);
+    });
+    meshLookupCache.set(model, lookup);
+  }
+  return lookup;
+}
+
+/**
+ * Get all element meshes of a node and its descendants
+ */
+export function getSpatialNodeElements(model: IfcModel, node: IfcSpatialNode): IfcElementMesh[] {
+  const lookup = getMeshLookup(model);
+  return collectSpatialExpressIDs(node).flatMap((expressID) => lookup.get(expressID) ?? []);
+}
+
+/**
+ * Show only the meshes under a node, across all models
+ */
+function isolateNode(models: IfcModel[], model: IfcModel, node: IfcSpatialNode): void {
+  const keep = getSpatialNodeElements(model, node);
+  const keepKeys = new Set(keep.map(({ mesh, metadata }) => `${mesh.uniqueId}:${metadata.expressID}`));
+  const elements = models.flatMap((m) => getIfcElementMeshes(m.meshes));
+  setIfcElementsVisible(
+    elements.filter(({ mesh, metadata }) => !keepKeys.has(`${mesh.uniqueId}:${metadata.expressID}`)),
+    false,
+  );
+  setIfcElementsVisible(keep, true);
+}
+
+/**
+ * Render one tree node and, if expanded, its children
+ */
+function renderNode(
+  container: HTMLElement,
+  models: IfcModel[],
+  model: IfcModel,
+  node: IfcSpatialNode,
+  depth: number,
+  handlers: SpatialTreePanelHandlers,
+  rerender: () => void,
+): void {
+  const key = nodeKey(model, node);
+  const expanded = expandedNodes.has(key);
+  const elements = getSpatialNodeElements(model, node);
+
+  const row = document.createElement("div");
+  row.className = "tree-row";
+  row.style.paddingLeft = `${depth * 14}px`;
+
+  const toggle = document.createElement("span");
+  toggle.className = "tree-toggle";
+  toggle.textContent = node.children.length > 0 ? (expanded ? "▾" : "▸") : "";
+  toggle.onclick = () => {
+    if (expanded) {
+      expandedNodes.delete(key);
+    } else {
+      expandedNodes.add(key);
+    }
+    rerender();
+  };
+
+  const label = document.createElement("span");
+  label.className = "tree-label";
+  const displayName = node.name || node.longName || `#${node.expressID}`;
+  const count = node.elementCount > 0 ? ` (${node.elementCount})` : "";
+  label.textContent = `${node.typeName} ${displayName}${count}`;
+  label.title = `${node.typeName} | ${displayName} | ID: ${node.expressID}`;
+  label.onclick = () => handlers.onSelect(model, node, elements);
+
+  const hideBtn = document.createElement("button");
+  const anyVisible = elements.some((element) => isIfcElementVisible(element));
+  hideBtn.textContent = anyVisible ? "👁" : "–";
+  hideBtn.title = anyVisible ? "Hide" : "Show";
+  hideBtn.disabled = elements.length === 0;
+  hideBtn.onclick = () => {
+    setIfcElementsVisible(elements, !anyVisible);
+    rerender();
+    handlers.onVisibilityChange?.();
+  };
+
+  const isolateBtn = document.createElement("button");
+  isolateBtn.textContent = "◎";
+  isolateBtn.title = "Isolate";
+  isolateBtn.disabled = elements.length === 0;
+  isolateBtn.onclick = () => {
+    isolateNode(models, model, node);
+    rerender();
+    handlers.onVisibilityChange?.();
+  };
+
+  row.appendChild(toggle);
+  row.appendChild(label);
+  row.appendChild(hideBtn);
+  row.appendChild(isolateBtn);
+  container.appendChild(row);
+
+  if (expanded) {
+    node.children.forEach((child) => renderNode(container, models, model, child, depth + 1, handlers, rerender));
+  }
+}
+
+/**
+ * Create or refresh the spatial tree panel for the given models
+ * Call again whenever models are added or removed.
+ */
+export function updateSpatialTreePanel(
+  ifcAPI: WebIFC.IfcAPI,
+  models: IfcModel[],
+  handlers: SpatialTreePanelHandlers,
+): void {
+  // Forget caches of removed models
+  for (const model of Array.from(treeCache.keys())) {
+    if (!models.includes(model)) {
+      treeCache.delete(model);
+      meshLookupCache.delete(model);
+    }
+  }
+
+  let panel = document.getElementById("spatial-tree-panel");
+  if (!panel) {
+    panel = document.createElement("div");
+    panel.id = "spatial-tree-panel";
+    panel.className = "spatial-tree-panel";
+    document.body.appendChild(panel);
+  }
+
+  const rerender = () => updateSpatialTreePanel(ifcAPI, models, handlers);
+  const scrollTop = panel.scrollTop;
+
+  panel.innerHTML = "";
+  panel.style.display = models.length > 0 ? "block" : "none";
+
+  const header = document.createElement("div");
+  header.className = "spatial-tree-header";
+
+  const title = document.createElement("span");
+  title.textContent = "Spatial structure";
+
+  const showAllBtn = document.createElement("button");
+  showAllBtn.textContent = "Show all";
+  showAllBtn.onclick = () => {
+    setIfcElementsVisible(
+      models.flatMap((model) => getIfcElementMeshes(model.meshes)),
+      true,
+    );
+    rerender();
+    handlers.onVisibilityChange?.();
+  };
+
+  header.appendChild(title);
+  header.appendChild(showAllBtn);
+  panel.appendChild(header);
+
+  models.forEach((model) => {
+    if (!treeCache.has(model)) {
+      const tree = getSpatialTree(ifcAPI, model.modelID);
+      treeCache.set(model, tree);
+
+      // Expand the upper levels of a newly loaded model
+      const expandDefaults = (node: IfcSpatialNode) => {
+        if (DEFAULT_EXPANDED_TYPES.has(node.type)) {
+          expandedNodes.add(nodeKey(model, node));
+          node.children.forEach(expandDefaults);
+        }
+      };
+      if (tree) expandDefaults(tree);
+    }
+
+    const tree = treeCache.get(model);
+    if (!tree) return;
+
+    const modelTitle = document.createElement("div");
+    modelTitle.className = "spatial-tree-model";
+    modelTitle.textContent = model.name;
+    panel!.appendChild(modelTitle);
+
+    renderNode(panel!, models, model, tree, 0, handlers, rerender);
+  });
+
+  panel.scrollTop = scrollTop;
+}
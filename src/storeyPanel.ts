@@ -0,0 +1,199 @@
+import type * as WebIFC from "web-ifc";
+import type { ArcRotateCamera } from "@babylonjs/core";
+import type { IfcModel } from "./ifcLoader";
+import type { IfcSectionTool } from "./ifcSection";
+import {
+  getStoreys,
+  showStorey,
+  showAllStoreys,
+  enterPlanView,
+  type IfcStorey,
+  type IfcStoreyFilterMode,
+  type IfcPlanView,
+} from "./ifcStoreys";
+
+/** Callbacks from the storey panel to the viewer */
+export interface StoreyPanelHandlers {
+  /** Called after meshes were shown or hidden from the panel */
+  onVisibilityChange?: () => void;
+  /** Select the elements of a storey (the click event carries the shift/ctrl modifiers) */
+  onSelectStorey?: (storey: IfcStorey, evt: MouseEvent) => void;
+}
+
+// Storeys cached per model
+const storeyCache = new Map<IfcModel, IfcStorey[]>();
+
+// Current storey filter and plan view
+let activeFilter: { storey: IfcStorey; mode: IfcStoreyFilterMode } | null = null;
+let activePlanView: IfcPlanView | null = null;
+
+const exitPlanView = () => {
+  activePlanView?.exit();
+  activePlanView = null;
+};
+
+/**
+ * Leave the plan view, if any, before the camera is moved elsewhere (restored viewpoints)
+ * Refresh the panel afterwards to update its plan view buttons.
+ */
+export function exitStoreyPlanView(): void {
+  exitPlanView();
+}
+
+/**
+ * Create or refresh the storey navigator for the given models
+ * Call again whenever models are added or removed.
+ */
+export async function updateStoreyPanel(
+  ifcAPI: WebIFC.IfcAPI,
+  models: IfcModel[],
+  camera: ArcRotateCamera,
+  section: IfcSectionTool,
+  handlers: StoreyPanelHandlers = {},
+): Promise<void> {
+  // Forget storeys of removed models
+  for (const model of Array.from(storeyCache.keys())) {
+    if (!models.includes(model)) storeyCache.delete(model);
+  }
+  if (activePlanView && !models.some((model) => model.modelID === activePlanView!.storey.modelID)) {
+    exitPlanView();
+  }
+  if (activeFilter && !models.some((model) => model.modelID === activeFilter!.storey.modelID)) {
+    activeFilter = null;
+  }
+
+  for (const model of models) {
+    if (!storeyCache.has(model)) {
+      try {
+        storeyCache.set(model, await getStoreys(ifcAPI, model));
+      } catch (error) {
+        console.warn(`Could not read storeys of ${model.name}:`, error);
+        storeyCache.set(model, []);
+      }
+    }
+  }
+
+  let panel = document.getElementById("storey-panel");
+  if (!panel) {
+    panel = document.createElement("div");
+    panel.id = "storey-panel";
+    panel.className = "storey-panel";
+    document.body.appendChild(panel);
+  }
+
+  const rerender = () => updateStoreyPanel(ifcAPI, models, camera, section, handlers);
+  const allStoreys = models.flatMap((model) => storeyCache.get(model) ?? []);
+
+  panel.innerHTML = "";
+  panel.style.display = allStoreys.length > 0 ? "block" : "none";
+
+  const header = document.createElement("div");
+  header.className = "storey-header";
+
+  const title = document.createElement("span");
+  title.textContent = `Storeys (${allStoreys.length})`;
+  header.appendChild(title);
+
+  if (activePlanView) {
+    const exitBtn = document.createElement("button");
+    exitBtn.textContent = "Exit plan";
+    exitBtn.title = "Back to the 3D view";
+    exitBtn.onclick = () => {
+      exitPlanView();
+      rerender();
+    };
+    header.appendChild(exitBtn);
+  }
+
+  const showAllBtn = document.createElement("button");
+  showAllBtn.textContent = "Show all";
+  showAllBtn.onclick = () => {
+    activeFilter = null;
+    showAllStoreys(models);
+    rerender();
+    handlers.onVisibilityChange?.();
+  };
+  header.appendChild(showAllBtn);
+  panel.appendChild(header);
+
+  const applyFilter = (storey: IfcStorey, mode: IfcStoreyFilterMode) => {
+    activeFilter = { storey, mode };
+    showStorey(models, allStoreys, storey, mode);
+    handlers.onVisibilityChange?.();
+  };
+
+  models.forEach((model) => {
+    const storeys = storeyCache.get(model) ?? [];
+    if (storeys.length === 0) return;
+
+    if (models.length > 1) {
+      const modelTitle = document.createElement("div");
+      modelTitle.className = "storey-model";
+      modelTitle.textContent = model.name;
+      panel!.appendChild(modelTitle);
+    }
+
+    // Highest storey first, as in a section drawing
+    [...storeys].reverse().forEach((storey) => {
+      const row = document.createElement("div");
+      row.className = "storey-row";
+
+      const label = document.createElement("span");
+      label.className = "storey-name";
+      const displayName = storey.name || storey.longName || `#${storey.expressID}`;
+      label.textContent = displayName;
+      label.title = `${displayName} | ${storey.meshes.length} meshes | ID: ${storey.expressID}`;
+
+      const elevation = document.createElement("span");
+      elevation.className = "storey-elevation";
+      elevation.textContent = `${storey.elevation.toFixed(2)} ${storey.elevationUnit}`.trim();
+
+      const createButton = (
+        text: string,
+        buttonTitle: string,
+        active: boolean,
+        onClick: (evt: MouseEvent) => void,
+      ) => {
+        const button = document.createElement("button");
+        button.textContent = text;
+        button.title = buttonTitle;
+        button.classList.toggle("active", active);
+        button.onclick = onClick;
+        return button;
+      };
+
+      const isFilter = (mode: IfcStoreyFilterMode) => activeFilter?.storey === storey && activeFilter.mode === mode;
+
+      row.appendChild(label);
+      row.appendChild(elevation);
+      row.appendChild(
+        createButton("◉", "Show only this storey", isFilter("only"), () => {
+          applyFilter(storey, "only");
+          rerender();
+        }),
+      );
+      row.appendChild(
+        createButton("▲", "Show this storey and everything below", isFilter("upTo"), () => {
+          applyFilter(storey, "upTo");
+          rerender();
+        }),
+      );
+      row.appendChild(
+        createButton("▦", "Plan view of this storey", activePlanView?.storey === storey, () => {
+          exitPlanView();
+          applyFilter(storey, "only");
+          activePlanView = enterPlanView(camera, storey, section);
+          rerender();
+        }),
+      );
+      if (handlers.onSelectStorey) {
+        row.appendChild(
+          createButton("⬚", "Select the elements of this storey (shift: add, ctrl: toggle)", false, (evt) =>
+            handlers.onSelectStorey!(storey, evt),
+          ),
+        );
+      }
+      panel!.appendChild(row);
+    });
+  });
+}
@@ -0,0 +1,116 @@
+import type { IfcModel } from "./ifcLoader";
+import {
+  getTypeCounts,
+  setTypeVisibility,
+  isolateTypes,
+  setTypeGhosted,
+  resetTypeFilters,
+} from "./ifcVisibility";
+
+/** Callbacks from the type filter panel to the viewer */
+export interface TypeFilterPanelHandlers {
+  /** Called after any visibility change so other panels can refresh */
+  onChange?: () => void;
+}
+
+/**
+ * Create or refresh the IFC type checklist panel
+ * Call again whenever models are added or removed.
+ */
+export function updateTypeFilterPanel(models: IfcModel[], handlers: TypeFilterPanelHandlers = {}): void {
+  let panel = document.getElementById("type-filter-panel");
+  if (!panel) {
+    panel = document.createElement("div");
+    panel.id = "type-filter-panel";
+    panel.className = "type-filter-panel";
+    document.body.appendChild(panel);
+  }
+
+  const rerender = () => {
+    updateTypeFilterPanel(models, handlers);
+    handlers.onChange?.();
+  };
+  const scrollTop = panel.scrollTop;
+  const typeCounts = getTypeCounts(models);
+
+  panel.innerHTML = "";
+  panel.style.display = typeCounts.length > 0 ? "block" : "none";
+
+  const header = document.createElement("div");
+  header.className = "type-filter-header";
+
+  const title = document.createElement("span");
+  title.textContent = `IFC types (${typeCounts.length})`;
+
+  const showAllBtn = document.createElement("button");
+  showAllBtn.textContent = "All";
+  showAllBtn.title = "Show all types";
+  showAllBtn.onclick = () => {
+    resetTypeFilters(models);
+    rerender();
+  };
+
+  const hideAllBtn = document.createElement("button");
+  hideAllBtn.textContent = "None";
+  hideAllBtn.title = "Hide all types";
+  hideAllBtn.onclick = () => {
+    setTypeVisibility(
+      models,
+      typeCounts.map((count) => count.ifcType),
+      false,
+    );
+    rerender();
+  };
+
+  header.appendChild(title);
+  header.appendChild(showAllBtn);
+  header.appendChild(hideAllBtn);
+  panel.appendChild(header);
+
+  typeCounts.forEach((count) => {
+    const row = document.createElement("div");
+    row.className = "type-filter-row";
+
+    const visibility = document.createElement("input");
+    visibility.type = "checkbox";
+    visibility.checked = count.visibleMeshCount > 0;
+    // Partially visible (e.g. some elements hidden from the spatial tree)
+    visibility.indeterminate = count.visibleMeshCount > 0 && count.visibleMeshCount < count.meshCount;
+    visibility.title = "Show/hide type";
+    visibility.onchange = () => {
+      setTypeVisibility(models, [count.ifcType], visibility.checked);
+      rerender();
+    };
+
+    const label = document.createElement("span");
+    label.className = "type-filter-name";
+    label.textContent = `${count.ifcTypeName} (${count.elementCount})`;
+    label.title = `${count.ifcTypeName}: ${count.elementCount} elements, ${count.meshCount} meshes`;
+
+    const isolateBtn = document.createElement("button");
+    isolateBtn.textContent = "◎";
+    isolateBtn.title = "Isolate type";
+    isolateBtn.onclick = () => {
+      isolateTypes(models, [count.ifcType]);
+      rerender();
+    };
+
+    const ghosted = count.ghostedMeshCount > 0;
+    const ghostBtn = document.createElement("button");
+    ghostBtn.textContent = ghosted ? "◍" : "◌";
+    ghostBtn.title = ghosted ? "Restore opacity" : "Ghost type";
+    ghostBtn.classList.toggle("active", ghosted);
+    ghostBtn.onclick = () => {
+      setTypeGhosted(models, [count.ifcType], !ghosted);
+      rerender();
+    };
+
+    row.appendChild(visibility);
+    row.appendChild(label);
+    row.appendChild(isolateBtn);
+    row.appendChild(ghostBtn);
+    panel!.appendChild(row);
+  });
+
+  panel.scrollTop = scrollTop;
+}
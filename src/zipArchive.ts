@@ -0,0 +1,157 @@
+/**
+ * Minimal ZIP reading and writing on the browser's (de)compression streams
+ * Supports stored and deflated entries; ZIP64 and encryption are not supported.
+ */
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+// Bit 11: file names are UTF-8
+const UTF8_FLAG = 0x0800;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+let crcTable: Uint32Array | null = null;
+
+// CRC-32 as used by ZIP (polynomial 0xEDB88320)
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Run bytes through a compression or decompression stream
+async function transformBytes(
+  bytes: Uint8Array,
+  transform: CompressionStream | DecompressionStream,
+): Promise<Uint8Array> {
+  const stream = new Blob([bytes as Uint8Array<ArrayBuffer>]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Read every file of a ZIP archive, keyed by path (folders are skipped)
+ */
+export async function readZip(data: ArrayBuffer | Uint8Array): Promise<Map<string, Uint8Array>> {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // The end record sits in the last 22 bytes plus an optional comment of up to 64 KB
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) throw new Error("Not a ZIP archive");
+
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  if (offset === 0xffffffff) throw new Error("ZIP64 archives are not supported");
+
+  const files = new Map<string, Uint8Array>();
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_HEADER) throw new Error("Corrupt ZIP central directory");
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = textDecoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/")) continue;
+    if (view.getUint32(localOffset, true) !== LOCAL_HEADER) throw new Error(`Corrupt ZIP entry ${name}`);
+
+    // The local header may carry a different extra field than the central one
+    const localNameLength = view.getUint16(localOffset + 26, true);
+    const dataStart = localOffset + 30 + localNameLength + view.getUint16(localOffset + 28, true);
+    const content = bytes.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) {
+      files.set(name, content.slice());
+    } else if (method === 8) {
+      files.set(name, await transformBytes(content, new DecompressionStream("deflate-raw")));
+    } else {
+      throw new Error(`Unsupported ZIP compression method ${method} for ${name}`);
+    }
+  }
+  return files;
+}
+
+/**
+ * Write files to a ZIP archive; entries are deflated unless that does not make them smaller
+ */
+export async function writeZip(files: Map<string, Uint8Array | string>): Promise<Blob> {
+  const parts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  // MS-DOS time and date of the entries
+  const now = new Date();
+  const time = (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2);
+  const date = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+
+  for (const [name, content] of files) {
+    const data = typeof content === "string" ? textEncoder.encode(content) : content;
+    const nameBytes = textEncoder.encode(name);
+    const crc = crc32(data);
+    const deflated = await transformBytes(data, new CompressionStream("deflate-raw"));
+    const [method, stored] = deflated.length < data.length ? [8, deflated] : [0, data];
+
+    const local = new Uint8Array(30 + nameBytes.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, LOCAL_HEADER, true);
+    localView.setUint16(4, 20, true);
+    localView.setUint16(6, UTF8_FLAG, true);
+    localView.setUint16(8, method, true);
+    localView.setUint16(10, time, true);
+    localView.setUint16(12, date, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, stored.length, true);
+    localView.setUint32(22, data.length, true);
+    localView.setUint16(26, nameBytes.length, true);
+    local.set(nameBytes, 30);
+
+    const central = new Uint8Array(46 + nameBytes.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, CENTRAL_HEADER, true);
+    centralView.setUint16(4, 20, true);
+    centralView.setUint16(6, 20, true);
+    centralView.setUint16(8, UTF8_FLAG, true);
+    centralView.setUint16(10, method, true);
+    centralView.setUint16(12, time, true);
+    centralView.setUint16(14, date, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, stored.length, true);
+    centralView.setUint32(24, data.length, true);
+    centralView.setUint16(28, nameBytes.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(nameBytes, 46);
+
+    parts.push(local, stored);
+    centralParts.push(central);
+    offset += local.length + stored.length;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const endRecord = new Uint8Array(22);
+  const endView = new DataView(endRecord.buffer);
+  endView.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  endView.setUint16(8, centralParts.length, true);
+  endView.setUint16(10, centralParts.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralParts, endRecord] as Uint8Array<ArrayBuffer>[], { type: "application/zip" });
+}